@@ -1,7 +1,7 @@
-import React, { useState } from 'react';
-import { AppState, FileData, RenderOptions, UpscaleState, Tool, Resolution, AdvancedEditState, EditMode, SketchConverterState, SketchStyle, IdeaGeneratorState } from './types';
-import { WEDDING_CATEGORIES, WEDDING_STYLES, COLOR_PALETTES, SURFACE_MATERIALS, TEXTILE_MATERIALS, TEXTILE_COLORS, PHOTOGRAPHY_PRESETS } from './constants';
-import { generateWeddingRender } from './services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { AppState, FileData, RenderOptions, UpscaleState, Tool, Resolution, AdvancedEditState, EditMode, SketchConverterState, SketchStyle, IdeaGeneratorState, GenerationProgress, PromptSection, WeddingRenderResult, RenderJob, JobPayload, RenderRecipe, PresetOptions, OptionCatalog, FidelityScores, QualityGateOptions, QualityGateReport, CreditReservation, PricingTable, UserProfile, Workspace, ServiceCallOptions } from './types';
+import { WEDDING_CATEGORIES, PHOTOGRAPHY_PRESETS, RENDER_VARIANT_OPTIONS, DEFAULT_RENDER_OPTIONS } from './constants';
+import { generateWeddingRender, buildMasterPrompt, renderFromMasterPrompt, composeMasterPrompt, saveRenderVariantSelection, isAbortError } from './services/geminiService';
 import { OptionSelector } from './components/OptionSelector';
 import { RenderImageUpload } from './components/RenderImageUpload';
 import { ImageComparator } from './components/ImageComparator';
@@ -10,29 +10,70 @@ import AdvancedEdit from './components/AdvancedEdit';
 import { SketchConverter } from './components/SketchConverter';
 import { IdeaGenerator } from './components/IdeaGenerator'; 
 import { RatingSystem } from './components/common/RatingSystem'; // Import RatingSystem
+import { VariantPicker } from './components/VariantPicker';
+import { GenerationStatus } from './components/common/GenerationStatus';
+import { PromptInspector } from './components/PromptInspector';
+import { JobsDrawer } from './components/JobsDrawer';
+import * as jobQueue from './services/jobQueue';
+import * as recipeService from './services/recipeService';
+import { RecipePanel } from './components/RecipePanel';
+import { PresetBar } from './components/PresetBar';
+import * as presetService from './services/presetService';
+import * as optionCatalog from './services/optionCatalog';
+import { OptionCatalogEditor } from './components/OptionCatalogEditor';
+import { PaletteBuilder, PaletteSwatches } from './components/PaletteBuilder';
+import { isPaletteUsable } from './services/paletteService';
+import * as fidelityService from './services/fidelityService';
+import { FidelityScorePanel } from './components/common/FidelityScorePanel';
+import { QualityGateSettings, QualityGateSummary } from './components/QualityGate';
+import { CreditHistory } from './components/CreditHistory';
+import * as creditService from './services/creditService';
+import * as pricing from './services/pricing';
+import * as authService from './services/authService';
+import { ProfileMenu } from './components/ProfileMenu';
+import * as workspaceService from './services/workspaceService';
+import { WorkspacePanel } from './components/WorkspacePanel';
 
 const App: React.FC = () => {
   const [activeTool, setActiveTool] = useState<Tool>(Tool.RENDER);
-  const [userCredits, setUserCredits] = useState<number>(100);
+  const [user, setUser] = useState<UserProfile | null>(null); // null until the auth session is restored
+  const [userCredits, setUserCredits] = useState<number>(0); // Computed from the credit ledger
+  const [isCreditHistoryOpen, setIsCreditHistoryOpen] = useState(false);
+  const [workspace, setWorkspace] = useState<Workspace | null>(null); // null = personal space
+  const [isWorkspacePanelOpen, setIsWorkspacePanelOpen] = useState(false);
+  const [pricingTable, setPricingTable] = useState<PricingTable>(pricing.getPricing());
+
+  // Background job queue (all tools)
+  const [jobs, setJobs] = useState<RenderJob[]>([]);
+  const [isJobsDrawerOpen, setIsJobsDrawerOpen] = useState(false);
+  const [jobConcurrency, setJobConcurrency] = useState<number>(jobQueue.getJobConcurrency());
+
+  // Runtime option catalog (styles, palettes, materials)
+  const [catalog, setCatalog] = useState<OptionCatalog>(optionCatalog.getOptionCatalog());
+  const [isCatalogEditorOpen, setIsCatalogEditorOpen] = useState(false);
 
   // State for Render tab
   const [sourceImage, setSourceImage] = useState<FileData | null>(null);
   const [generatedImage, setGeneratedImage] = useState<string | null>(null);
   const [currentRenderId, setCurrentRenderId] = useState<string | null>(null); // New: Store Render ID for rating
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
-  const [renderOptions, setRenderOptions] = useState<RenderOptions>({
-    category: WEDDING_CATEGORIES[0].value,
-    style: WEDDING_STYLES[0].value,
-    colorPalette: COLOR_PALETTES[0].value,
-    surfaceMaterial: SURFACE_MATERIALS[0].value,
-    textileMaterial: TEXTILE_MATERIALS[0].value,
-    textileColor1: TEXTILE_COLORS[0].value, 
-    textileColor2: TEXTILE_COLORS[0].value,
-    additionalPrompt: '',
-    hiddenAIContext: '',
-    isAutoFocus: true, 
-    cameraPreset: 'CINEMATIC' 
-  });
+  const [variantCount, setVariantCount] = useState<number>(1);
+  const [renderVariants, setRenderVariants] = useState<string[]>([]); // Variants waiting for the user to pick one
+  const [selectedVariantIndex, setSelectedVariantIndex] = useState<number | null>(null);
+  const [renderMasterPrompt, setRenderMasterPrompt] = useState<string>('');
+  const [isSavingVariant, setIsSavingVariant] = useState(false);
+  const [promptDraft, setPromptDraft] = useState<PromptSection[] | null>(null); // Dry-run result, editable before Step 2
+  const [isPreviewingPrompt, setIsPreviewingPrompt] = useState(false);
+  // Configuration that produced the result on screen, captured for recipes
+  const [lastRender, setLastRender] = useState<{ options: RenderOptions; variantCount: number; renderId: string | null } | null>(null);
+  const [isRecipePanelOpen, setIsRecipePanelOpen] = useState(false);
+  const [sourceFingerprint, setSourceFingerprint] = useState<string | null>(null);
+  const [fidelityScores, setFidelityScores] = useState<FidelityScores | null>(null);
+  const [isScoringFidelity, setIsScoringFidelity] = useState(false);
+  const [qualityReport, setQualityReport] = useState<QualityGateReport | null>(null);
+  const [renderProgress, setRenderProgress] = useState<GenerationProgress | null>(null);
+  const renderAbortRef = useRef<AbortController | null>(null);
+  const [renderOptions, setRenderOptions] = useState<RenderOptions>(DEFAULT_RENDER_OPTIONS);
 
   // State for Upscale tab
   const [upscaleState, setUpscaleState] = useState<UpscaleState>({
@@ -49,6 +90,9 @@ const App: React.FC = () => {
     editMode: 'NOTE' as EditMode,
     refObject: null,
     annotatedBase64: null,
+    annotations: [],
+    callouts: [],
+    maskBase64: null,
     clickPoint: null,
     detectedPoints: [],
     resultImage: null,
@@ -76,6 +120,80 @@ const App: React.FC = () => {
     resultImage: null,
   });
 
+  useEffect(() => {
+    const unsubscribe = jobQueue.subscribeJobs(setJobs);
+    jobQueue.initJobQueue();
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    if (!sourceImage) {
+      setSourceFingerprint(null);
+      return;
+    }
+    let cancelled = false;
+    recipeService.fingerprintImage(sourceImage.base64).then(fp => { if (!cancelled) setSourceFingerprint(fp); });
+    return () => { cancelled = true; };
+  }, [sourceImage]);
+
+  useEffect(() => {
+    optionCatalog.loadOptionCatalog().then(setCatalog);
+  }, []);
+
+  useEffect(() => {
+    pricing.loadPricing().then(setPricingTable);
+  }, []);
+
+  useEffect(() => {
+    authService.initAuth().then(setUser);
+    return authService.subscribeAuth(setUser);
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+    workspaceService.loadWorkspaces();
+  }, [user?.id]);
+
+  useEffect(() => workspaceService.subscribeWorkspace(setWorkspace), []);
+
+  // Credits belong to the active workspace's shared pool, or to the signed-in user (or the local anonymous profile)
+  useEffect(() => {
+    if (!user) return;
+    creditService.initCredits().then(setUserCredits);
+    return creditService.subscribeBalance(setUserCredits);
+  }, [user?.id, workspace?.id]);
+
+  // Start from the studio-wide default preset, if one is marked
+  useEffect(() => {
+    presetService.listPresets().then(presets => {
+      const studioDefault = presets.find(p => p.isStudioDefault);
+      if (studioDefault) setRenderOptions(prev => ({ ...prev, ...studioDefault.options }));
+    });
+  }, []);
+
+  const handleApplyPreset = (options: PresetOptions) => {
+    setRenderOptions(prev => ({ ...prev, ...options }));
+  };
+
+  // Local fidelity check of the result against its source, saved with the render_history row
+  useEffect(() => {
+    setFidelityScores(null);
+    if (!generatedImage || !sourceImage?.objectURL) return;
+
+    let cancelled = false;
+    const renderId = lastRender?.renderId;
+    setIsScoringFidelity(true);
+    fidelityService.scoreFidelity(sourceImage.objectURL, generatedImage)
+      .then(scores => {
+        if (cancelled) return;
+        setFidelityScores(scores);
+        if (renderId) fidelityService.saveFidelityScores(renderId, scores);
+      })
+      .catch(e => console.warn("Fidelity scoring failed", e))
+      .finally(() => { if (!cancelled) setIsScoringFidelity(false); });
+    return () => { cancelled = true; };
+  }, [generatedImage]);
+
   const handleOptionChange = <K extends keyof RenderOptions>(key: K, value: RenderOptions[K]) => {
     setRenderOptions(prev => ({ ...prev, [key]: value }));
   };
@@ -85,20 +203,258 @@ const App: React.FC = () => {
     console.log("Hidden AI Context updated silently.");
   };
 
-  const handleGenerate = async () => {
+  // Render price shown before running: variants, plus the quality gate when enabled
+  const renderEstimate = pricing.estimateCost({ tool: Tool.RENDER, variantCount, qualityGate: renderOptions.qualityGate }, pricingTable);
+  const draftRenderEstimate = pricing.estimateCost({ tool: Tool.RENDER, variantCount }, pricingTable);
+
+  const runRender = async (
+    render: (image: FileData, callOptions: ServiceCallOptions) => Promise<WeddingRenderResult>,
+    cost: number,
+    qualityGate?: QualityGateOptions // Gate the reservation was priced with, to refund its re-render if unused
+  ) => {
     if (!sourceImage) return;
 
     setAppState(AppState.GENERATING);
+    setGeneratedImage(null);
+    setCurrentRenderId(null);
+    setRenderVariants([]);
+    setSelectedVariantIndex(null);
+    setRenderProgress(null);
+    setQualityReport(null);
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+    let reservation: CreditReservation | undefined;
     try {
-      // Updated to receive object with imageUrl and renderId
-      const result = await generateWeddingRender(sourceImage, renderOptions);
-      setGeneratedImage(result.imageUrl);
-      setCurrentRenderId(result.renderId); // Store ID for rating
+      reservation = await handleReserveCredits(cost, `Render (${variantCount} variant${variantCount > 1 ? 's' : ''})`);
+      const result = await render(sourceImage, { signal: controller.signal, onProgress: setRenderProgress, reservationId: reservation.id });
+      setRenderMasterPrompt(result.masterPrompt);
+      setQualityReport(result.quality ?? null);
+      setPromptDraft(null);
+      setLastRender({ options: renderOptions, variantCount, renderId: null });
+
+      if (result.variants.length === 1) {
+        // Single result: no choice to make, save it right away
+        const renderId = await saveRenderVariantSelection(renderOptions, result.masterPrompt, 0, 1);
+        setGeneratedImage(result.variants[0]);
+        setCurrentRenderId(renderId); // Store ID for rating
+        setLastRender({ options: renderOptions, variantCount, renderId });
+      } else {
+        setRenderVariants(result.variants);
+      }
+      creditService.confirmReservation(reservation, pricing.unusedQualityRetry(qualityGate, result.quality, pricingTable));
       setAppState(AppState.SUCCESS);
     } catch (error) {
+      creditService.releaseReservation(reservation);
+      if (isAbortError(error) || creditService.isInsufficientCreditsError(error)) {
+        setAppState(AppState.IDLE);
+        return;
+      }
       console.error(error);
       setAppState(AppState.ERROR);
-      alert("Đã xảy ra lỗi khi tạo ảnh. Vui lòng kiểm tra khóa API và thử lại.");
+      alert("Đã xảy ra lỗi khi tạo ảnh. Vui lòng thử lại sau.");
+    } finally {
+      renderAbortRef.current = null;
+      setRenderProgress(null);
+    }
+  };
+
+  const handleGenerate = () => runRender((image, callOptions) =>
+    generateWeddingRender(image, renderOptions, variantCount, callOptions),
+    renderEstimate.total,
+    renderOptions.qualityGate
+  );
+
+  // Dry run: only Step 0–1, the designer edits the prompt before rendering
+  const handlePreviewPrompt = async () => {
+    if (!sourceImage) return;
+
+    setIsPreviewingPrompt(true);
+    setAppState(AppState.GENERATING);
+    setRenderProgress(null);
+    const controller = new AbortController();
+    renderAbortRef.current = controller;
+    // The AI proxy only analyses for a caller who holds a render reservation; the hold is returned right after,
+    // less the analysis fee when the source was analysed (the server works that out itself on Supabase)
+    let reservation: CreditReservation | undefined;
+    try {
+      reservation = await handleReserveCredits(draftRenderEstimate.total, 'Prompt preview (hold)');
+      const draft = await buildMasterPrompt(sourceImage, renderOptions, {
+        signal: controller.signal,
+        onProgress: setRenderProgress,
+        reservationId: reservation.id
+      });
+      setPromptDraft(draft.sections);
+      setGeneratedImage(null);
+      setRenderVariants([]);
+      setAppState(AppState.IDLE);
+      const analysisFee = renderOptions.hiddenAIContext ? 0 : pricingTable.render.analysis;
+      creditService.confirmReservation(reservation, Math.max(0, reservation.amount - analysisFee));
+    } catch (error) {
+      if (reservation && !isAbortError(error)) {
+        console.error(error);
+        alert("Không thể dựng master prompt. Vui lòng thử lại.");
+      }
+      setAppState(AppState.IDLE);
+    } finally {
+      creditService.releaseReservation(reservation);
+      renderAbortRef.current = null;
+      setRenderProgress(null);
+      setIsPreviewingPrompt(false);
+    }
+  };
+
+  const handleRenderFromDraft = () => {
+    if (!promptDraft) return;
+    const masterPrompt = composeMasterPrompt(promptDraft);
+    return runRender((image, callOptions) =>
+      renderFromMasterPrompt(image, masterPrompt, variantCount, callOptions),
+      draftRenderEstimate.total
+    );
+  };
+
+  const handleEnqueueJob = (label: string, payload: JobPayload, reservation?: CreditReservation) => {
+    jobQueue.enqueueJob(label, payload, reservation);
+    setIsJobsDrawerOpen(true);
+  };
+
+  const handleEnqueueRender = async () => {
+    if (!sourceImage) return;
+    // A job with a draft prompt skips Step 0–1 and the quality gate
+    const estimate = promptDraft ? draftRenderEstimate : renderEstimate;
+    let reservation: CreditReservation;
+    try {
+      reservation = await handleReserveCredits(estimate.total, `Render (${variantCount} variant${variantCount > 1 ? 's' : ''})`);
+    } catch {
+      return;
+    }
+    const styleLabel = catalog.styles.find(s => s.value === renderOptions.style)?.label || renderOptions.style;
+    const categoryLabel = WEDDING_CATEGORIES.find(c => c.value === renderOptions.category)?.label || renderOptions.category;
+    handleEnqueueJob(`${categoryLabel} · ${styleLabel}`, {
+      tool: Tool.RENDER,
+      sourceImage,
+      options: renderOptions,
+      variantCount,
+      masterPrompt: promptDraft ? composeMasterPrompt(promptDraft) : undefined,
+    }, reservation);
+  };
+
+  const handleConcurrencyChange = (value: number) => {
+    jobQueue.setJobConcurrency(value);
+    setJobConcurrency(jobQueue.getJobConcurrency());
+  };
+
+  // Open a finished job in the tab it came from
+  const handleOpenJob = (job: RenderJob) => {
+    const { payload, results } = job;
+    setIsJobsDrawerOpen(false);
+    setActiveTool(payload.tool);
+
+    switch (payload.tool) {
+      case Tool.RENDER:
+        setSourceImage(payload.sourceImage);
+        setRenderOptions(payload.options);
+        setRenderMasterPrompt(job.masterPrompt || '');
+        setPromptDraft(null);
+        setQualityReport(null);
+        setLastRender({ options: payload.options, variantCount: payload.variantCount, renderId: job.renderId ?? null });
+        setSelectedVariantIndex(null);
+        if (results.length === 1) {
+          setGeneratedImage(results[0]);
+          setCurrentRenderId(job.renderId ?? null);
+          setRenderVariants([]);
+        } else {
+          setGeneratedImage(null);
+          setCurrentRenderId(null);
+          setRenderVariants(results);
+        }
+        setAppState(AppState.SUCCESS);
+        break;
+      case Tool.UPSCALE:
+        setUpscaleState(prev => ({ ...prev, sourceImage: payload.sourceImage, resolution: payload.resolution, upscaledImages: results, error: null, isLoading: false }));
+        break;
+      case Tool.ADVANCED_EDIT:
+        setAdvancedEditState(prev => ({
+          ...prev,
+          sourceImage: payload.sourceImage,
+          editMode: payload.editMode,
+          // NOTE jobs reopen with their marks so they can be adjusted and sent again
+          annotatedBase64: payload.editMode === 'NOTE' ? payload.secondaryImage?.base64 ?? null : null,
+          annotations: payload.editMode === 'NOTE' ? payload.annotations || [] : [],
+          callouts: payload.editMode === 'NOTE' ? payload.callouts || [] : [],
+          maskBase64: payload.editMode === 'MASK' || payload.editMode === 'REMOVE' ? payload.secondaryImage?.base64 ?? null : null,
+          additionalPrompt: payload.additionalPrompt,
+          resultImage: results[0],
+          error: null,
+          isLoading: false,
+          isAnnotating: false,
+        }));
+        break;
+      case Tool.SKETCH_CONVERTER:
+        setSketchState(prev => ({ ...prev, sourceImage: payload.sourceImage, sketchStyle: payload.sketchStyle, resultImage: results[0], error: null, isLoading: false }));
+        break;
+      case Tool.IDEA_GENERATOR:
+        setIdeaState(prev => ({ ...prev, sourceSketch: payload.sourceSketch, assets: payload.assets, resultImage: results[0], error: null, isLoading: false }));
+        break;
+    }
+  };
+
+  const handleSaveRecipe = async () => {
+    if (!sourceImage || !generatedImage || !lastRender) return;
+    const styleLabel = catalog.styles.find(s => s.value === lastRender.options.style)?.label || lastRender.options.style;
+    const name = window.prompt("Đặt tên cho công thức này:", `${styleLabel} · ${new Date().toLocaleDateString('vi-VN')}`);
+    if (name === null) return;
+
+    const recipe = await recipeService.createRecipe(
+      name,
+      sourceImage,
+      lastRender.options,
+      lastRender.variantCount,
+      renderMasterPrompt,
+      generatedImage,
+      lastRender.renderId
+    );
+    await recipeService.saveRecipe(recipe);
+    alert(`Đã lưu công thức "${recipe.name}".`);
+  };
+
+  // Same source image: replay the exact master prompt. New image: reuse the options and rebuild the prompt.
+  const handleApplyRecipe = (recipe: RenderRecipe) => {
+    const isSameSource = !!sourceImage && recipe.sourceFingerprint === sourceFingerprint;
+    setRenderOptions(recipeService.applyRecipeOptions(recipe, isSameSource));
+    setVariantCount(recipe.variantCount);
+    setGeneratedImage(null);
+    setCurrentRenderId(null);
+    setRenderVariants([]);
+    setSelectedVariantIndex(null);
+    setPromptDraft(isSameSource
+      ? [{ id: 'recipe', title: `Master prompt từ công thức "${recipe.name}"`, label: '', content: recipe.masterPrompt }]
+      : null);
+    setAppState(AppState.IDLE);
+    setIsRecipePanelOpen(false);
+  };
+
+  const resultPalette = lastRender?.options.customPalette;
+
+  const activeJobCount = jobs.filter(job => job.status === 'queued' || job.status === 'running').length;
+
+  const handleCancelRender = () => {
+    renderAbortRef.current?.abort();
+  };
+
+  const handleConfirmVariant = async () => {
+    if (selectedVariantIndex === null || !lastRender) return;
+
+    setIsSavingVariant(true);
+    try {
+      // The options the variants were rendered with, not whatever the form holds now
+      const renderId = await saveRenderVariantSelection(lastRender.options, renderMasterPrompt, selectedVariantIndex, renderVariants.length);
+      setGeneratedImage(renderVariants[selectedVariantIndex]);
+      setCurrentRenderId(renderId);
+      setLastRender(prev => prev && { ...prev, renderId });
+      setRenderVariants([]);
+      setSelectedVariantIndex(null);
+    } finally {
+      setIsSavingVariant(false);
     }
   };
 
@@ -117,6 +473,9 @@ const App: React.FC = () => {
     setSourceImage(data);
     setGeneratedImage(null); 
     setCurrentRenderId(null);
+    setRenderVariants([]);
+    setSelectedVariantIndex(null);
+    setPromptDraft(null);
     setAppState(AppState.IDLE); 
   };
 
@@ -144,6 +503,9 @@ const App: React.FC = () => {
       editMode: 'NOTE',
       refObject: null,
       annotatedBase64: null,
+      annotations: [],
+      callouts: [],
+      maskBase64: null,
       clickPoint: null,
       detectedPoints: [],
       resultImage: null,
@@ -182,14 +544,33 @@ const App: React.FC = () => {
     });
   };
 
-  const handleDeductCredits = async (cost: number, description: string) => {
-    setUserCredits(prev => prev - cost);
-    console.log(`Credits deducted: ${cost}. Remaining: ${userCredits - cost}. Action: ${description}`);
+  // Credits are held before each AI call; the tool confirms on success or releases them on failure/cancel
+  const handleReserveCredits = async (cost: number, description: string): Promise<CreditReservation> => {
+    if (!workspaceService.canSpendCredits()) {
+      alert("Vai trò Người xem không được dùng credit của workspace.");
+      throw new Error("Viewers cannot spend workspace credits.");
+    }
+    try {
+      return await creditService.reserveCredits(cost, description, activeTool);
+    } catch (error) {
+      if (creditService.isInsufficientCreditsError(error)) {
+        alert("Số dư Credits không đủ cho thao tác này.");
+      } else if (creditService.isSpendingLimitError(error)) {
+        alert("Bạn đã dùng hết hạn mức credit tháng này trong workspace.");
+      }
+      throw error;
+    }
   };
 
-  const handleRewardCredits = (amount: number) => {
-    setUserCredits(prev => prev + amount);
-  }
+  const handleRewardCredits = async (amount: number) => {
+    // One reward per rated render; the ledger only accepts it for a saved render of this user
+    if (!currentRenderId) return;
+    try {
+      await creditService.rewardCredits(amount, "Render feedback", `feedback:${currentRenderId}`);
+    } catch (error) {
+      console.error("Failed to reward credits", error);
+    }
+  };
 
   const handleTransferToUpscale = () => {
     if (generatedImage) {
@@ -216,6 +597,9 @@ const App: React.FC = () => {
         editMode: 'NOTE', 
         refObject: null,
         annotatedBase64: null,
+        annotations: [],
+        callouts: [],
+        maskBase64: null,
         clickPoint: null,
         detectedPoints: [],
         isAnnotating: false,
@@ -277,7 +661,37 @@ const App: React.FC = () => {
             >
               Phác Thảo
             </button>
-            <span className="text-sm font-semibold text-luxury-800 ml-2 whitespace-nowrap">Credits: {userCredits}</span>
+            <button
+              onClick={() => setIsCatalogEditorOpen(true)}
+              className="px-3 py-2 rounded-lg text-sm font-semibold text-luxury-600 hover:bg-luxury-100 transition-colors whitespace-nowrap"
+              title="Quản lý danh mục phong cách, bảng màu và vật liệu"
+            >
+              Danh Mục
+            </button>
+            <button
+              onClick={() => setIsJobsDrawerOpen(true)}
+              className="relative px-3 py-2 rounded-lg text-sm font-semibold text-luxury-600 hover:bg-luxury-100 transition-colors whitespace-nowrap"
+            >
+              Hàng Đợi
+              {activeJobCount > 0 && (
+                <span className="ml-1 px-1.5 py-0.5 rounded-full bg-accent-500 text-white text-[10px] font-bold">{activeJobCount}</span>
+              )}
+            </button>
+            <button
+              onClick={() => setIsWorkspacePanelOpen(true)}
+              className="px-3 py-2 rounded-lg text-sm font-semibold text-luxury-600 hover:bg-luxury-100 transition-colors whitespace-nowrap max-w-[10rem] truncate"
+              title="Chọn workspace"
+            >
+              {workspace ? workspace.name : 'Cá nhân'}
+            </button>
+            <button
+              onClick={() => setIsCreditHistoryOpen(true)}
+              className="text-sm font-semibold text-luxury-800 ml-2 whitespace-nowrap hover:text-accent-600 transition-colors"
+              title="Xem lịch sử giao dịch credit"
+            >
+              Credits: {userCredits}
+            </button>
+            {user && <ProfileMenu user={user} />}
           </div>
         </div>
       </header>
@@ -290,7 +704,15 @@ const App: React.FC = () => {
             {/* LEFT: Controls */}
             <div className="w-full lg:w-1/3 space-y-8 bg-white p-6 md:p-8 rounded-2xl shadow-xl border border-luxury-100">
               <div>
-                <h2 className="text-xl font-serif font-bold text-luxury-900 mb-4">Thông Số Thiết Kế</h2>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-xl font-serif font-bold text-luxury-900">Thông Số Thiết Kế</h2>
+                  <button
+                    onClick={() => setIsRecipePanelOpen(true)}
+                    className="px-3 py-1 rounded-full text-xs font-bold border border-luxury-300 text-luxury-800 hover:bg-luxury-50 transition-colors"
+                  >
+                    Công Thức
+                  </button>
+                </div>
                 <div className="space-y-6">
                   
                   {/* 1. Upload */}
@@ -306,6 +728,8 @@ const App: React.FC = () => {
                   </div>
 
                   {/* 2. Options */}
+                  <PresetBar key={`${user?.id}:${workspace?.id}`} currentOptions={renderOptions} onApply={handleApplyPreset} />
+
                   <OptionSelector
                     label="Hạng Mục"
                     options={WEDDING_CATEGORIES}
@@ -315,28 +739,33 @@ const App: React.FC = () => {
 
                   <OptionSelector
                     label="Phong Cách"
-                    options={WEDDING_STYLES}
+                    options={optionCatalog.getActiveOptions(catalog, 'styles')}
                     value={renderOptions.style}
                     onChange={(v) => handleOptionChange('style', v)}
                   />
 
                   <OptionSelector
                     label="Bảng Màu"
-                    options={COLOR_PALETTES}
+                    options={optionCatalog.getActiveOptions(catalog, 'palettes')}
                     value={renderOptions.colorPalette}
                     onChange={(v) => handleOptionChange('colorPalette', v)}
                   />
 
+                  <PaletteBuilder
+                    palette={renderOptions.customPalette || []}
+                    onChange={(palette) => handleOptionChange('customPalette', palette.length > 0 ? palette : undefined)}
+                  />
+
                   <OptionSelector
                     label="Vật Liệu Bề Mặt"
-                    options={SURFACE_MATERIALS}
+                    options={optionCatalog.getActiveOptions(catalog, 'surfaceMaterials')}
                     value={renderOptions.surfaceMaterial}
                     onChange={(v) => handleOptionChange('surfaceMaterial', v)}
                   />
 
                   <OptionSelector
                     label="Vật Liệu Vải"
-                    options={TEXTILE_MATERIALS}
+                    options={optionCatalog.getActiveOptions(catalog, 'textileMaterials')}
                     value={renderOptions.textileMaterial}
                     onChange={(v) => handleOptionChange('textileMaterial', v)}
                   />
@@ -345,13 +774,13 @@ const App: React.FC = () => {
                     <>
                       <OptionSelector
                         label="Màu Sắc Chính (Vải)"
-                        options={TEXTILE_COLORS}
+                        options={optionCatalog.getActiveOptions(catalog, 'textileColors')}
                         value={renderOptions.textileColor1}
                         onChange={(v) => handleOptionChange('textileColor1', v)}
                       />
                       <OptionSelector
                         label="Màu Sắc Phụ (Vải)"
-                        options={TEXTILE_COLORS}
+                        options={optionCatalog.getActiveOptions(catalog, 'textileColors')}
                         value={renderOptions.textileColor2}
                         onChange={(v) => handleOptionChange('textileColor2', v)}
                       />
@@ -404,11 +833,29 @@ const App: React.FC = () => {
                       />
                   </div>
 
+                  <OptionSelector
+                    label="Số Phương Án"
+                    options={RENDER_VARIANT_OPTIONS}
+                    value={String(variantCount)}
+                    onChange={(v) => setVariantCount(Number(v))}
+                    variant="grid"
+                  />
+
+                  <QualityGateSettings
+                    gate={renderOptions.qualityGate}
+                    onChange={(gate) => handleOptionChange('qualityGate', gate)}
+                  />
+
+                  <div className="flex justify-between items-center gap-3 p-3 bg-luxury-50 rounded-lg border border-luxury-100">
+                    <span className="text-sm text-luxury-800">Phí: <b className="text-accent-600">{pricing.formatEstimate(renderEstimate)}</b></span>
+                    <span className="text-sm text-luxury-500 whitespace-nowrap">Số dư: {userCredits}</span>
+                  </div>
+
                   <button
                     onClick={handleGenerate}
-                    disabled={!sourceImage || appState === AppState.GENERATING}
+                    disabled={!sourceImage || appState === AppState.GENERATING || userCredits < renderEstimate.total}
                     className={`w-full py-4 px-6 rounded-lg font-bold text-white tracking-widest shadow-lg transition-all transform hover:-translate-y-0.5
-                      ${!sourceImage || appState === AppState.GENERATING 
+                      ${!sourceImage || appState === AppState.GENERATING || userCredits < renderEstimate.total
                           ? 'bg-luxury-300 cursor-not-allowed' 
                           : 'bg-gradient-to-r from-accent-600 to-accent-500 hover:from-accent-500 hover:to-accent-400 shadow-accent-200/50'
                         }
@@ -422,7 +869,33 @@ const App: React.FC = () => {
                         </svg>
                         ĐANG TẠO RENDER...
                       </span>
-                    ) : 'HIỆN THỰC HÓA KHÔNG GIAN'}
+                    ) : `HIỆN THỰC HÓA KHÔNG GIAN (${renderEstimate.total} CREDITS)`}
+                  </button>
+
+                  <button
+                    onClick={handlePreviewPrompt}
+                    disabled={!sourceImage || appState === AppState.GENERATING}
+                    className={`w-full py-2 px-6 rounded-lg text-sm font-bold tracking-wide border transition-colors
+                      ${!sourceImage || appState === AppState.GENERATING
+                          ? 'border-luxury-200 text-luxury-300 cursor-not-allowed'
+                          : 'border-luxury-300 text-luxury-800 hover:bg-luxury-50'
+                        }
+                    `}
+                  >
+                    XEM TRƯỚC PROMPT{!renderOptions.hiddenAIContext && ` (${pricingTable.render.analysis} CREDITS)`}
+                  </button>
+
+                  <button
+                    onClick={handleEnqueueRender}
+                    disabled={!sourceImage}
+                    className={`w-full py-2 px-6 rounded-lg text-sm font-bold tracking-wide border transition-colors
+                      ${!sourceImage
+                          ? 'border-luxury-200 text-luxury-300 cursor-not-allowed'
+                          : 'border-accent-500 text-accent-600 hover:bg-luxury-50'
+                        }
+                    `}
+                  >
+                    THÊM VÀO HÀNG ĐỢI ({(promptDraft ? draftRenderEstimate : renderEstimate).total} CREDITS)
                   </button>
                 </div>
               </div>
@@ -441,7 +914,17 @@ const App: React.FC = () => {
                         </div>
                     )}
 
-                    {appState === AppState.IDLE && sourceImage && (
+                    {appState === AppState.IDLE && sourceImage && promptDraft && (
+                        <PromptInspector
+                            sections={promptDraft}
+                            onChange={setPromptDraft}
+                            onRender={handleRenderFromDraft}
+                            renderCost={draftRenderEstimate.total}
+                            onDiscard={() => setPromptDraft(null)}
+                        />
+                    )}
+
+                    {appState === AppState.IDLE && sourceImage && !promptDraft && (
                         <div className="w-full h-full flex items-center justify-center bg-black rounded-xl overflow-hidden">
                             <img src={sourceImage.objectURL} alt="Nguồn" className="max-w-full max-h-[600px] object-contain" />
                         </div>
@@ -453,17 +936,36 @@ const App: React.FC = () => {
                             <div className="absolute top-0 left-0 w-full h-full border-4 border-luxury-200 rounded-full animate-ping opacity-75"></div>
                             <div className="absolute top-0 left-0 w-full h-full border-4 border-accent-500 rounded-full animate-spin border-t-transparent"></div>
                             </div>
-                            <h3 className="mt-8 text-xl font-serif font-bold text-luxury-800">Đang Xây Dựng Cảnh 3D...</h3>
-                            <p className="text-luxury-600 mt-2">Đang áp dụng vật liệu, ánh sáng và sắp xếp hoa.</p>
+                            <h3 className="mt-8 text-xl font-serif font-bold text-luxury-800">{isPreviewingPrompt ? 'Đang Dựng Master Prompt...' : 'Đang Xây Dựng Cảnh 3D...'}</h3>
+                            <div className="mt-2">
+                                <GenerationStatus
+                                    progress={renderProgress}
+                                    onCancel={handleCancelRender}
+                                    fallbackMessage="Đang áp dụng vật liệu, ánh sáng và sắp xếp hoa."
+                                />
+                            </div>
                         </div>
                     )}
 
+                    {appState === AppState.SUCCESS && !generatedImage && renderVariants.length > 1 && (
+                        <VariantPicker
+                            variants={renderVariants}
+                            selectedIndex={selectedVariantIndex}
+                            onSelect={setSelectedVariantIndex}
+                            onConfirm={handleConfirmVariant}
+                            isSaving={isSavingVariant}
+                        />
+                    )}
+
                     {appState === AppState.SUCCESS && generatedImage && sourceImage?.objectURL && (
                         <div className="h-full flex flex-col gap-4">
                             <ImageComparator 
                             originalImage={sourceImage.objectURL || ''} 
                             generatedImage={generatedImage} 
                             />
+                            <FidelityScorePanel scores={fidelityScores} isScoring={isScoringFidelity} />
+                            {qualityReport && <QualityGateSummary report={qualityReport} />}
+                            {isPaletteUsable(resultPalette) && <PaletteSwatches palette={resultPalette} />}
                             <div className="flex justify-center gap-4 py-2">
                             <a 
                                 href={generatedImage} 
@@ -487,6 +989,12 @@ const App: React.FC = () => {
                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z" /></svg>
                                 Chỉnh Sửa AI
                             </button>
+                            <button 
+                                onClick={handleSaveRecipe}
+                                className="px-6 py-2 bg-white text-luxury-800 border border-luxury-300 rounded-full text-sm font-bold hover:bg-luxury-50 transition-colors shadow-md"
+                            >
+                                Lưu Công Thức
+                            </button>
                             </div>
                         </div>
                     )}
@@ -509,8 +1017,9 @@ const App: React.FC = () => {
                 state={ideaState}
                 onStateChange={handleIdeaStateChange}
                 userCredits={userCredits}
-                onDeductCredits={handleDeductCredits}
+                onReserveCredits={handleReserveCredits}
                 onReset={resetIdeaTab}
+                onEnqueueJob={handleEnqueueJob}
             />
         )}
 
@@ -519,8 +1028,9 @@ const App: React.FC = () => {
             state={upscaleState}
             onStateChange={handleUpscaleStateChange}
             userCredits={userCredits}
-            onDeductCredits={handleDeductCredits}
+            onReserveCredits={handleReserveCredits}
             onReset={resetUpscaleTab}
+            onEnqueueJob={handleEnqueueJob}
           />
         )}
 
@@ -529,8 +1039,9 @@ const App: React.FC = () => {
             state={advancedEditState}
             onStateChange={handleAdvancedEditStateChange}
             userCredits={userCredits}
-            onDeductCredits={handleDeductCredits}
+            onReserveCredits={handleReserveCredits}
             onReset={resetAdvancedEditTab}
+            onEnqueueJob={handleEnqueueJob}
           />
         )}
 
@@ -539,12 +1050,52 @@ const App: React.FC = () => {
                 state={sketchState} 
                 onStateChange={handleSketchStateChange}
                 userCredits={userCredits}
-                onDeductCredits={handleDeductCredits}
+                onReserveCredits={handleReserveCredits}
                 onReset={resetSketchTab}
+                onEnqueueJob={handleEnqueueJob}
             />
         )}
       </main>
 
+      <OptionCatalogEditor
+        isOpen={isCatalogEditorOpen}
+        onClose={() => setIsCatalogEditorOpen(false)}
+        catalog={catalog}
+        onSaved={setCatalog}
+      />
+
+      <RecipePanel
+        isOpen={isRecipePanelOpen}
+        onClose={() => setIsRecipePanelOpen(false)}
+        sourceFingerprint={sourceFingerprint}
+        onApply={handleApplyRecipe}
+      />
+
+      <JobsDrawer
+        jobs={jobs}
+        isOpen={isJobsDrawerOpen}
+        onClose={() => setIsJobsDrawerOpen(false)}
+        concurrency={jobConcurrency}
+        onConcurrencyChange={handleConcurrencyChange}
+        onOpenJob={handleOpenJob}
+        onCancelJob={jobQueue.cancelJob}
+        onRetryJob={jobQueue.retryJob}
+        onRemoveJob={jobQueue.removeJob}
+        onClearFinished={jobQueue.clearFinishedJobs}
+      />
+
+      <CreditHistory
+        isOpen={isCreditHistoryOpen}
+        onClose={() => setIsCreditHistoryOpen(false)}
+        balance={userCredits}
+      />
+
+      <WorkspacePanel
+        isOpen={isWorkspacePanelOpen}
+        onClose={() => setIsWorkspacePanelOpen(false)}
+        activeWorkspace={workspace}
+      />
+
       {/* Footer */}
       <footer className="bg-white border-t border-luxury-100 py-6 mt-auto">
         <div className="max-w-7xl mx-auto px-4 text-center text-luxury-400 text-sm">
@@ -0,0 +1,249 @@
+import "../server/env";
+import { mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { FileData, RenderOptions, RenderScope } from "../types";
+import { DEFAULT_JOB_CONCURRENCY, DEFAULT_RENDER_OPTIONS, MAX_RENDER_VARIANTS } from "../constants";
+import { setSupabaseClient } from "../supabaseClient";
+import * as geminiService from "../services/geminiService";
+import { loadOptionCatalog } from "../services/optionCatalog";
+import { parseRecipeFile, applyRecipeOptions } from "../services/recipeService";
+import { createGeminiProvider, createMockProvider, ImageProvider, setImageProvider } from "../services/providers";
+import { serviceDb } from "../server/db";
+
+const USAGE = `Usage: npm run batch -- --input <folder> --options <file.json> [--out <folder>]
+       [--variants 1-${MAX_RENDER_VARIANTS}] [--concurrency N] [--recipe <name>] [--owner <user id>] [--workspace <id>]
+
+  --options   RenderOptions JSON (partial, merged over the defaults), a saved preset { name, options },
+              or a recipe export (pick one with --recipe, default: the first)
+  --out       Output folder (default: <input>/renders)
+  --owner     Learn from this user's rated history (needs SUPABASE_SERVICE_ROLE_KEY)
+  --workspace Learn from this workspace's shared history instead`;
+
+const IMAGE_TYPES: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg', '.webp': 'image/webp' };
+const OUTPUT_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/svg+xml': 'svg' };
+const MANIFEST_FILE = 'manifest.csv';
+
+interface BatchSettings {
+  options: RenderOptions;
+  variantCount: number;
+  source: string; // What the options came from, for the log
+}
+
+interface ManifestRow {
+  file: string;
+  status: 'succeeded' | 'failed';
+  outputs: string[];
+  startedAt: string;
+  durationMs: number;
+  qualityScore: number | null;
+  masterPrompt: string;
+  error: string;
+}
+
+const createProvider = (): ImageProvider => {
+  if (process.env.IMAGE_PROVIDER === 'mock') return createMockProvider();
+  if (!process.env.GEMINI_API_KEY) {
+    console.warn("⚠️ Gemini API key missing (GEMINI_API_KEY). Rendering with the offline mock image provider.");
+    return createMockProvider();
+  }
+  return createGeminiProvider(process.env.GEMINI_API_KEY);
+};
+
+/**
+ * Đọc file thiết lập: RenderOptions, preset đã lưu ({ name, options }) hoặc file xuất công thức
+ */
+const loadSettings = async (file: string, recipeName: string | undefined, variants: number | undefined): Promise<BatchSettings> => {
+  const text = await readFile(file, 'utf8');
+  const parsed = JSON.parse(text);
+
+  let options: Partial<RenderOptions>;
+  let variantCount = 1;
+  let source: string;
+  if (parsed?.format === 'luxzen-render-recipes' || typeof parsed?.masterPrompt === 'string') {
+    const recipes = parseRecipeFile(text);
+    const recipe = recipeName ? recipes.find(r => r.name === recipeName) : recipes[0];
+    if (!recipe) throw new Error(`Recipe "${recipeName}" not found in ${file}.`);
+    // Hidden context describes the recipe's own source image, not these sketches
+    options = applyRecipeOptions(recipe, false);
+    variantCount = recipe.variantCount;
+    source = `recipe "${recipe.name}"`;
+  } else if (parsed?.options && typeof parsed.options === 'object') {
+    options = parsed.options;
+    source = `preset "${parsed.name ?? path.basename(file)}"`;
+  } else {
+    options = parsed;
+    source = path.basename(file);
+  }
+
+  const merged: RenderOptions = { ...DEFAULT_RENDER_OPTIONS, ...options, hiddenAIContext: options.hiddenAIContext || '' };
+  if (merged.qualityGate?.enabled) {
+    // Local pixel metrics need a browser canvas; the CLI grades with vision only (headless)
+    merged.qualityGate = { ...merged.qualityGate, method: 'vision' };
+  }
+  const count = variants ?? variantCount;
+  return { options: merged, variantCount: Math.min(Math.max(Math.round(count), 1), MAX_RENDER_VARIANTS), source };
+};
+
+const listImages = async (folder: string): Promise<string[]> => {
+  const entries = await readdir(folder, { withFileTypes: true });
+  return entries
+    .filter(entry => entry.isFile() && IMAGE_TYPES[path.extname(entry.name).toLowerCase()])
+    .map(entry => entry.name)
+    .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+};
+
+const readImage = async (file: string): Promise<FileData> => ({
+  base64: (await readFile(file)).toString('base64'),
+  mimeType: IMAGE_TYPES[path.extname(file).toLowerCase()],
+});
+
+const writeResult = async (outDir: string, baseName: string, dataUrl: string, index: number, count: number): Promise<string> => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;,]+)/)?.[1] || 'image/png';
+  const name = `${baseName}${count > 1 ? `-v${index + 1}` : ''}.${OUTPUT_EXTENSIONS[mimeType] || 'png'}`;
+  const bytes = header.includes(';base64') ? Buffer.from(data, 'base64') : Buffer.from(decodeURIComponent(data), 'utf8');
+  await writeFile(path.join(outDir, name), bytes);
+  return name;
+};
+
+const renderOne = async (
+  inputDir: string,
+  outDir: string,
+  file: string,
+  settings: BatchSettings,
+  scope: RenderScope
+): Promise<ManifestRow> => {
+  const started = Date.now();
+  const row: ManifestRow = {
+    file, status: 'failed', outputs: [], startedAt: new Date(started).toISOString(),
+    durationMs: 0, qualityScore: null, masterPrompt: '', error: '',
+  };
+  try {
+    const image = await readImage(path.join(inputDir, file));
+    // Same pipeline as the Render tab: learning context, empowerment prompt, master prompt, quality gate
+    const result = await geminiService.generateWeddingRender(image, settings.options, settings.variantCount, { scope, headless: true });
+    const baseName = path.basename(file, path.extname(file));
+    for (const [index, variant] of result.variants.entries()) {
+      row.outputs.push(await writeResult(outDir, baseName, variant, index, result.variants.length));
+    }
+    const quality = result.quality;
+    row.qualityScore = quality ? (quality.usedRetry && quality.retryAttempt ? quality.retryAttempt : quality.firstAttempt).overall : null;
+    row.masterPrompt = result.masterPrompt;
+    row.status = 'succeeded';
+  } catch (e: any) {
+    row.error = e?.message || String(e);
+  }
+  row.durationMs = Date.now() - started;
+  return row;
+};
+
+/**
+ * Chạy tối đa `concurrency` ảnh cùng lúc, giữ thứ tự kết quả theo danh sách đầu vào
+ */
+const runPool = async <T, R>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const lanes = Array.from({ length: Math.min(concurrency, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+  return results;
+};
+
+const csvCell = (value: string | number | null): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: ManifestRow[]): string => {
+  const header = ['file', 'status', 'outputs', 'started_at', 'duration_ms', 'quality_score', 'master_prompt', 'error'];
+  const lines = rows.map(row => [
+    row.file, row.status, row.outputs.join(';'), row.startedAt, row.durationMs, row.qualityScore, row.masterPrompt, row.error,
+  ].map(csvCell).join(','));
+  return [header.join(','), ...lines].join('\r\n') + '\r\n';
+};
+
+// Whole-number flag: undefined when absent, NaN when it is not a whole number within [min, max]
+const parseCountFlag = (value: string | undefined, min: number, max: number = Infinity): number | undefined => {
+  if (value === undefined) return undefined;
+  const count = /^\d+$/.test(value.trim()) ? Number(value) : NaN;
+  return count >= min && count <= max ? count : NaN;
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      input: { type: 'string', short: 'i' },
+      options: { type: 'string', short: 'o' },
+      out: { type: 'string' },
+      variants: { type: 'string' },
+      concurrency: { type: 'string', short: 'c' },
+      recipe: { type: 'string' },
+      owner: { type: 'string' },
+      workspace: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help || !values.input || !values.options) {
+    console.log(USAGE);
+    process.exitCode = values.help ? 0 : 1;
+    return;
+  }
+  const variants = parseCountFlag(values.variants, 1, MAX_RENDER_VARIANTS);
+  const concurrencyFlag = parseCountFlag(values.concurrency, 1);
+  if (Number.isNaN(variants) || Number.isNaN(concurrencyFlag)) {
+    console.error(Number.isNaN(variants)
+      ? `--variants must be a whole number from 1 to ${MAX_RENDER_VARIANTS}.`
+      : "--concurrency must be a whole number of at least 1.");
+    console.log(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+
+  const inputDir = path.resolve(values.input);
+  const outDir = path.resolve(values.out || path.join(inputDir, 'renders'));
+  const concurrency = concurrencyFlag ?? DEFAULT_JOB_CONCURRENCY;
+  const settings = await loadSettings(path.resolve(values.options), values.recipe, variants);
+
+  setImageProvider(createProvider());
+  if (serviceDb) {
+    // Learning context and the option catalog come from Supabase, like the headless API
+    setSupabaseClient(serviceDb);
+    await loadOptionCatalog();
+  } else if (values.owner || values.workspace) {
+    console.warn("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are not set; rendering without learning context.");
+  }
+  const scope: RenderScope = { ownerId: values.owner || 'cli', workspaceId: values.workspace || null };
+
+  const files = await listImages(inputDir);
+  if (files.length === 0) {
+    console.error(`No .png, .jpg or .webp images found in ${inputDir}.`);
+    process.exitCode = 1;
+    return;
+  }
+  await mkdir(outDir, { recursive: true });
+  console.log(`Rendering ${files.length} image(s) with ${settings.source}, ${settings.variantCount} variant(s) each, ${concurrency} at a time → ${outDir}`);
+
+  let done = 0;
+  const rows = await runPool(files, concurrency, async (file) => {
+    const row = await renderOne(inputDir, outDir, file, settings, scope);
+    done++;
+    const outcome = row.status === 'succeeded' ? `ok (${(row.durationMs / 1000).toFixed(1)}s)` : `FAILED: ${row.error}`;
+    console.log(`[${done}/${files.length}] ${file} ${outcome}`);
+    return row;
+  });
+
+  await writeFile(path.join(outDir, MANIFEST_FILE), toCsv(rows));
+  const failed = rows.filter(row => row.status === 'failed').length;
+  console.log(`Done: ${rows.length - failed} succeeded, ${failed} failed. Manifest: ${path.join(outDir, MANIFEST_FILE)}`);
+  if (failed > 0) process.exitCode = 1;
+};
+
+main().catch((e) => {
+  console.error(e?.message || e);
+  process.exitCode = 1;
+});
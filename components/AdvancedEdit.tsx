@@ -1,21 +1,27 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { FileData, AdvancedEditProps, EditMode, ClickPoint } from '../types';
+import { FileData, AdvancedEditProps, EditMode, ClickPoint, GenerationProgress, Tool, CreditReservation, Annotation, AnnotationCallout } from '../types';
 import * as geminiService from '../services/geminiService';
+import * as creditService from '../services/creditService';
+import * as pricing from '../services/pricing';
 import { Spinner } from './Spinner';
 import { ImageUpload } from './common/ImageUpload';
 import { ImageComparator } from './ImageComparator';
 import { AnnotationCanvas } from './AnnotationCanvas';
+import { MaskPainter } from './MaskPainter';
 import { PointSelectorModal } from './PointSelectorModal'; // Import the new modal
+import { GenerationStatus } from './common/GenerationStatus';
 
-const AI_EDIT_COST = 35; // Credits for Advanced AI editing
-const DETECTION_COST = 5; // Credits for detecting similar objects (still defined here for cost management, but logic moved)
 
-const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userCredits, onDeductCredits, onReset }) => {
-    const { sourceImage, editMode, refObject, annotatedBase64, clickPoint, detectedPoints, resultImage, isLoading, error, isAnnotating, additionalPrompt } = state;
+const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userCredits, onReserveCredits, onReset, onEnqueueJob }) => {
+    const { sourceImage, editMode, refObject, annotatedBase64, annotations, callouts, maskBase64, clickPoint, detectedPoints, resultImage, isLoading, error, isAnnotating, additionalPrompt } = state;
     const [isPointSelectionModalOpen, setIsPointSelectionModalOpen] = useState(false); // New state for modal
+    const [progress, setProgress] = useState<GenerationProgress | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const editCost = pricing.priceOf({ tool: Tool.ADVANCED_EDIT, editMode });
+    const detectionCost = pricing.priceOf({ tool: 'detection' });
 
     const handleFileSelect = (data: FileData) => {
-        onStateChange({ sourceImage: data, annotatedBase64: null, resultImage: null, error: null, clickPoint: null, refObject: null, isAnnotating: false, detectedPoints: [] });
+        onStateChange({ sourceImage: data, annotatedBase64: null, annotations: [], callouts: [], maskBase64: null, resultImage: null, error: null, clickPoint: null, refObject: null, isAnnotating: false, detectedPoints: [] });
     };
 
     const handleRefObjectSelect = (data: FileData) => {
@@ -24,7 +30,7 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
 
     const handleSetEditMode = (mode: EditMode) => {
         // Fix: Removed 'isPointSelectionModalOpen' as it's a local state and not part of AdvancedEditState
-        onStateChange({ editMode: mode, annotatedBase64: null, clickPoint: null, resultImage: null, error: null, refObject: null, detectedPoints: [] });
+        onStateChange({ editMode: mode, annotatedBase64: null, annotations: [], callouts: [], maskBase64: null, clickPoint: null, resultImage: null, error: null, refObject: null, detectedPoints: [] });
         setIsPointSelectionModalOpen(false); // Manually set local state
     };
 
@@ -36,8 +42,13 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
         onStateChange({ isAnnotating: true, error: null });
     };
 
-    const handleSaveAnnotation = (b64: string) => {
-        onStateChange({ annotatedBase64: b64, isAnnotating: false });
+    const handleSaveAnnotation = (b64: string, savedAnnotations: Annotation[], savedCallouts: AnnotationCallout[]) => {
+        onStateChange({ annotatedBase64: b64, annotations: savedAnnotations, callouts: savedCallouts, isAnnotating: false });
+    };
+
+    // REMOVE marks objects either by points or by a mask; saving one clears the other
+    const handleSaveMask = (b64: string) => {
+        onStateChange({ maskBase64: b64, clickPoint: null, detectedPoints: [], isAnnotating: false, resultImage: null, error: null });
     };
 
     const handleCancelAnnotation = () => {
@@ -51,37 +62,108 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
         onStateChange({ 
             clickPoint: point, 
             detectedPoints: newDetectedPoints, 
+            maskBase64: null,
             resultImage: null, 
             error: null 
         });
         setIsPointSelectionModalOpen(false);
     };
 
-    const handleGenerate = async () => {
+    const canGenerate = (): boolean => {
         if (!sourceImage) {
             onStateChange({ error: "Vui lòng tải ảnh gốc lên." });
-            return;
+            return false;
         }
 
         if (editMode === 'NOTE' && !annotatedBase64) {
             onStateChange({ error: "Vui lòng hoàn tất chú thích trước." });
-            return;
+            return false;
         }
 
         if (editMode === 'SWAP' && (!refObject || !clickPoint)) {
             onStateChange({ error: "Vui lòng tải ảnh mẫu và chọn điểm thay thế." });
-            return;
+            return false;
+        }
+
+        if (editMode === 'MASK' && (!maskBase64 || !additionalPrompt?.trim())) {
+            onStateChange({ error: "Vui lòng tô vùng cần sửa và mô tả thay đổi." });
+            return false;
+        }
+
+        if (editMode === 'REMOVE' && !maskBase64 && !clickPoint) {
+            onStateChange({ error: "Vui lòng chọn điểm hoặc tô vật thể cần xóa." });
+            return false;
+        }
+
+        if (userCredits < editCost) {
+            onStateChange({ error: `Bạn cần ${editCost} Credits để thực hiện.` });
+            return false;
         }
+        return true;
+    };
+
+    const removalPoints = (): ClickPoint[] | undefined =>
+        maskBase64 || !clickPoint ? undefined : [clickPoint, ...detectedPoints];
 
-        if (userCredits < AI_EDIT_COST) {
-            onStateChange({ error: `Bạn cần ${AI_EDIT_COST} Credits để thực hiện.` });
+    const handleEnqueue = async () => {
+        if (!canGenerate() || !sourceImage || !onEnqueueJob) return;
+        onStateChange({ error: null });
+        let reservation: CreditReservation | undefined;
+        try {
+            reservation = await onReserveCredits?.(editCost, `Advanced Edit (${editMode})`);
+        } catch {
             return;
         }
 
+        if (editMode === 'NOTE' && annotatedBase64) {
+            onEnqueueJob('Chỉnh sửa theo chú thích', {
+                tool: Tool.ADVANCED_EDIT,
+                sourceImage,
+                editMode: 'NOTE',
+                secondaryImage: { base64: annotatedBase64, mimeType: 'image/jpeg' }, // AnnotationCanvas exports JPEG
+                additionalPrompt,
+                annotations,
+                callouts,
+            }, reservation);
+        } else if (editMode === 'SWAP' && refObject && clickPoint) {
+            onEnqueueJob('Thay thế vật thể', {
+                tool: Tool.ADVANCED_EDIT,
+                sourceImage,
+                editMode: 'SWAP',
+                secondaryImage: refObject,
+                targetPoints: detectedPoints.length > 0 ? detectedPoints : [clickPoint],
+            }, reservation);
+        } else if (editMode === 'MASK' && maskBase64) {
+            onEnqueueJob('Chỉnh sửa theo vùng tô', {
+                tool: Tool.ADVANCED_EDIT,
+                sourceImage,
+                editMode: 'MASK',
+                secondaryImage: { base64: maskBase64, mimeType: 'image/png' }, // MaskPainter exports a black/white PNG
+                additionalPrompt,
+            }, reservation);
+        } else if (editMode === 'REMOVE' && (maskBase64 || clickPoint)) {
+            onEnqueueJob('Xóa vật thể', {
+                tool: Tool.ADVANCED_EDIT,
+                sourceImage,
+                editMode: 'REMOVE',
+                secondaryImage: maskBase64 ? { base64: maskBase64, mimeType: 'image/png' } : undefined,
+                targetPoints: removalPoints(),
+                additionalPrompt,
+            }, reservation);
+        }
+    };
+
+    const handleGenerate = async () => {
+        if (!canGenerate() || !sourceImage) return;
+
         onStateChange({ isLoading: true, error: null });
+        const controller = new AbortController();
+        abortRef.current = controller;
+        let reservation: CreditReservation | undefined;
 
         try {
-            await onDeductCredits?.(AI_EDIT_COST, `Advanced Edit (${editMode})`);
+            reservation = await onReserveCredits?.(editCost, `Advanced Edit (${editMode})`);
+            const callOptions = { signal: controller.signal, onProgress: setProgress, reservationId: reservation?.id };
 
             let result = '';
             if (editMode === 'NOTE' && annotatedBase64) {
@@ -91,7 +173,9 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
                     'NOTE',
                     { base64: annotatedBase64, mimeType: 'image/jpeg' }, // AnnotationCanvas exports JPEG
                     undefined,
-                    additionalPrompt
+                    additionalPrompt,
+                    callouts,
+                    callOptions
                 );
             } else if (editMode === 'SWAP' && refObject && clickPoint) {
                 // If detectedPoints exist, use them for batch swap. Otherwise, use the single clickPoint.
@@ -102,18 +186,60 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
                     sourceImage.mimeType,
                     'SWAP',
                     { base64: refObject.base64, mimeType: refObject.mimeType },
-                    targetPointsForSwap // Pass the array of target points
+                    targetPointsForSwap, // Pass the array of target points
+                    undefined,
+                    undefined,
+                    callOptions
+                );
+            } else if (editMode === 'MASK' && maskBase64) {
+                // Result comes back composited: outside the mask it is the original image
+                result = await geminiService.generateAdvancedEdit(
+                    sourceImage.base64,
+                    sourceImage.mimeType,
+                    'MASK',
+                    { base64: maskBase64, mimeType: 'image/png' },
+                    undefined,
+                    additionalPrompt,
+                    undefined,
+                    callOptions
+                );
+            } else if (editMode === 'REMOVE' && (maskBase64 || clickPoint)) {
+                // A mask result is composited like MASK; points leave the whole image to the model
+                result = await geminiService.generateAdvancedEdit(
+                    sourceImage.base64,
+                    sourceImage.mimeType,
+                    'REMOVE',
+                    maskBase64 ? { base64: maskBase64, mimeType: 'image/png' } : undefined,
+                    removalPoints(),
+                    additionalPrompt,
+                    undefined,
+                    callOptions
                 );
             }
+            if (!result) throw new Error("No image generated in the response.");
             onStateChange({ resultImage: result });
+            creditService.confirmReservation(reservation);
         } catch (err: any) {
-            onStateChange({ error: "Quá trình chỉnh sửa gặp sự cố. Vui lòng thử lại sau." });
-            console.error("Advanced Edit Error:", err);
+            creditService.releaseReservation(reservation);
+            if (geminiService.isAbortError(err)) {
+                onStateChange({ error: "Đã hủy chỉnh sửa." });
+            } else {
+                onStateChange({ error: "Quá trình chỉnh sửa gặp sự cố. Vui lòng thử lại sau." });
+                console.error("Advanced Edit Error:", err);
+            }
         } finally {
+            abortRef.current = null;
+            setProgress(null);
             onStateChange({ isLoading: false });
         }
     };
 
+    const isMissingInputs = !sourceImage
+        || (editMode === 'NOTE' && !annotatedBase64)
+        || (editMode === 'SWAP' && (!refObject || !clickPoint))
+        || (editMode === 'MASK' && (!maskBase64 || !additionalPrompt?.trim()))
+        || (editMode === 'REMOVE' && !maskBase64 && !clickPoint);
+
     const resetCurrentTab = () => {
         onReset();
     };
@@ -147,7 +273,7 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
                             <label className="block text-sm font-semibold text-luxury-800 uppercase tracking-wider">
                                 2. Chọn Kiểu Chỉnh Sửa
                             </label>
-                            <div className="flex gap-2 p-1 bg-luxury-50 rounded-lg">
+                            <div className="grid grid-cols-2 gap-2 p-1 bg-luxury-50 rounded-lg">
                                 <button 
                                     onClick={() => handleSetEditMode('NOTE')}
                                     className={`flex-1 py-3 rounded-lg text-sm font-bold transition-all ${editMode === 'NOTE' ? 'bg-gradient-to-r from-red-600 to-red-500 text-white shadow-lg' : 'bg-white text-luxury-800 hover:bg-luxury-100'}`}
@@ -160,6 +286,18 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
                                 >
                                     THAY THẾ VẬT THỂ 🪑
                                 </button>
+                                <button 
+                                    onClick={() => handleSetEditMode('MASK')}
+                                    className={`flex-1 py-3 rounded-lg text-sm font-bold transition-all ${editMode === 'MASK' ? 'bg-gradient-to-r from-blue-600 to-cyan-500 text-white shadow-lg' : 'bg-white text-luxury-800 hover:bg-luxury-100'}`}
+                                >
+                                    TÔ VÙNG SỬA 🖌️
+                                </button>
+                                <button 
+                                    onClick={() => handleSetEditMode('REMOVE')}
+                                    className={`flex-1 py-3 rounded-lg text-sm font-bold transition-all ${editMode === 'REMOVE' ? 'bg-gradient-to-r from-emerald-600 to-teal-500 text-white shadow-lg' : 'bg-white text-luxury-800 hover:bg-luxury-100'}`}
+                                >
+                                    XÓA VẬT THỂ 🧹
+                                </button>
                             </div>
                         </div>
                     )}
@@ -184,10 +322,22 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
                                     onClick={handleStartAnnotation}
                                     className={`w-full py-3 rounded-lg font-bold transition-all shadow-md flex items-center justify-center gap-2 ${annotatedBase64 ? 'bg-green-600 text-white' : 'bg-blue-600 text-white'}`}
                                 >
-                                    {annotatedBase64 ? '✅ ĐÃ VẼ GHI CHÚ' : '✍️ ĐANG VẼ...'}
+                                    {annotatedBase64 ? `✅ ĐÃ VẼ ${annotations.length} GHI CHÚ · SỬA LẠI` : '✍️ ĐANG VẼ...'}
                                 </button>
                             )}
 
+                            {/* Chỉ dẫn theo số đã nhập trên canvas; sửa bằng cách mở lại canvas */}
+                            {annotatedBase64 && callouts.length > 0 && (
+                                <ol className="space-y-1 text-sm text-luxury-800">
+                                    {callouts.map(callout => (
+                                        <li key={callout.number} className="flex items-start gap-2">
+                                            <span className="w-5 h-5 shrink-0 rounded-full bg-red-600 text-white text-[11px] font-bold flex items-center justify-center">{callout.number}</span>
+                                            <span className={callout.instruction ? '' : 'text-luxury-400 italic'}>{callout.instruction || 'Chưa có chỉ dẫn riêng'}</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            )}
+
                              {/* Textarea for additional prompts */}
                             <div className="space-y-2 mt-4">
                                 <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Mô tả chi tiết yêu cầu</label>
@@ -201,6 +351,66 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
                         </div>
                     )}
                     
+                    {editMode === 'MASK' && sourceImage && (
+                        <div className="mt-6 animate-in fade-in slide-in-from-top-4 space-y-4">
+                            <label className="block text-xs font-bold text-luxury-900 uppercase tracking-widest">
+                                3. Tô vùng cần sửa & Mô tả
+                            </label>
+                            <button
+                                onClick={handleStartAnnotation}
+                                className={`w-full py-3 rounded-lg font-bold transition-all shadow-md ${maskBase64 ? 'bg-green-600 text-white' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+                            >
+                                {maskBase64 ? '✅ ĐÃ TÔ VÙNG · SỬA LẠI' : 'BẮT ĐẦU TÔ VÙNG'}
+                            </button>
+                            <p className="text-xs text-luxury-500">Chỉ vùng tô được thay đổi; phần còn lại giữ nguyên từng điểm ảnh của ảnh gốc.</p>
+                            <div className="space-y-2">
+                                <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Thay đổi trong vùng tô</label>
+                                <textarea
+                                    value={additionalPrompt || ''}
+                                    onChange={(e) => onStateChange({ additionalPrompt: e.target.value })}
+                                    placeholder="Ví dụ: Đổi khăn trải bàn thành lụa màu champagne..."
+                                    className="w-full p-3 bg-luxury-50 border border-luxury-200 rounded-xl focus:ring-2 focus:ring-accent-400 outline-none text-slate-700 text-sm h-32 resize-none"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {editMode === 'REMOVE' && sourceImage && (
+                        <div className="mt-6 animate-in fade-in slide-in-from-top-4 space-y-4">
+                            <label className="block text-xs font-bold text-luxury-900 uppercase tracking-widest">
+                                3. Đánh Dấu Vật Thể Cần Xóa
+                            </label>
+                            <div className="grid grid-cols-2 gap-2">
+                                <button
+                                    onClick={() => setIsPointSelectionModalOpen(true)}
+                                    className={`py-3 rounded-lg text-sm font-bold transition-colors shadow-md ${clickPoint ? 'bg-green-600 text-white' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+                                    disabled={isLoading}
+                                >
+                                    {clickPoint ? `✅ ${1 + detectedPoints.length} ĐIỂM · SỬA` : '📍 CHỌN ĐIỂM'}
+                                </button>
+                                <button
+                                    onClick={handleStartAnnotation}
+                                    className={`py-3 rounded-lg text-sm font-bold transition-colors shadow-md ${maskBase64 ? 'bg-green-600 text-white' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+                                    disabled={isLoading}
+                                >
+                                    {maskBase64 ? '✅ ĐÃ TÔ · SỬA' : '🖌️ TÔ VẬT THỂ'}
+                                </button>
+                            </div>
+                            <p className="text-xs text-luxury-500">
+                                Chọn điểm (có thể tìm thêm vật thể tương tự) hoặc tô phủ vật thể. Khi tô, phần ngoài vùng tô giữ nguyên ảnh gốc.
+                            </p>
+                            <div className="space-y-2">
+                                <label className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Vật thể cần xóa (không bắt buộc)</label>
+                                <input
+                                    value={additionalPrompt || ''}
+                                    onChange={(e) => onStateChange({ additionalPrompt: e.target.value })}
+                                    placeholder="Ví dụ: cột trụ, chân loa"
+                                    className="w-full p-3 bg-luxury-50 border border-luxury-200 rounded-xl focus:ring-2 focus:ring-accent-400 outline-none text-slate-700 text-sm"
+                                />
+                            </div>
+                        </div>
+                    )}
+
                     {editMode === 'SWAP' && sourceImage && (
                         <div className="mt-6 animate-in fade-in slide-in-from-top-4 space-y-4">
                             <label className="block text-sm font-semibold text-luxury-800 uppercase tracking-wider">
@@ -233,22 +443,34 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
                     )}
 
                     <div className="flex justify-between items-center p-3 bg-luxury-50 rounded-lg border border-luxury-100 mt-6">
-                        <span className="text-sm text-luxury-800">Phí chỉnh sửa: <b className="text-accent-600">{AI_EDIT_COST} Credits</b></span>
+                        <span className="text-sm text-luxury-800">
+                            Phí chỉnh sửa: <b className="text-accent-600">{editCost} Credits</b>
+                            {(editMode === 'SWAP' || editMode === 'REMOVE') && <small className="block text-xs text-luxury-500">+ {detectionCost} Credits nếu dùng "Tìm Vật Thể Tương Tự" (tổng {editCost + detectionCost})</small>}
+                        </span>
                         <span className="text-sm text-luxury-500">Số dư: {userCredits}</span>
                     </div>
 
                     <button 
                         onClick={handleGenerate}
-                        disabled={isLoading || !sourceImage || (editMode === 'NOTE' && !annotatedBase64) || (editMode === 'SWAP' && (!refObject || !clickPoint))}
+                        disabled={isLoading || isMissingInputs}
                         className={`w-full py-4 px-6 rounded-lg font-bold text-white tracking-widest shadow-lg transition-all transform hover:-translate-y-0.5
-                            ${isLoading || !sourceImage || (editMode === 'NOTE' && !annotatedBase64) || (editMode === 'SWAP' && (!refObject || !clickPoint))
+                            ${isLoading || isMissingInputs
                                 ? 'bg-luxury-300 cursor-not-allowed' 
                                 : 'bg-gradient-to-r from-accent-600 to-accent-500 hover:from-accent-500 hover:to-accent-400 shadow-accent-200/50'
                             }
                         `}
                     >
-                        {isLoading ? <Spinner /> : "BẮT ĐẦU CHỈNH SỬA ✨"}
+                        {isLoading ? <Spinner /> : `BẮT ĐẦU CHỈNH SỬA ✨ (${editCost} Credits)`}
                     </button>
+                    {onEnqueueJob && (
+                        <button
+                            onClick={handleEnqueue}
+                            disabled={isMissingInputs}
+                            className="w-full py-2 px-6 mt-2 rounded-lg text-sm font-bold tracking-wide border border-accent-500 text-accent-600 hover:bg-luxury-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Thêm vào hàng đợi ({editCost} Credits)
+                        </button>
+                    )}
                     {error && <p className="text-red-500 text-xs text-center mt-2">{error}</p>}
                     
                     {resultImage && (
@@ -287,7 +509,17 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
                                     <img src={annotatedBase64 ? `data:image/jpeg;base64,${annotatedBase64}` : sourceImage.objectURL} alt="Nguồn để chú thích" className="max-w-full max-h-[600px] object-contain" />
                                 </div>
                             )}
-                            {editMode === 'SWAP' && (
+                            {(editMode === 'MASK' || (editMode === 'REMOVE' && maskBase64)) && (
+                                <div className="w-full h-full flex items-center justify-center bg-black rounded-xl overflow-hidden">
+                                    <div className="relative">
+                                        <img src={sourceImage.objectURL} alt="Nguồn để tô vùng" className="max-w-full max-h-[600px] object-contain block" />
+                                        {maskBase64 && (
+                                            <img src={`data:image/png;base64,${maskBase64}`} alt="Vùng tô" className="absolute inset-0 w-full h-full opacity-40 mix-blend-screen pointer-events-none" />
+                                        )}
+                                    </div>
+                                </div>
+                            )}
+                            {(editMode === 'SWAP' || (editMode === 'REMOVE' && !maskBase64)) && (
                                 <div className="relative w-full h-full flex items-center justify-center bg-black rounded-xl overflow-hidden">
                                     <img 
                                         src={sourceImage.objectURL} 
@@ -323,14 +555,30 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
                                 <div className="absolute top-0 left-0 w-full h-full border-4 border-accent-500 rounded-full animate-spin border-t-transparent"></div>
                             </div>
                             <h3 className="mt-8 text-xl font-serif font-bold text-luxury-800">AI Đang chỉnh sửa ảnh...</h3>
-                            <p className="text-luxury-600 mt-2">Đang áp dụng các thay đổi được đánh dấu.</p>
+                            <div className="mt-2">
+                                <GenerationStatus
+                                    progress={progress}
+                                    onCancel={() => abortRef.current?.abort()}
+                                    fallbackMessage="Đang áp dụng các thay đổi được đánh dấu."
+                                />
+                            </div>
                         </div>
                     )}
                 </div>
             </div>
-            {isAnnotating && sourceImage && (
+            {isAnnotating && sourceImage && (editMode === 'MASK' || editMode === 'REMOVE') && (
+                <MaskPainter
+                    image={sourceImage.objectURL || ''}
+                    initialMask={maskBase64}
+                    title={editMode === 'REMOVE' ? 'Tô phủ vật thể cần xóa' : 'Tô vùng cần sửa'}
+                    onSave={handleSaveMask}
+                    onCancel={handleCancelAnnotation}
+                />
+            )}
+            {isAnnotating && sourceImage && editMode === 'NOTE' && (
                 <AnnotationCanvas 
                     image={sourceImage.objectURL || ''} 
+                    initialAnnotations={annotations}
                     onSave={handleSaveAnnotation} 
                     onCancel={handleCancelAnnotation} 
                     originalImageWidth={sourceImage.width || 1} // Pass native image dimensions
@@ -345,7 +593,8 @@ const AdvancedEdit: React.FC<AdvancedEditProps> = ({ state, onStateChange, userC
                     base64Image={sourceImage.base64}
                     mimeType={sourceImage.mimeType}
                     onSavePointAndDetections={handleSavePointSelection}
-                    onDeductCredits={onDeductCredits}
+                    title={editMode === 'REMOVE' ? 'Chọn Vật Thể Cần Xóa' : undefined}
+                    onReserveCredits={onReserveCredits}
                     userCredits={userCredits}
                     originalImageWidth={sourceImage.width || 1} // Pass native image dimensions
                     originalImageHeight={sourceImage.height || 1} // Pass native image dimensions
@@ -1,64 +1,145 @@
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useCallback } from 'react';
+import { Annotation, AnnotationCallout, AnnotationTool } from '../types';
+import {
+  drawAnnotation, annotationBounds, hitTestAnnotations, translateAnnotation, normalizeShape, restyleAnnotation,
+  drawCalloutBadge, calloutBadgeRadius, buildCallouts,
+} from '../services/annotationDrawing';
 
 interface Props {
   image: string;
-  onSave: (base64: string) => void;
+  initialAnnotations?: Annotation[]; // Reopen saved annotations to adjust them
+  onSave: (base64: string, annotations: Annotation[], callouts: AnnotationCallout[]) => void;
   onCancel: () => void;
   originalImageWidth: number;
   originalImageHeight: number;
 }
 
-type Tool = 'brush' | 'arrow' | 'text';
-
 interface TextInputState {
   x: number;
   y: number;
   value: string;
 }
 
-export const AnnotationCanvas: React.FC<Props> = ({ 
-  image, 
-  onSave, 
-  onCancel, 
-  originalImageWidth, 
-  originalImageHeight 
+interface AnnotationHistory {
+  past: Annotation[][];
+  present: Annotation[];
+  future: Annotation[][];
+}
+
+type DragState =
+  | { kind: 'move'; index: number; last: { x: number; y: number } }
+  | { kind: 'erase' };
+
+const MAX_HISTORY = 100;
+const COLOR_SWATCHES = ['#FF0000', '#FACC15', '#22C55E', '#3B82F6', '#FFFFFF', '#000000'];
+// Widths and text sizes scale with the image, so marks look the same in the exported JPEG at any zoom
+const STROKE_WIDTH_PER_LEVEL = 0.0012; // × image width
+const TEXT_SIZE_PER_LEVEL = 0.006; // × image width; level 5 ≈ 3% like the original fixed size
+const HIGHLIGHTER_WIDTH_FACTOR = 4;
+const HIGHLIGHTER_OPACITY = 0.35;
+
+const TOOL_LABELS: Record<AnnotationTool, string> = {
+  select: '🖐️ Chọn',
+  brush: '✏️ Nét vẽ',
+  highlighter: '🖍️ Tô vùng',
+  arrow: '↗️ Mũi tên',
+  rectangle: '▭ Khung',
+  ellipse: '◯ Elip',
+  text: '💬 Chữ',
+  eraser: '🧽 Tẩy',
+};
+
+const TOOLS = Object.keys(TOOL_LABELS) as AnnotationTool[];
+
+const describeAnnotation = (annotation: Annotation): string => {
+  if (annotation.type === 'text') return `${TOOL_LABELS.text} "${annotation.content}"`;
+  return TOOL_LABELS[annotation.type];
+};
+
+export const AnnotationCanvas: React.FC<Props> = ({
+  image,
+  initialAnnotations = [],
+  onSave,
+  onCancel,
+  originalImageWidth,
+  originalImageHeight
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const tempCanvasRef = useRef<HTMLCanvasElement>(null);
+  const imageRef = useRef<HTMLImageElement | null>(null);
   const textInputRef = useRef<HTMLInputElement>(null); // Ref để focus chính xác
-  
-  const [currentTool, setCurrentTool] = useState<Tool>('brush');
-  const [isDrawing, setIsDrawing] = useState(false);
-  const [startPos, setStartPos] = useState({ x: 0, y: 0 });
+  const liveEditBeforeRef = useRef<Annotation[] | null>(null); // List before a drag/slider edit, one undo step per gesture
+
+  const [currentTool, setCurrentTool] = useState<AnnotationTool>('brush');
+  const [color, setColor] = useState(COLOR_SWATCHES[0]);
+  const [strokeLevel, setStrokeLevel] = useState(4);
+  const [textLevel, setTextLevel] = useState(5);
+  const [history, setHistory] = useState<AnnotationHistory>({ past: [], present: initialAnnotations, future: [] });
+  const [draft, setDraft] = useState<Annotation | null>(null); // Nét đang vẽ, chưa vào lịch sử
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [isImageLoaded, setIsImageLoaded] = useState(false);
   const [scale, setScale] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState({ x: 0, y: 0 });
   const [textInput, setTextInput] = useState<TextInputState | null>(null);
 
+  const annotations = history.present;
+  const selected = selectedIndex !== null ? annotations[selectedIndex] : undefined;
+
   useEffect(() => {
     const canvas = canvasRef.current;
-    const tempCanvas = tempCanvasRef.current;
-    if (!canvas || !tempCanvas) return;
+    if (!canvas) return;
 
     const img = new Image();
     img.crossOrigin = "anonymous";
     img.src = image;
     img.onload = () => {
-      [canvas, tempCanvas].forEach(c => {
-        c.width = img.width;
-        c.height = img.height;
-      });
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(img, 0, 0);
-        const padding = 40;
-        const initialScale = Math.min((window.innerWidth - padding) / img.width, (window.innerHeight - 150) / img.height, 1);
-        setScale(initialScale);
-      }
+      canvas.width = img.width;
+      canvas.height = img.height;
+      imageRef.current = img;
+      const padding = 40;
+      const initialScale = Math.min((window.innerWidth - padding) / img.width, (window.innerHeight - 150) / img.height, 1);
+      setScale(initialScale);
+      setIsImageLoaded(true);
     };
   }, [image]);
 
+  // Numbered badges sit on top of every mark, so they are drawn after all annotations
+  const drawBadges = (ctx: CanvasRenderingContext2D, list: Annotation[]) => {
+    const radius = calloutBadgeRadius(ctx.canvas.width);
+    list.forEach((annotation, index) => drawCalloutBadge(ctx, annotation, index + 1, radius));
+  };
+
+  /**
+   * Vẽ lại toàn bộ từ ảnh gốc + danh sách chú thích; khung chọn không được xuất ra ảnh gửi AI
+   */
+  const redraw = useCallback((withSelection: boolean) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !imageRef.current) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(imageRef.current, 0, 0);
+    annotations.forEach(annotation => drawAnnotation(ctx, annotation));
+    if (draft) drawAnnotation(ctx, draft);
+    drawBadges(ctx, annotations);
+
+    if (withSelection && selected) {
+      const box = annotationBounds(ctx, selected);
+      const pad = 6 / scale;
+      ctx.save();
+      ctx.strokeStyle = '#3B82F6';
+      ctx.lineWidth = 2 / scale;
+      ctx.setLineDash([8 / scale, 6 / scale]);
+      ctx.strokeRect(box.x - pad, box.y - pad, box.width + pad * 2, box.height + pad * 2);
+      ctx.restore();
+    }
+  }, [annotations, draft, selected, scale]);
+
+  useEffect(() => {
+    if (isImageLoaded) redraw(true);
+  }, [isImageLoaded, redraw]);
+
   // Tự động focus khi mở ô nhập chữ
   useEffect(() => {
     if (textInput && textInputRef.current) {
@@ -66,6 +147,111 @@ export const AnnotationCanvas: React.FC<Props> = ({
     }
   }, [textInput]);
 
+  // --- HISTORY ---
+
+  // Continuous edits (dragging, erasing, sliders) change the list directly and become one undo step when they end
+  const updateLive = (update: (list: Annotation[]) => Annotation[]) => {
+    if (!liveEditBeforeRef.current) liveEditBeforeRef.current = annotations;
+    setHistory(h => ({ ...h, present: update(h.present) }));
+  };
+
+  const finishLiveEdit = () => {
+    const before = liveEditBeforeRef.current;
+    liveEditBeforeRef.current = null;
+    if (before) setHistory(h => ({ past: [...h.past, before].slice(-MAX_HISTORY), present: h.present, future: [] }));
+  };
+
+  const commit = (next: Annotation[]) => {
+    finishLiveEdit();
+    setHistory(h => ({ past: [...h.past, h.present].slice(-MAX_HISTORY), present: next, future: [] }));
+  };
+
+  const undo = () => {
+    setSelectedIndex(null);
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+    });
+  };
+
+  const redo = () => {
+    setSelectedIndex(null);
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+    });
+  };
+
+  const deleteSelected = () => {
+    if (selectedIndex === null) return;
+    commit(annotations.filter((_, i) => i !== selectedIndex));
+    setSelectedIndex(null);
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Ctrl+Y) và phím Delete; bỏ qua khi đang gõ chữ hoặc chỉ dẫn
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (textInput) return;
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const isMod = e.ctrlKey || e.metaKey;
+      if (isMod && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if (isMod && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedIndex !== null) {
+        e.preventDefault();
+        deleteSelected();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // --- STYLE ---
+
+  const imageWidth = () => canvasRef.current?.width || 0;
+  const strokeWidth = (tool: AnnotationTool | Annotation['type'], level: number = strokeLevel) =>
+    Math.max(1, level * STROKE_WIDTH_PER_LEVEL * imageWidth()) * (tool === 'highlighter' ? HIGHLIGHTER_WIDTH_FACTOR : 1);
+  const textFontSize = (level: number = textLevel) => Math.max(12, Math.floor(imageWidth() * level * TEXT_SIZE_PER_LEVEL));
+
+  /**
+   * Chỉnh màu/độ dày khi đang chọn một chú thích: áp dụng luôn cho chú thích đó
+   */
+  const restyleSelected = (style: { color?: string; strokeLevel?: number; textLevel?: number }, live: boolean) => {
+    if (selectedIndex === null || !selected) return;
+    const next = restyleAnnotation(selected, {
+      color: style.color,
+      lineWidth: style.strokeLevel !== undefined ? strokeWidth(selected.type, style.strokeLevel) : undefined,
+      fontSize: style.textLevel !== undefined ? textFontSize(style.textLevel) : undefined,
+    });
+    const apply = (list: Annotation[]) => list.map((a, i) => i === selectedIndex ? next : a);
+    if (live) updateLive(apply); else commit(apply(annotations));
+  };
+
+  const handleColorChange = (value: string, live: boolean) => {
+    setColor(value);
+    restyleSelected({ color: value }, live);
+  };
+
+  // --- CALLOUTS ---
+
+  const handleInstructionChange = (index: number, instruction: string) => {
+    updateLive(list => list.map((a, i) => i === index ? { ...a, instruction } : a));
+  };
+
+  const selectFromList = (index: number) => {
+    setCurrentTool('select');
+    setTextInput(null);
+    setSelectedIndex(index);
+    setColor(annotations[index].color);
+  };
+
+  // --- POINTER ---
+
   const getMousePos = (e: React.MouseEvent) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
@@ -76,38 +262,31 @@ export const AnnotationCanvas: React.FC<Props> = ({
     };
   };
 
-  const drawArrowHead = (ctx: CanvasRenderingContext2D, fromX: number, fromY: number, toX: number, toY: number) => {
-    const headlen = 30 / scale;
-    const angle = Math.atan2(toY - fromY, toX - fromX);
-    ctx.beginPath();
-    ctx.moveTo(toX, toY);
-    ctx.lineTo(toX - headlen * Math.cos(angle - Math.PI / 6), toY - headlen * Math.sin(angle - Math.PI / 6));
-    ctx.moveTo(toX, toY);
-    ctx.lineTo(toX - headlen * Math.cos(angle + Math.PI / 6), toY - headlen * Math.sin(angle + Math.PI / 6));
-    ctx.stroke();
-  };
+  const toTextAnnotation = (input: TextInputState): Annotation => ({
+    type: 'text',
+    x: input.x,
+    y: input.y,
+    content: input.value,
+    color,
+    fontSize: textFontSize(),
+    fontFamily: 'Arial',
+  });
 
   const handleTextSubmit = () => {
     if (!textInput || !textInput.value.trim()) {
       setTextInput(null);
       return;
     }
-    const ctx = canvasRef.current?.getContext('2d');
-    if (ctx) {
-      // FIX: Cỡ chữ tỉ lệ thuận với độ phân giải ảnh (khoảng 3% chiều rộng)
-      const dynamicFontSize = Math.max(30, Math.floor(canvasRef.current!.width * 0.03));
-      ctx.font = `bold ${dynamicFontSize}px Arial`;
-      ctx.fillStyle = "#FF0000";
-      ctx.strokeStyle = "white";
-      ctx.lineWidth = Math.max(2, dynamicFontSize / 10);
-      ctx.textBaseline = 'top'; 
-
-      ctx.strokeText(textInput.value, textInput.x, textInput.y);
-      ctx.fillText(textInput.value, textInput.x, textInput.y);
-    }
+    commit([...annotations, toTextAnnotation(textInput)]);
     setTextInput(null);
   };
 
+  const eraseAt = (pos: { x: number; y: number }) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    const index = ctx ? hitTestAnnotations(ctx, annotations, pos.x, pos.y) : -1;
+    if (index >= 0) updateLive(list => list.filter((_, i) => i !== index));
+  };
+
   const startDrawing = (e: React.MouseEvent) => {
     if (e.button === 1 || (e.button === 0 && e.shiftKey)) {
       setIsPanning(true);
@@ -115,8 +294,26 @@ export const AnnotationCanvas: React.FC<Props> = ({
       return;
     }
 
+    const pos = getMousePos(e);
+
+    if (currentTool === 'select') {
+      const ctx = canvasRef.current?.getContext('2d');
+      const index = ctx ? hitTestAnnotations(ctx, annotations, pos.x, pos.y) : -1;
+      setSelectedIndex(index >= 0 ? index : null);
+      if (index >= 0) {
+        setColor(annotations[index].color);
+        setDrag({ kind: 'move', index, last: pos });
+      }
+      return;
+    }
+
+    if (currentTool === 'eraser') {
+      setDrag({ kind: 'erase' });
+      eraseAt(pos);
+      return;
+    }
+
     if (currentTool === 'text') {
-      const pos = getMousePos(e);
       // FIX: Sử dụng setTimeout để tránh xung đột với onBlur của input cũ khi click ra ngoài để tạo text mới
       setTimeout(() => {
         setTextInput({ x: pos.x, y: pos.y, value: '' });
@@ -129,8 +326,22 @@ export const AnnotationCanvas: React.FC<Props> = ({
       return;
     }
 
-    setIsDrawing(true);
-    setStartPos(getMousePos(e));
+    const lineWidth = strokeWidth(currentTool);
+    switch (currentTool) {
+      case 'brush':
+        setDraft({ type: 'brush', points: [pos], color, lineWidth });
+        break;
+      case 'highlighter':
+        setDraft({ type: 'highlighter', points: [pos], color, lineWidth, opacity: HIGHLIGHTER_OPACITY });
+        break;
+      case 'arrow':
+        setDraft({ type: 'arrow', startX: pos.x, startY: pos.y, endX: pos.x, endY: pos.y, color, lineWidth });
+        break;
+      case 'rectangle':
+      case 'ellipse':
+        setDraft({ type: currentTool, x: pos.x, y: pos.y, width: 0, height: 0, color, lineWidth });
+        break;
+    }
   };
 
   const drawing = (e: React.MouseEvent) => {
@@ -139,58 +350,60 @@ export const AnnotationCanvas: React.FC<Props> = ({
         return;
     }
 
-    if (!isDrawing) return;
     const pos = getMousePos(e);
-    const canvas = canvasRef.current;
-    const tempCanvas = tempCanvasRef.current;
-    const ctx = currentTool === 'brush' ? canvas?.getContext('2d') : tempCanvas?.getContext('2d');
-    
-    if (!ctx || !tempCanvas) return;
-
-    if (currentTool === 'brush') {
-      ctx.strokeStyle = "#FF0000";
-      ctx.lineWidth = 5 / scale;
-      ctx.lineCap = 'round';
-      ctx.lineTo(pos.x, pos.y);
-      ctx.stroke();
-      ctx.beginPath();
-      ctx.moveTo(pos.x, pos.y);
-    } else if (currentTool === 'arrow') {
-      // Xóa preview cũ trên tempCanvas
-      ctx.clearRect(0, 0, tempCanvas.width, tempCanvas.height);
-      ctx.strokeStyle = "#FF0000";
-      ctx.lineWidth = 6 / scale;
-      ctx.beginPath();
-      ctx.moveTo(startPos.x, startPos.y);
-      ctx.lineTo(pos.x, pos.y);
-      ctx.stroke();
-      drawArrowHead(ctx, startPos.x, startPos.y, pos.x, pos.y);
+
+    if (drag?.kind === 'move') {
+      const dx = pos.x - drag.last.x;
+      const dy = pos.y - drag.last.y;
+      updateLive(list => list.map((a, i) => i === drag.index ? translateAnnotation(a, dx, dy) : a));
+      setDrag({ ...drag, last: pos });
+      return;
+    }
+    if (drag?.kind === 'erase') {
+      eraseAt(pos);
+      return;
+    }
+
+    if (!draft) return;
+    switch (draft.type) {
+      case 'brush':
+      case 'highlighter':
+        setDraft({ ...draft, points: [...draft.points, pos] });
+        break;
+      case 'arrow':
+        setDraft({ ...draft, endX: pos.x, endY: pos.y });
+        break;
+      case 'rectangle':
+      case 'ellipse':
+        setDraft({ ...draft, width: pos.x - draft.x, height: pos.y - draft.y });
+        break;
     }
   };
 
-  const stopDrawing = (e: React.MouseEvent) => {
+  const stopDrawing = () => {
     if (isPanning) {
         setIsPanning(false);
         return;
     }
 
-    if (currentTool === 'arrow' && isDrawing) {
-      const pos = getMousePos(e);
-      const ctx = canvasRef.current?.getContext('2d');
-      if (ctx) {
-        ctx.strokeStyle = "#FF0000";
-        ctx.lineWidth = 6 / scale;
-        ctx.beginPath();
-        ctx.moveTo(startPos.x, startPos.y);
-        ctx.lineTo(pos.x, pos.y);
-        ctx.stroke();
-        drawArrowHead(ctx, startPos.x, startPos.y, pos.x, pos.y);
+    if (drag) {
+      finishLiveEdit();
+      setDrag(null);
+      return;
+    }
+
+    if (draft) {
+      // Bỏ mũi tên / khung không kéo (chỉ là một cú nhấp)
+      if (draft.type === 'arrow') {
+        if (Math.hypot(draft.endX - draft.startX, draft.endY - draft.startY) >= 2) commit([...annotations, draft]);
+      } else if (draft.type === 'rectangle' || draft.type === 'ellipse') {
+        const shape = normalizeShape(draft);
+        if (shape.width >= 2 && shape.height >= 2) commit([...annotations, shape]);
+      } else {
+        commit([...annotations, draft]);
       }
-      // Xóa tempCanvas sau khi đã vẽ chính thức
-      tempCanvasRef.current?.getContext('2d')?.clearRect(0, 0, tempCanvasRef.current.width, tempCanvasRef.current.height);
+      setDraft(null);
     }
-    setIsDrawing(false);
-    canvasRef.current?.getContext('2d')?.beginPath();
   };
 
   const handleWheel = (e: React.WheelEvent) => {
@@ -199,35 +412,111 @@ export const AnnotationCanvas: React.FC<Props> = ({
     setScale(prev => Math.min(Math.max(prev + direction * 0.1, 0.1), 5));
   };
 
+  const handleSave = () => {
+    // Chữ đang gõ dở được lưu cùng
+    const finalAnnotations = textInput?.value.trim() ? [...annotations, toTextAnnotation(textInput)] : annotations;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !imageRef.current) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(imageRef.current, 0, 0);
+    finalAnnotations.forEach(annotation => drawAnnotation(ctx, annotation));
+    drawBadges(ctx, finalAnnotations);
+    const callouts = buildCallouts(finalAnnotations, canvas.width, canvas.height);
+    onSave(canvas.toDataURL('image/jpeg', 0.9).split(',')[1] || '', finalAnnotations, callouts);
+  };
+
+  const toolbarButton = 'px-3 py-2 rounded-xl font-bold transition-all text-zinc-400 hover:bg-white/5 disabled:opacity-30 disabled:hover:bg-transparent';
+  const showTextSize = currentTool === 'text' || selected?.type === 'text';
+  const showStrokeWidth = currentTool !== 'text' && currentTool !== 'eraser' && selected?.type !== 'text';
+
   return (
     <div className="fixed inset-0 z-[100] bg-zinc-950 flex flex-col items-center justify-center overflow-hidden">
       {/* TOOLBAR */}
-      <div className="absolute top-6 flex gap-4 bg-zinc-900/90 backdrop-blur-md p-2 rounded-2xl border border-white/10 shadow-2xl z-50">
-        {(['brush', 'arrow', 'text'] as Tool[]).map(tool => (
-          <button 
-            key={tool}
-            onClick={() => { setCurrentTool(tool); setTextInput(null); }}
-            className={`px-4 py-2 rounded-xl font-bold transition-all ${currentTool === tool ? 'bg-red-600 text-white shadow-lg shadow-red-900/20' : 'text-zinc-400 hover:bg-white/5'}`}
+      <div className="absolute top-6 flex flex-col items-center gap-2 z-50">
+        <div className="flex flex-wrap justify-center gap-1 bg-zinc-900/90 backdrop-blur-md p-2 rounded-2xl border border-white/10 shadow-2xl">
+          {TOOLS.map(tool => (
+            <button
+              key={tool}
+              onClick={() => { setCurrentTool(tool); setTextInput(null); if (tool !== 'select') setSelectedIndex(null); }}
+              className={`px-3 py-2 rounded-xl font-bold transition-all ${currentTool === tool ? 'bg-red-600 text-white shadow-lg shadow-red-900/20' : 'text-zinc-400 hover:bg-white/5'}`}
+            >
+              {TOOL_LABELS[tool]}
+            </button>
+          ))}
+          <div className="w-[1px] bg-white/10 mx-2" />
+          <button onClick={undo} disabled={history.past.length === 0} title="Hoàn tác (Ctrl+Z)" className={toolbarButton}>↶</button>
+          <button onClick={redo} disabled={history.future.length === 0} title="Làm lại (Ctrl+Shift+Z)" className={toolbarButton}>↷</button>
+          <button onClick={deleteSelected} disabled={selectedIndex === null} title="Xóa chú thích đang chọn (Delete)" className={toolbarButton}>🗑️</button>
+          <div className="w-[1px] bg-white/10 mx-2" />
+          <button onClick={onCancel} className="px-4 py-2 text-white/50 hover:text-white">Hủy</button>
+          <button
+            onClick={handleSave}
+            className="px-6 py-2 bg-white text-black rounded-xl font-bold hover:bg-zinc-200"
           >
-            {tool === 'brush' ? '✏️ Nét vẽ' : tool === 'arrow' ? '↗️ Mũi tên' : '💬 Chữ'}
+            Lưu & Gửi AI
           </button>
-        ))}
-        <div className="w-[1px] bg-white/10 mx-2" />
-        <button onClick={onCancel} className="px-4 py-2 text-white/50 hover:text-white">Hủy</button>
-        <button 
-          onClick={() => { if (textInput) handleTextSubmit(); onSave(canvasRef.current?.toDataURL('image/jpeg', 0.9).split(',')[1] || '') }}
-          className="px-6 py-2 bg-white text-black rounded-xl font-bold hover:bg-zinc-200"
-        >
-          Lưu & Gửi AI
-        </button>
+        </div>
+
+        {/* STYLE: áp dụng cho nét mới, hoặc cho chú thích đang chọn */}
+        <div className="flex items-center gap-3 bg-zinc-900/90 backdrop-blur-md px-3 py-2 rounded-2xl border border-white/10 shadow-2xl text-xs text-zinc-400">
+          <div className="flex items-center gap-1">
+            {COLOR_SWATCHES.map(swatch => (
+              <button
+                key={swatch}
+                onClick={() => handleColorChange(swatch, false)}
+                title={swatch}
+                className={`w-6 h-6 rounded-full border-2 transition-transform ${color.toLowerCase() === swatch.toLowerCase() ? 'border-white scale-110' : 'border-white/20'}`}
+                style={{ backgroundColor: swatch }}
+              />
+            ))}
+            <input
+              type="color"
+              value={color}
+              onChange={(e) => handleColorChange(e.target.value, true)}
+              onBlur={finishLiveEdit}
+              title="Chọn màu khác"
+              className="w-7 h-7 bg-transparent border-0 cursor-pointer"
+            />
+          </div>
+          {showStrokeWidth && (
+            <label className="flex items-center gap-2">
+              Độ dày
+              <input
+                type="range"
+                min={1}
+                max={20}
+                value={strokeLevel}
+                onChange={(e) => { setStrokeLevel(Number(e.target.value)); restyleSelected({ strokeLevel: Number(e.target.value) }, true); }}
+                onPointerUp={finishLiveEdit}
+                onKeyUp={finishLiveEdit}
+                className="w-24 accent-red-600"
+              />
+            </label>
+          )}
+          {showTextSize && (
+            <label className="flex items-center gap-2">
+              Cỡ chữ
+              <input
+                type="range"
+                min={1}
+                max={15}
+                value={textLevel}
+                onChange={(e) => { setTextLevel(Number(e.target.value)); restyleSelected({ textLevel: Number(e.target.value) }, true); }}
+                onPointerUp={finishLiveEdit}
+                onKeyUp={finishLiveEdit}
+                className="w-24 accent-red-600"
+              />
+            </label>
+          )}
+        </div>
       </div>
 
       {/* EDITOR AREA */}
-      <div className="w-full h-full flex items-center justify-center cursor-crosshair" onWheel={handleWheel}>
+      <div className={`w-full h-full flex items-center justify-center ${currentTool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`} onWheel={handleWheel}>
         <div style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${scale})`, transition: isPanning ? 'none' : 'transform 0.1s' }} className="relative">
-          <canvas ref={canvasRef} onMouseDown={startDrawing} onMouseMove={drawing} onMouseUp={stopDrawing} className="shadow-2xl bg-black block" />
-          <canvas ref={tempCanvasRef} className="absolute inset-0 pointer-events-none" />
-          
+          <canvas ref={canvasRef} onMouseDown={startDrawing} onMouseMove={drawing} onMouseUp={stopDrawing} onMouseLeave={stopDrawing} className="shadow-2xl bg-black block" />
+
           {textInput && (
             <input
               ref={textInputRef}
@@ -240,8 +529,8 @@ export const AnnotationCanvas: React.FC<Props> = ({
                 position: 'absolute',
                 left: textInput.x,
                 top: textInput.y,
-                font: `bold ${Math.max(30, Math.floor((canvasRef.current?.width || 0) * 0.03))}px Arial`,
-                color: '#FF0000',
+                font: `bold ${textFontSize()}px Arial`,
+                color,
                 textShadow: '0 0 4px white, 0 0 4px white',
                 background: 'transparent',
                 border: '1px dashed rgba(255,255,255,0.5)',
@@ -254,6 +543,37 @@ export const AnnotationCanvas: React.FC<Props> = ({
           )}
         </div>
       </div>
+
+      {/* CALLOUTS: mỗi số trên ảnh một chỉ dẫn riêng */}
+      {annotations.length > 0 && (
+        <div className="absolute right-6 top-1/2 -translate-y-1/2 w-72 max-h-[60vh] overflow-y-auto z-50 bg-zinc-900/90 backdrop-blur-md p-3 rounded-2xl border border-white/10 shadow-2xl space-y-2">
+          <h4 className="text-xs font-bold text-zinc-400 uppercase">Chỉ dẫn theo số</h4>
+          {annotations.map((annotation, index) => (
+            <div
+              key={index}
+              onClick={() => selectFromList(index)}
+              className={`p-2 rounded-xl border cursor-pointer space-y-1 ${selectedIndex === index ? 'border-blue-500 bg-blue-500/10' : 'border-white/10 hover:bg-white/5'}`}
+            >
+              <div className="flex items-center gap-2 text-xs text-zinc-400">
+                <span
+                  className="w-5 h-5 rounded-full flex items-center justify-center text-[11px] font-bold text-white border border-white/60"
+                  style={{ backgroundColor: annotation.color }}
+                >
+                  {index + 1}
+                </span>
+                <span className="truncate">{describeAnnotation(annotation)}</span>
+              </div>
+              <input
+                value={annotation.instruction ?? ''}
+                onChange={(e) => handleInstructionChange(index, e.target.value)}
+                onBlur={finishLiveEdit}
+                placeholder="VD: đổi hoa sang màu hồng"
+                className="w-full px-2 py-1 text-sm bg-zinc-800 text-white rounded-lg border border-white/10 focus:border-blue-500 outline-none"
+              />
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from 'react';
+import { ApiToken } from '../types';
+import { Spinner } from './Spinner';
+import * as apiTokenService from '../services/apiTokenService';
+import { getActiveWorkspace } from '../services/workspaceService';
+
+interface ApiTokensPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Quản lý API token cho REST API (CRM, hệ thống khác gửi render không cần mở giao diện)
+ */
+export const ApiTokensPanel: React.FC<ApiTokensPanelProps> = ({ isOpen, onClose }) => {
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [name, setName] = useState('');
+  const [newSecret, setNewSecret] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      setTokens(await apiTokenService.listApiTokens());
+    } catch (e) {
+      console.error("Failed to load API tokens", e);
+      setError("Không tải được danh sách token.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    setNewSecret(null);
+    refresh();
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const workspace = getActiveWorkspace();
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    setError(null);
+    try {
+      const { secret } = await apiTokenService.createApiToken(name);
+      setNewSecret(secret);
+      setName('');
+      await refresh();
+    } catch (e) {
+      console.error("Failed to create API token", e);
+      setError("Không tạo được token.");
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!confirm(`Thu hồi token "${token.name}"? Các hệ thống đang dùng token này sẽ không gọi được API nữa.`)) return;
+    try {
+      await apiTokenService.revokeApiToken(token.id);
+      await refresh();
+    } catch (e) {
+      console.error("Failed to revoke API token", e);
+      setError("Không thu hồi được token.");
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[85vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-5 border-b border-luxury-100">
+          <div>
+            <h3 className="font-serif font-bold text-xl text-luxury-900">API Token</h3>
+            <p className="text-sm text-luxury-500">
+              Token mới trừ credit của {workspace ? <b>{workspace.name}</b> : 'tài khoản cá nhân'}. Xem README mục "Headless API".
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-5 space-y-4">
+          <div className="flex gap-2">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+              placeholder="Tên token (vd. CRM đặt tiệc)"
+              className="flex-grow px-3 py-2 text-sm border border-luxury-300 rounded-lg focus:ring-2 focus:ring-accent-500 outline-none"
+            />
+            <button
+              onClick={handleCreate}
+              disabled={!name.trim()}
+              className="px-4 py-2 rounded-lg text-sm font-bold text-white bg-accent-600 hover:bg-accent-500 disabled:opacity-50"
+            >
+              Tạo Token
+            </button>
+          </div>
+
+          {newSecret && (
+            <div className="p-3 rounded-lg bg-luxury-50 border border-luxury-200 space-y-1">
+              <p className="text-xs font-bold text-luxury-700">Sao chép token ngay, token chỉ hiển thị một lần:</p>
+              <code className="block text-xs font-mono break-all text-luxury-900 select-all">{newSecret}</code>
+            </div>
+          )}
+
+          {isLoading && tokens.length === 0 && <div className="flex justify-center py-6"><Spinner /></div>}
+          {!isLoading && tokens.length === 0 && (
+            <p className="text-sm text-luxury-400 italic text-center py-6">Chưa có token nào.</p>
+          )}
+          <ul className="divide-y divide-luxury-100">
+            {tokens.map(token => (
+              <li key={token.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className={`text-sm truncate ${token.revokedAt ? 'text-luxury-400 line-through' : 'text-luxury-900'}`}>{token.name}</p>
+                  <p className="text-[11px] text-luxury-400 font-mono">
+                    {token.prefix}… · {token.lastUsedAt ? `dùng lần cuối ${new Date(token.lastUsedAt).toLocaleString('vi-VN')}` : 'chưa dùng'}
+                  </p>
+                </div>
+                {!token.revokedAt && (
+                  <button onClick={() => handleRevoke(token)} className="text-xs text-red-500 hover:text-red-600 shrink-0">
+                    Thu hồi
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { CreditTransaction, CreditTransactionType } from '../types';
+import { Spinner } from './Spinner';
+import * as creditService from '../services/creditService';
+import { getActiveWorkspace } from '../services/workspaceService';
+
+interface CreditHistoryProps {
+  isOpen: boolean;
+  onClose: () => void;
+  balance: number;
+}
+
+const TYPE_LABELS: Record<CreditTransactionType, string> = {
+  deduct: 'Sử dụng',
+  refund: 'Hoàn trả',
+  reward: 'Thưởng',
+  topup: 'Nạp',
+};
+
+/**
+ * Số dư và lịch sử giao dịch credit của người dùng hoặc của quỹ chung workspace
+ */
+export const CreditHistory: React.FC<CreditHistoryProps> = ({ isOpen, onClose, balance }) => {
+  const [transactions, setTransactions] = useState<CreditTransaction[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setIsLoading(true);
+    creditService.listTransactions()
+      .then(setTransactions)
+      .finally(() => setIsLoading(false));
+  }, [isOpen, balance]);
+
+  if (!isOpen) return null;
+
+  const workspace = getActiveWorkspace();
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[85vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-5 border-b border-luxury-100">
+          <div>
+            <h3 className="font-serif font-bold text-xl text-luxury-900">Lịch Sử Credit{workspace ? ` · ${workspace.name}` : ''}</h3>
+            <p className="text-sm text-luxury-500">Số dư: <b className="text-accent-600">{balance} Credits</b></p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-5">
+          {isLoading && transactions.length === 0 && <div className="flex justify-center py-10"><Spinner /></div>}
+          {!isLoading && transactions.length === 0 && (
+            <p className="text-sm text-luxury-400 italic text-center py-10">Chưa có giao dịch nào.</p>
+          )}
+          <ul className="divide-y divide-luxury-100">
+            {transactions.map(t => (
+              <li key={t.id} className="flex items-center justify-between gap-4 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-luxury-900 truncate">{t.description || TYPE_LABELS[t.type]}</p>
+                  <p className="text-[11px] text-luxury-400">
+                    {TYPE_LABELS[t.type]}{t.tool ? ` · ${t.tool}` : ''}{t.memberEmail ? ` · ${t.memberEmail}` : ''} · {new Date(t.createdAt).toLocaleString('vi-VN')}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className={`text-sm font-mono font-bold ${t.amount < 0 ? 'text-red-500' : 'text-green-600'}`}>
+                    {t.amount > 0 ? `+${t.amount}` : t.amount}
+                  </p>
+                  <p className="text-[11px] font-mono text-luxury-400">{t.balanceAfter}</p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,14 +1,20 @@
 import React, { useState, useRef } from 'react';
-import { FileData, IdeaAsset, IdeaGeneratorProps } from '../types';
+import { FileData, IdeaAsset, IdeaGeneratorProps, GenerationProgress, Tool, CreditReservation } from '../types';
 import { ImageUpload } from './common/ImageUpload';
 import { Spinner } from './Spinner';
 import { ImageComparator } from './ImageComparator';
 import * as geminiService from '../services/geminiService';
+import * as creditService from '../services/creditService';
+import * as pricing from '../services/pricing';
+import { GenerationStatus } from './common/GenerationStatus';
 
-export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ state, onStateChange, userCredits, onDeductCredits, onReset }) => {
+
+export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ state, onStateChange, userCredits, onReserveCredits, onReset, onEnqueueJob }) => {
+  const ideaCost = pricing.priceOf({ tool: Tool.IDEA_GENERATOR });
   const { sourceSketch, assets, isLoading, resultImage, error } = state;
   const [activePin, setActivePin] = useState<string | null>(null);
-  const [loadingStatus, setLoadingStatus] = useState<string>("Đang xử lý...");
+  const [progress, setProgress] = useState<GenerationProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [tempPinPosition, setTempPinPosition] = useState<{x: number, y: number} | null>(null);
   const [showUploadModal, setShowUploadModal] = useState(false);
   const imgRef = useRef<HTMLImageElement>(null);
@@ -64,29 +70,52 @@ export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ state, onStateChan
     if (activePin === id) setActivePin(null);
   };
 
+  const handleEnqueue = async () => {
+      if (userCredits < ideaCost) {
+          onStateChange({ error: `Bạn cần ${ideaCost} Credits để thực hiện.` });
+          return;
+      }
+      if (!sourceSketch || !onEnqueueJob) return;
+
+      onStateChange({ error: null });
+      let reservation: CreditReservation | undefined;
+      try {
+          reservation = await onReserveCredits?.(ideaCost, "Idea Generation Render");
+      } catch {
+          return;
+      }
+      onEnqueueJob(`Moodboard · ${assets.length} vật thể`, { tool: Tool.IDEA_GENERATOR, sourceSketch, assets }, reservation);
+  };
+
   const handleGenerate = async () => {
-      const COST = 40;
-      if (userCredits < COST) {
-          onStateChange({ error: `Bạn cần ${COST} Credits để thực hiện.` });
+      if (userCredits < ideaCost) {
+          onStateChange({ error: `Bạn cần ${ideaCost} Credits để thực hiện.` });
           return;
       }
       if (!sourceSketch) return;
       
       onStateChange({ isLoading: true, error: null });
-      setLoadingStatus("Đang khởi tạo...");
+      setProgress({ stage: 'analysis', message: "Đang khởi tạo..." });
+      const controller = new AbortController();
+      abortRef.current = controller;
+      let reservation: CreditReservation | undefined;
 
       try {
-          if (onDeductCredits) await onDeductCredits(COST, "Idea Generation Render");
+          reservation = await onReserveCredits?.(ideaCost, "Idea Generation Render");
           
           const result = await geminiService.generateIdeaRender(
               sourceSketch, 
               assets, 
-              (status) => setLoadingStatus(status)
+              { signal: controller.signal, onProgress: setProgress, reservationId: reservation?.id }
           );
           onStateChange({ resultImage: result });
+          creditService.confirmReservation(reservation);
       } catch (e) {
-          onStateChange({ error: "Có lỗi xảy ra khi tạo ảnh. Vui lòng thử lại." });
+          creditService.releaseReservation(reservation);
+          onStateChange({ error: geminiService.isAbortError(e) ? "Đã hủy render Moodboard." : "Có lỗi xảy ra khi tạo ảnh. Vui lòng thử lại." });
       } finally {
+          abortRef.current = null;
+          setProgress(null);
           onStateChange({ isLoading: false });
       }
   };
@@ -196,7 +225,9 @@ export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ state, onStateChan
                         {isLoading && (
                              <div className="absolute inset-0 bg-white/80 backdrop-blur-sm flex flex-col items-center justify-center z-50">
                                 <Spinner />
-                                <p className="mt-4 text-purple-800 font-bold animate-pulse">{loadingStatus}</p>
+                                <div className="mt-4">
+                                    <GenerationStatus progress={progress} onCancel={() => abortRef.current?.abort()} />
+                                </div>
                              </div>
                         )}
                     </div>
@@ -313,8 +344,17 @@ export const IdeaGenerator: React.FC<IdeaGeneratorProps> = ({ state, onStateChan
                 disabled={isLoading || !sourceSketch}
                 className="w-full py-4 bg-gradient-to-r from-purple-600 to-indigo-600 text-white font-bold rounded-xl shadow-xl hover:scale-[1.02] active:scale-95 transition-all disabled:opacity-50 disabled:grayscale disabled:scale-100"
                 >
-                {isLoading ? <Spinner /> : "RENDER MOODBOARD (40 Credits)"}
+                {isLoading ? <Spinner /> : `RENDER MOODBOARD (${ideaCost} Credits)`}
                 </button>
+                {onEnqueueJob && (
+                    <button
+                    onClick={handleEnqueue}
+                    disabled={!sourceSketch}
+                    className="w-full mt-2 py-2 text-sm font-bold rounded-xl border border-purple-300 text-purple-700 hover:bg-purple-50 transition-colors disabled:opacity-50"
+                    >
+                    Thêm vào hàng đợi ({ideaCost} Credits)
+                    </button>
+                )}
             </div>
           </div>
         </div>
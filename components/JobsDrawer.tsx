@@ -0,0 +1,130 @@
+import React from 'react';
+import { RenderJob, JobStatus, Tool } from '../types';
+import { JOB_CONCURRENCY_OPTIONS } from '../constants';
+
+interface JobsDrawerProps {
+  jobs: RenderJob[];
+  isOpen: boolean;
+  onClose: () => void;
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  onOpenJob: (job: RenderJob) => void;
+  onCancelJob: (id: string) => void;
+  onRetryJob: (id: string) => void;
+  onRemoveJob: (id: string) => void;
+  onClearFinished: () => void;
+}
+
+const TOOL_LABELS: Record<Tool, string> = {
+  [Tool.RENDER]: 'Render 3D',
+  [Tool.UPSCALE]: 'Nâng Cấp AI',
+  [Tool.ADVANCED_EDIT]: 'Chỉnh Sửa AI',
+  [Tool.SKETCH_CONVERTER]: 'Phác Thảo',
+  [Tool.IDEA_GENERATOR]: 'Ý Tưởng',
+};
+
+const STATUS_STYLES: Record<JobStatus, { label: string; className: string }> = {
+  queued: { label: 'Đang chờ', className: 'bg-luxury-100 text-luxury-700' },
+  running: { label: 'Đang chạy', className: 'bg-blue-100 text-blue-700' },
+  succeeded: { label: 'Hoàn tất', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Lỗi', className: 'bg-red-100 text-red-700' },
+  cancelled: { label: 'Đã hủy', className: 'bg-zinc-100 text-zinc-500' },
+};
+
+/**
+ * Ngăn kéo hiển thị hàng đợi job nền của mọi công cụ
+ */
+export const JobsDrawer: React.FC<JobsDrawerProps> = ({
+  jobs,
+  isOpen,
+  onClose,
+  concurrency,
+  onConcurrencyChange,
+  onOpenJob,
+  onCancelJob,
+  onRetryJob,
+  onRemoveJob,
+  onClearFinished,
+}) => {
+  if (!isOpen) return null;
+
+  const sortedJobs = [...jobs].sort((a, b) => b.createdAt - a.createdAt);
+
+  return (
+    <div className="fixed inset-0 z-[70] flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        className="w-full max-w-md h-full bg-white shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-luxury-100">
+          <h3 className="text-lg font-serif font-bold text-luxury-900">Hàng Đợi Xử Lý</h3>
+          <button onClick={onClose} className="text-luxury-400 hover:text-luxury-700">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 px-4 py-3 bg-luxury-50 border-b border-luxury-100">
+          <label className="text-xs font-semibold text-luxury-700 uppercase tracking-wider">Chạy song song</label>
+          <select
+            value={String(concurrency)}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+            className="text-sm border border-luxury-200 rounded-md px-2 py-1 bg-white"
+          >
+            {JOB_CONCURRENCY_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <button
+            onClick={onClearFinished}
+            className="text-xs font-bold text-luxury-600 hover:text-luxury-900"
+          >
+            Xóa job đã xong
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-4 space-y-3">
+          {sortedJobs.length === 0 && (
+            <p className="text-sm text-luxury-400 italic text-center mt-8">Chưa có job nào trong hàng đợi.</p>
+          )}
+          {sortedJobs.map(job => {
+            const status = STATUS_STYLES[job.status];
+            return (
+              <div key={job.id} className="border border-luxury-100 rounded-xl p-3 flex gap-3">
+                <div className="w-16 h-16 rounded-lg bg-luxury-100 overflow-hidden flex-shrink-0">
+                  {job.results[0] && <img src={job.results[0]} alt={job.label} className="w-full h-full object-cover" />}
+                </div>
+                <div className="flex-grow min-w-0">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-[10px] font-bold uppercase tracking-wider text-luxury-400">{TOOL_LABELS[job.payload.tool]}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${status.className}`}>{status.label}</span>
+                  </div>
+                  <p className="text-sm font-semibold text-luxury-900 truncate">{job.label}</p>
+                  {job.status === 'running' && job.progress && (
+                    <p className={`text-xs truncate ${job.progress.stage === 'retry' ? 'text-amber-600' : 'text-luxury-500'}`}>{job.progress.message}</p>
+                  )}
+                  {job.status === 'failed' && job.error && (
+                    <p className="text-xs text-red-500 truncate" title={job.error}>{job.error}</p>
+                  )}
+                  <div className="flex gap-3 mt-1 text-xs font-bold">
+                    {job.status === 'succeeded' && (
+                      <button onClick={() => onOpenJob(job)} className="text-accent-600 hover:text-accent-500">Mở kết quả</button>
+                    )}
+                    {(job.status === 'queued' || job.status === 'running') && (
+                      <button onClick={() => onCancelJob(job.id)} className="text-luxury-600 hover:text-luxury-900">Hủy</button>
+                    )}
+                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                      <button onClick={() => onRetryJob(job.id)} className="text-luxury-600 hover:text-luxury-900">Chạy lại</button>
+                    )}
+                    {job.status !== 'running' && (
+                      <button onClick={() => onRemoveJob(job.id)} className="text-luxury-400 hover:text-red-500">Xóa</button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </aside>
+    </div>
+  );
+};
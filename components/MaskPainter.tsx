@@ -0,0 +1,266 @@
+import React, { useRef, useEffect, useState } from 'react';
+
+interface Props {
+  image: string;
+  initialMask?: string | null; // Base64 PNG from an earlier save, reopened to adjust it
+  title?: string;
+  onSave: (maskBase64: string) => void;
+  onCancel: () => void;
+}
+
+type MaskTool = 'brush' | 'eraser';
+
+const MAX_HISTORY = 20; // Full-size snapshots, so fewer steps than AnnotationCanvas
+const BRUSH_SIZE_PER_LEVEL = 0.006; // × image width
+const OVERLAY_COLOR = '#FF0000';
+
+const TOOL_LABELS: Record<MaskTool, string> = {
+  brush: '🖌️ Tô vùng',
+  eraser: '🧽 Xóa tô',
+};
+
+/**
+ * Tô mask lên ảnh: vùng tô hiển thị màu đỏ mờ, khi lưu xuất PNG đen/trắng cùng kích thước ảnh (trắng = vùng sửa)
+ */
+export const MaskPainter: React.FC<Props> = ({ image, initialMask, title = 'Tô vùng cần sửa', onSave, onCancel }) => {
+  const maskCanvasRef = useRef<HTMLCanvasElement>(null);
+  const historyRef = useRef<ImageData[]>([]);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [brushLevel, setBrushLevel] = useState(8);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [scale, setScale] = useState(1);
+  const [pan, setPan] = useState({ x: 0, y: 0 });
+  const [isPanning, setIsPanning] = useState(false);
+  const [panStart, setPanStart] = useState({ x: 0, y: 0 });
+  const [isPainting, setIsPainting] = useState(false);
+  const [historyLength, setHistoryLength] = useState(0);
+  const [isEmpty, setIsEmpty] = useState(!initialMask);
+
+  useEffect(() => {
+    const img = new Image();
+    img.crossOrigin = "anonymous";
+    img.src = image;
+    img.onload = () => {
+      const padding = 40;
+      setScale(Math.min((window.innerWidth - padding) / img.width, (window.innerHeight - 150) / img.height, 1));
+      setSize({ width: img.width, height: img.height });
+    };
+  }, [image]);
+
+  // Vẽ lại mask đã lưu: điểm trắng trong PNG → lớp phủ đỏ
+  useEffect(() => {
+    const canvas = maskCanvasRef.current;
+    const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+    if (!size || !canvas || !ctx || !initialMask) return;
+    const maskImg = new Image();
+    maskImg.onload = () => {
+      ctx.drawImage(maskImg, 0, 0, canvas.width, canvas.height);
+      const data = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      for (let i = 0; i < data.data.length; i += 4) {
+        const coverage = data.data[i];
+        data.data[i] = 255;
+        data.data[i + 1] = 0;
+        data.data[i + 2] = 0;
+        data.data[i + 3] = coverage;
+      }
+      ctx.putImageData(data, 0, 0);
+    };
+    maskImg.src = `data:image/png;base64,${initialMask}`;
+  }, [size, initialMask]);
+
+  const brushSize = () => Math.max(4, brushLevel * BRUSH_SIZE_PER_LEVEL * (size?.width || 0));
+
+  // --- HISTORY ---
+
+  const pushHistory = () => {
+    const canvas = maskCanvasRef.current;
+    const ctx = canvas?.getContext('2d', { willReadFrequently: true });
+    if (!canvas || !ctx) return;
+    historyRef.current = [...historyRef.current, ctx.getImageData(0, 0, canvas.width, canvas.height)].slice(-MAX_HISTORY);
+    setHistoryLength(historyRef.current.length);
+  };
+
+  const undo = () => {
+    const ctx = maskCanvasRef.current?.getContext('2d', { willReadFrequently: true });
+    const previous = historyRef.current[historyRef.current.length - 1];
+    if (!ctx || !previous) return;
+    historyRef.current = historyRef.current.slice(0, -1);
+    setHistoryLength(historyRef.current.length);
+    ctx.putImageData(previous, 0, 0);
+    setIsEmpty(false);
+  };
+
+  const clearMask = () => {
+    const canvas = maskCanvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    pushHistory();
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    setIsEmpty(true);
+  };
+
+  // Ctrl+Z
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        undo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // --- POINTER ---
+
+  const getMousePos = (e: React.MouseEvent) => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas) return { x: 0, y: 0 };
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / rect.width,
+      y: ((e.clientY - rect.top) * canvas.height) / rect.height
+    };
+  };
+
+  const paintTo = (pos: { x: number; y: number }) => {
+    const ctx = maskCanvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPointRef.current ?? pos;
+    ctx.save();
+    // Eraser cuts the overlay back to transparent instead of painting black over it
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = OVERLAY_COLOR;
+    ctx.lineWidth = brushSize();
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(pos.x, pos.y);
+    ctx.stroke();
+    ctx.restore();
+    lastPointRef.current = pos;
+  };
+
+  const startPainting = (e: React.MouseEvent) => {
+    if (e.button === 1 || (e.button === 0 && e.shiftKey)) {
+      setIsPanning(true);
+      setPanStart({ x: e.clientX - pan.x, y: e.clientY - pan.y });
+      return;
+    }
+    pushHistory();
+    setIsPainting(true);
+    lastPointRef.current = null;
+    paintTo(getMousePos(e));
+    if (tool === 'brush') setIsEmpty(false);
+  };
+
+  const painting = (e: React.MouseEvent) => {
+    if (isPanning) {
+      setPan({ x: e.clientX - panStart.x, y: e.clientY - panStart.y });
+      return;
+    }
+    if (isPainting) paintTo(getMousePos(e));
+  };
+
+  const stopPainting = () => {
+    setIsPanning(false);
+    setIsPainting(false);
+    lastPointRef.current = null;
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    e.preventDefault();
+    const direction = e.deltaY > 0 ? -1 : 1;
+    setScale(prev => Math.min(Math.max(prev + direction * 0.1, 0.1), 5));
+  };
+
+  const handleSave = () => {
+    const canvas = maskCanvasRef.current;
+    if (!canvas) return;
+    const out = document.createElement('canvas');
+    out.width = canvas.width;
+    out.height = canvas.height;
+    const ctx = out.getContext('2d');
+    if (!ctx) return;
+    // Overlay alpha becomes white on black: partly covered brush edges stay grey so the composite blends
+    ctx.drawImage(canvas, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, out.width, out.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, out.width, out.height);
+    onSave(out.toDataURL('image/png').split(',')[1] || '');
+  };
+
+  const toolbarButton = 'px-3 py-2 rounded-xl font-bold transition-all text-zinc-400 hover:bg-white/5 disabled:opacity-30 disabled:hover:bg-transparent';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-zinc-950 flex flex-col items-center justify-center overflow-hidden">
+      {/* TOOLBAR */}
+      <div className="absolute top-6 flex flex-col items-center gap-2 z-50">
+        <div className="flex flex-wrap items-center justify-center gap-1 bg-zinc-900/90 backdrop-blur-md p-2 rounded-2xl border border-white/10 shadow-2xl">
+          <span className="px-3 text-xs font-bold text-zinc-400 uppercase">{title}</span>
+          {(Object.keys(TOOL_LABELS) as MaskTool[]).map(t => (
+            <button
+              key={t}
+              onClick={() => setTool(t)}
+              className={`px-3 py-2 rounded-xl font-bold transition-all ${tool === t ? 'bg-red-600 text-white shadow-lg shadow-red-900/20' : 'text-zinc-400 hover:bg-white/5'}`}
+            >
+              {TOOL_LABELS[t]}
+            </button>
+          ))}
+          <div className="w-[1px] bg-white/10 mx-2 self-stretch" />
+          <button onClick={undo} disabled={historyLength === 0} title="Hoàn tác (Ctrl+Z)" className={toolbarButton}>↶</button>
+          <button onClick={clearMask} disabled={isEmpty} title="Xóa toàn bộ vùng tô" className={toolbarButton}>🗑️</button>
+          <div className="w-[1px] bg-white/10 mx-2 self-stretch" />
+          <button onClick={onCancel} className="px-4 py-2 text-white/50 hover:text-white">Hủy</button>
+          <button
+            onClick={handleSave}
+            disabled={isEmpty}
+            className="px-6 py-2 bg-white text-black rounded-xl font-bold hover:bg-zinc-200 disabled:opacity-40"
+          >
+            Lưu vùng tô
+          </button>
+        </div>
+
+        <div className="flex items-center gap-3 bg-zinc-900/90 backdrop-blur-md px-3 py-2 rounded-2xl border border-white/10 shadow-2xl text-xs text-zinc-400">
+          <label className="flex items-center gap-2">
+            Cỡ cọ
+            <input
+              type="range"
+              min={1}
+              max={30}
+              value={brushLevel}
+              onChange={(e) => setBrushLevel(Number(e.target.value))}
+              className="w-28 accent-red-600"
+            />
+          </label>
+          <span>Shift + kéo để di chuyển · cuộn để phóng to</span>
+        </div>
+      </div>
+
+      {/* EDITOR AREA */}
+      <div className="w-full h-full flex items-center justify-center cursor-crosshair" onWheel={handleWheel}>
+        {size && (
+          <div style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${scale})`, transition: isPanning ? 'none' : 'transform 0.1s' }} className="relative">
+            <img src={image} alt="Ảnh gốc" width={size.width} height={size.height} className="block max-w-none shadow-2xl select-none pointer-events-none" />
+            <canvas
+              ref={maskCanvasRef}
+              width={size.width}
+              height={size.height}
+              onMouseDown={startPainting}
+              onMouseMove={painting}
+              onMouseUp={stopPainting}
+              onMouseLeave={stopPainting}
+              className="absolute inset-0 opacity-50"
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
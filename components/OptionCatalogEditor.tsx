@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { OptionCatalog, OptionCatalogKind, OptionItem } from '../types';
+import { Spinner } from './Spinner';
+import * as optionCatalog from '../services/optionCatalog';
+
+interface OptionCatalogEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  catalog: OptionCatalog;
+  onSaved: (catalog: OptionCatalog) => void;
+}
+
+const SOURCE_LABELS: Record<optionCatalog.OptionCatalogSource, string> = {
+  'supabase': 'Supabase',
+  'local': 'Bản chỉnh sửa trên máy này',
+  'file': '/option-catalog.json',
+  'built-in': 'Mặc định trong mã nguồn',
+};
+
+const sortByOrder = (items: OptionItem[]) => [...items].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+/**
+ * Trình chỉnh sửa danh mục phong cách / bảng màu / vật liệu dành cho admin
+ */
+export const OptionCatalogEditor: React.FC<OptionCatalogEditorProps> = ({ isOpen, onClose, catalog, onSaved }) => {
+  const [draft, setDraft] = useState<OptionCatalog>(catalog);
+  const [activeKind, setActiveKind] = useState<OptionCatalogKind>('styles');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) setDraft(catalog);
+  }, [isOpen, catalog]);
+
+  if (!isOpen) return null;
+
+  const items = sortByOrder(draft[activeKind]);
+
+  const setItems = (next: OptionItem[]) => {
+    setDraft(prev => ({ ...prev, [activeKind]: next.map((item, index) => ({ ...item, order: index })) }));
+  };
+
+  const updateItem = (value: string, patch: Partial<OptionItem>) => {
+    setItems(items.map(item => item.value === value ? { ...item, ...patch } : item));
+  };
+
+  const moveItem = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    setItems(next);
+  };
+
+  const handleAddItem = () => {
+    const value = window.prompt("Giá trị tiếng Anh của mục mới (ví dụ: Boho Pampas):");
+    if (!value?.trim()) return;
+    if (items.some(item => item.value === value.trim())) {
+      alert("Giá trị này đã tồn tại.");
+      return;
+    }
+    setItems([...items, { value: value.trim(), label: value.trim(), enabled: true }]);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const source = await optionCatalog.saveOptionCatalog(draft);
+      onSaved(optionCatalog.getOptionCatalog());
+      alert(`Đã lưu danh mục (${SOURCE_LABELS[source]}).`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!window.confirm("Bỏ các chỉnh sửa trên máy này và nạp lại danh mục gốc?")) return;
+    const reloaded = await optionCatalog.resetOptionCatalog();
+    setDraft(reloaded);
+    onSaved(reloaded);
+  };
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([optionCatalog.exportOptionCatalog(draft)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'option-catalog.json';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-4xl max-h-[90vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-5 border-b border-luxury-100">
+          <div>
+            <h3 className="font-serif font-bold text-xl text-luxury-900">Quản Lý Danh Mục Tùy Chọn</h3>
+            <p className="text-xs text-luxury-500">Nguồn hiện tại: {SOURCE_LABELS[optionCatalog.getOptionCatalogSource()]}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex gap-2 px-5 pt-4 overflow-x-auto">
+          {optionCatalog.OPTION_CATALOG_KINDS.map(({ kind, label }) => (
+            <button
+              key={kind}
+              onClick={() => setActiveKind(kind)}
+              className={`px-3 py-1.5 rounded-lg text-sm font-semibold whitespace-nowrap transition-colors
+                ${activeKind === kind ? 'bg-luxury-800 text-white' : 'text-luxury-600 hover:bg-luxury-100'}
+              `}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-5 space-y-3">
+          {items.map((item, index) => (
+            <div key={item.value} className={`border rounded-xl p-3 grid grid-cols-12 gap-3 ${item.enabled === false ? 'border-luxury-100 bg-zinc-50 opacity-70' : 'border-luxury-200'}`}>
+              <div className="col-span-12 md:col-span-3 flex flex-col gap-1">
+                <span className="text-[10px] font-mono text-luxury-400 truncate" title={item.value}>{item.value}</span>
+                <label className="flex items-center gap-2 text-xs text-luxury-700">
+                  <input
+                    type="checkbox"
+                    checked={item.enabled !== false}
+                    onChange={(e) => updateItem(item.value, { enabled: e.target.checked })}
+                    disabled={item.value === 'none'}
+                  />
+                  Hiển thị
+                </label>
+                <div className="flex gap-2 text-xs">
+                  <button onClick={() => moveItem(index, -1)} disabled={index === 0} className="px-2 border border-luxury-200 rounded disabled:opacity-30">↑</button>
+                  <button onClick={() => moveItem(index, 1)} disabled={index === items.length - 1} className="px-2 border border-luxury-200 rounded disabled:opacity-30">↓</button>
+                </div>
+              </div>
+              <div className="col-span-12 md:col-span-9 grid grid-cols-1 md:grid-cols-2 gap-2">
+                <input
+                  value={item.label}
+                  onChange={(e) => updateItem(item.value, { label: e.target.value })}
+                  placeholder="Nhãn hiển thị"
+                  className="px-2 py-1.5 text-sm border border-luxury-200 rounded-md focus:ring-2 focus:ring-accent-500 outline-none"
+                />
+                <input
+                  value={item.description || ''}
+                  onChange={(e) => updateItem(item.value, { description: e.target.value || undefined })}
+                  placeholder="Mô tả"
+                  className="px-2 py-1.5 text-sm border border-luxury-200 rounded-md focus:ring-2 focus:ring-accent-500 outline-none"
+                />
+                <textarea
+                  value={item.prompt || ''}
+                  onChange={(e) => updateItem(item.value, { prompt: e.target.value || undefined })}
+                  placeholder={`Prompt gửi cho Gemini (mặc định: "${item.value}")`}
+                  disabled={item.value === 'none'}
+                  className="md:col-span-2 px-2 py-1.5 text-xs font-mono border border-luxury-200 rounded-md focus:ring-2 focus:ring-accent-500 outline-none resize-y min-h-[48px]"
+                />
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={handleAddItem}
+            className="w-full py-2 border-2 border-dashed border-luxury-200 rounded-xl text-sm font-bold text-luxury-500 hover:border-luxury-400 hover:text-luxury-700"
+          >
+            + Thêm mục mới
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 p-5 border-t border-luxury-100">
+          <div className="flex gap-3 text-xs font-bold">
+            <button onClick={handleExport} className="text-luxury-600 hover:text-luxury-900">Xuất JSON</button>
+            <button onClick={handleReset} className="text-luxury-400 hover:text-red-500">Khôi phục gốc</button>
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={isSaving}
+            className="px-8 py-2.5 rounded-lg font-bold text-white bg-gradient-to-r from-accent-600 to-accent-500 hover:from-accent-500 hover:to-accent-400 shadow-lg disabled:opacity-50"
+          >
+            {isSaving ? <Spinner /> : 'Lưu Danh Mục'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import { PaletteColor } from '../types';
+import { Spinner } from './Spinner';
+import * as paletteService from '../services/paletteService';
+
+interface PaletteBuilderProps {
+  palette: PaletteColor[];
+  onChange: (palette: PaletteColor[]) => void;
+}
+
+/**
+ * Tạo bảng màu tùy chỉnh từ mã hex hoặc trích từ ảnh tham chiếu (thiệp mời, mẫu Pantone...)
+ */
+export const PaletteBuilder: React.FC<PaletteBuilderProps> = ({ palette, onChange }) => {
+  const [hexInput, setHexInput] = useState('');
+  const [isExtracting, setIsExtracting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isFull = palette.length >= paletteService.MAX_PALETTE_COLORS;
+
+  const handleAdd = () => {
+    const hex = paletteService.normalizeHex(hexInput);
+    if (!hex) {
+      alert("Mã màu không hợp lệ. Ví dụ: #D4AF37");
+      return;
+    }
+    if (!palette.some(c => c.hex === hex)) onChange([...palette, paletteService.toPaletteColor(hex)]);
+    setHexInput('');
+  };
+
+  const handleColorEdit = (index: number, value: string) => {
+    const hex = paletteService.normalizeHex(value);
+    if (hex) onChange(palette.map((c, i) => i === index ? paletteService.toPaletteColor(hex) : c));
+  };
+
+  const handleExtract = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !file.type.startsWith('image/')) return;
+
+    setIsExtracting(true);
+    const url = URL.createObjectURL(file);
+    try {
+      onChange(await paletteService.extractPalette(url, 5));
+    } catch (err) {
+      console.error("Palette extraction failed", err);
+      alert("Không thể trích xuất màu từ ảnh này.");
+    } finally {
+      URL.revokeObjectURL(url);
+      setIsExtracting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-semibold text-luxury-800 uppercase tracking-wider">
+        Bảng Màu Tùy Chỉnh (Hex)
+      </label>
+
+      <div className="flex flex-wrap gap-2">
+        {palette.map((color, index) => (
+          <div key={`${color.hex}-${index}`} className="flex items-center gap-1 pl-1 pr-2 py-1 bg-white border border-luxury-200 rounded-full">
+            <input
+              type="color"
+              value={color.hex}
+              onChange={(e) => handleColorEdit(index, e.target.value)}
+              className="w-6 h-6 rounded-full border-0 p-0 cursor-pointer"
+              title={color.name}
+            />
+            <span className="text-[11px] font-mono text-luxury-700">{color.hex}</span>
+            <button onClick={() => onChange(palette.filter((_, i) => i !== index))} className="text-luxury-400 hover:text-red-500 text-xs ml-1">✕</button>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          value={hexInput}
+          onChange={(e) => setHexInput(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+          placeholder="#D4AF37"
+          disabled={isFull}
+          className="flex-grow px-3 py-2 text-sm font-mono border border-luxury-300 rounded-lg focus:ring-2 focus:ring-accent-500 outline-none disabled:bg-luxury-50"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={isFull || !hexInput.trim()}
+          className="px-3 py-2 rounded-lg text-xs font-bold border border-luxury-300 text-luxury-800 hover:bg-luxury-50 disabled:opacity-50"
+        >
+          Thêm
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isExtracting}
+          className="px-3 py-2 rounded-lg text-xs font-bold border border-luxury-300 text-luxury-800 hover:bg-luxury-50 disabled:opacity-50 whitespace-nowrap"
+          title="Trích bảng màu chủ đạo từ ảnh tham chiếu (xử lý ngay trên máy)"
+        >
+          {isExtracting ? <Spinner /> : 'Từ ảnh'}
+        </button>
+        <input ref={fileInputRef} type="file" accept="image/*" className="hidden" onChange={handleExtract} />
+      </div>
+
+      <p className="text-xs text-luxury-500 italic">
+        {palette.length === 0
+          ? `Để trống để dùng bảng màu có sẵn phía trên. Tối đa ${paletteService.MAX_PALETTE_COLORS} màu.`
+          : paletteService.isPaletteUsable(palette)
+            ? `Đang dùng: ${palette.map(c => c.name).join(', ')}`
+            : `Cần ít nhất ${paletteService.MIN_PALETTE_COLORS} màu để áp dụng.`}
+      </p>
+    </div>
+  );
+};
+
+interface PaletteSwatchesProps {
+  palette: PaletteColor[];
+}
+
+/**
+ * Dải màu hiển thị cạnh kết quả render
+ */
+export const PaletteSwatches: React.FC<PaletteSwatchesProps> = ({ palette }) => (
+  <div className="flex items-center justify-center gap-2 flex-wrap">
+    {palette.map((color, index) => (
+      <div key={`${color.hex}-${index}`} className="flex items-center gap-1.5" title={`${color.name} ${color.hex}`}>
+        <span className="w-6 h-6 rounded-full border border-luxury-200 shadow-sm" style={{ backgroundColor: color.hex }} />
+        <span className="text-[10px] font-mono text-luxury-600">{color.hex}</span>
+      </div>
+    ))}
+  </div>
+);
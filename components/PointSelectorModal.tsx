@@ -1,6 +1,8 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { ClickPoint } from '../types';
+import { ClickPoint, CreditReservation, ReserveCreditsHandler } from '../types';
 import * as geminiService from '../services/geminiService';
+import * as creditService from '../services/creditService';
+import * as pricing from '../services/pricing';
 import { Spinner } from './Spinner';
 
 interface PointSelectorModalProps {
@@ -10,19 +12,19 @@ interface PointSelectorModalProps {
     base64Image: string;
     mimeType: string;
     onSavePointAndDetections: (point: ClickPoint, detectedPoints: ClickPoint[]) => void;
-    onDeductCredits?: (cost: number, description: string) => Promise<void>;
+    onReserveCredits?: ReserveCreditsHandler;
     userCredits: number;
     originalImageWidth: number;
     originalImageHeight: number;
+    title?: string;
 }
 
-const DETECTION_COST = 5;
-
 export const PointSelectorModal: React.FC<PointSelectorModalProps> = ({
     isOpen, onClose, imageSrc, base64Image, mimeType,
-    onSavePointAndDetections, onDeductCredits, userCredits,
-    originalImageWidth, originalImageHeight,
+    onSavePointAndDetections, onReserveCredits, userCredits,
+    originalImageWidth, originalImageHeight, title = 'Chọn Vị Trí Thay Thế',
 }) => {
+    const detectionCost = pricing.priceOf({ tool: 'detection' });
     const imgRef = useRef<HTMLImageElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
 
@@ -36,8 +38,10 @@ export const PointSelectorModal: React.FC<PointSelectorModalProps> = ({
     const [detectedPoints, setDetectedPoints] = useState<ClickPoint[]>([]);
     const [isDetecting, setIsDetecting] = useState(false);
     const [detectionError, setDetectionError] = useState<string | null>(null);
+    const detectionAbortRef = useRef<AbortController | null>(null);
 
     const resetState = useCallback(() => {
+        detectionAbortRef.current?.abort();
         setSelectedPoint(null);
         setDetectedPoints([]);
         setIsDetecting(false);
@@ -97,17 +101,20 @@ export const PointSelectorModal: React.FC<PointSelectorModalProps> = ({
     const handleFindSimilar = async () => {
         if (!selectedPoint || isDetecting) return;
 
-        if (userCredits < DETECTION_COST) {
-            setDetectionError(`Bạn cần ${DETECTION_COST} Credits để nhận diện vật thể.`);
+        if (userCredits < detectionCost) {
+            setDetectionError(`Bạn cần ${detectionCost} Credits để nhận diện vật thể.`);
             return;
         }
 
         setIsDetecting(true);
         setDetectionError(null);
         setDetectedPoints([]);
+        const controller = new AbortController();
+        detectionAbortRef.current = controller;
+        let reservation: CreditReservation | undefined;
 
         try {
-            await onDeductCredits?.(DETECTION_COST, `Detect Similar Objects`);
+            reservation = await onReserveCredits?.(detectionCost, `Detect Similar Objects`);
 
             const detectionPrompt = `
                 TASK: OBJECT DETECTION.
@@ -118,12 +125,17 @@ export const PointSelectorModal: React.FC<PointSelectorModalProps> = ({
                 Return ONLY a JSON list of objects: [{"x": percentage, "y": percentage}, ...]
             `;
 
-            const points = await geminiService.detectSimilarObjects(base64Image, mimeType, detectionPrompt);
+            const points = await geminiService.detectSimilarObjects(base64Image, mimeType, detectionPrompt, { signal: controller.signal, reservationId: reservation?.id });
             setDetectedPoints(points);
+            creditService.confirmReservation(reservation);
         } catch (err: any) {
-            setDetectionError("Lỗi nhận diện vật thể tương đồng. Vui lòng thử lại sau.");
-            console.error("Detect Similar Objects Error:", err);
+            creditService.releaseReservation(reservation);
+            if (!geminiService.isAbortError(err)) {
+                setDetectionError("Lỗi nhận diện vật thể tương đồng. Vui lòng thử lại sau.");
+                console.error("Detect Similar Objects Error:", err);
+            }
         } finally {
+            detectionAbortRef.current = null;
             setIsDetecting(false);
         }
     };
@@ -149,7 +161,7 @@ export const PointSelectorModal: React.FC<PointSelectorModalProps> = ({
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
             <div className="bg-white rounded-2xl shadow-2xl w-full max-w-5xl h-[90vh] flex flex-col overflow-hidden">
                 <div className="p-4 border-b border-luxury-100 flex items-center justify-between bg-white z-20">
-                    <h3 className="text-xl font-serif font-bold text-luxury-900">Chọn Vị Trí Thay Thế (Zoom: {Math.round(scale * 100)}%)</h3>
+                    <h3 className="text-xl font-serif font-bold text-luxury-900">{title} (Zoom: {Math.round(scale * 100)}%)</h3>
                     <button onClick={onClose} className="text-luxury-600 hover:text-luxury-900"><svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg></button>
                 </div>
 
@@ -197,7 +209,12 @@ export const PointSelectorModal: React.FC<PointSelectorModalProps> = ({
                         ))}
                     </div>
 
-                    {isDetecting && <div className="absolute inset-0 bg-black/40 flex items-center justify-center z-10"><Spinner /> <span className="ml-2 text-white">Đang nhận diện...</span></div>}
+                    {isDetecting && (
+                        <div className="absolute inset-0 bg-black/40 flex items-center justify-center gap-3 z-10">
+                            <Spinner /> <span className="text-white">Đang nhận diện...</span>
+                            <button onClick={() => detectionAbortRef.current?.abort()} className="px-4 py-1 rounded-full text-xs font-bold border border-white/40 text-white hover:bg-white/10">Hủy</button>
+                        </div>
+                    )}
                     
                     {detectionError && (
                         <div className="absolute bottom-4 left-1/2 -translate-x-1/2 bg-red-600 text-white text-sm px-4 py-2 rounded-lg shadow-md z-10">
@@ -210,10 +227,10 @@ export const PointSelectorModal: React.FC<PointSelectorModalProps> = ({
                     {selectedPoint && (
                         <button
                             onClick={handleFindSimilar}
-                            disabled={isDetecting || userCredits < DETECTION_COST}
+                            disabled={isDetecting || userCredits < detectionCost}
                             className="px-6 py-2 bg-purple-600 text-white rounded-lg font-bold hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
                         >
-                            {isDetecting ? <Spinner /> : 'Tìm Vật Thể Tương Tự'}
+                            {isDetecting ? <Spinner /> : `Tìm Vật Thể Tương Tự (${detectionCost} Credits)`}
                             {detectedPoints.length > 0 && ` (${detectedPoints.length})`}
                         </button>
                     )}
@@ -0,0 +1,112 @@
+import React, { useEffect, useState } from 'react';
+import { PresetOptions, RenderOptions, RenderPreset } from '../types';
+import * as presetService from '../services/presetService';
+import { getCurrentUserId } from '../services/userIdentity';
+
+interface PresetBarProps {
+  currentOptions: RenderOptions;
+  onApply: (options: PresetOptions) => void;
+}
+
+/**
+ * Chọn / lưu bộ tùy chọn đặt tên cho tab Render
+ */
+export const PresetBar: React.FC<PresetBarProps> = ({ currentOptions, onApply }) => {
+  const [presets, setPresets] = useState<RenderPreset[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [isBusy, setIsBusy] = useState(false);
+  const selected = presets.find(p => p.id === selectedId) || null;
+  const isOwner = selected?.ownerId === getCurrentUserId();
+
+  const refresh = async () => setPresets(await presetService.listPresets());
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    const preset = presets.find(p => p.id === id);
+    if (preset) onApply(preset.options);
+  };
+
+  const handleSave = async () => {
+    const name = window.prompt("Tên preset (ví dụ: Sảnh Adora – Royal Gold):", isOwner && selected ? selected.name : '');
+    if (!name?.trim()) return;
+    setIsBusy(true);
+    try {
+      const existing = presets.find(p => p.name === name.trim() && p.ownerId === getCurrentUserId());
+      const preset = await presetService.savePreset(name, currentOptions, existing?.isStudioDefault ?? false);
+      await refresh();
+      setSelectedId(preset.id);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleToggleStudioDefault = async () => {
+    if (!selected) return;
+    setIsBusy(true);
+    try {
+      await presetService.setStudioDefault(selected.id, !selected.isStudioDefault);
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Xóa preset "${selected.name}"?`)) return;
+    setIsBusy(true);
+    try {
+      await presetService.deletePreset(selected.id);
+      setSelectedId('');
+      await refresh();
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const studioPresets = presets.filter(p => p.isStudioDefault);
+  const myPresets = presets.filter(p => !p.isStudioDefault && p.ownerId === getCurrentUserId());
+  const sharedPresets = presets.filter(p => !p.isStudioDefault && p.ownerId !== getCurrentUserId());
+
+  return (
+    <div className="space-y-2 p-3 bg-luxury-50 rounded-lg border border-luxury-100">
+      <label className="block text-sm font-semibold text-luxury-800 uppercase tracking-wider">Preset</label>
+      <select
+        value={selectedId}
+        onChange={(e) => handleSelect(e.target.value)}
+        className="w-full bg-white border border-luxury-300 text-luxury-900 py-2 px-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-accent-500 text-sm"
+      >
+        <option value="">— Chọn preset —</option>
+        {studioPresets.length > 0 && (
+          <optgroup label="Mặc định studio">
+            {studioPresets.map(p => <option key={p.id} value={p.id}>★ {p.name}</option>)}
+          </optgroup>
+        )}
+        {myPresets.length > 0 && (
+          <optgroup label="Của tôi">
+            {myPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+        )}
+        {sharedPresets.length > 0 && (
+          <optgroup label="Của workspace">
+            {sharedPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+        )}
+      </select>
+      <div className="flex gap-3 text-xs font-bold">
+        <button onClick={handleSave} disabled={isBusy} className="text-accent-600 hover:text-accent-500 disabled:opacity-50">Lưu preset</button>
+        {selected && isOwner && (
+          <>
+            <button onClick={handleToggleStudioDefault} disabled={isBusy} className="text-luxury-600 hover:text-luxury-900 disabled:opacity-50">
+              {selected.isStudioDefault ? 'Bỏ mặc định studio' : 'Đặt làm mặc định studio'}
+            </button>
+            <button onClick={handleDelete} disabled={isBusy} className="text-luxury-400 hover:text-red-500 disabled:opacity-50">Xóa</button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
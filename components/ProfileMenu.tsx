@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { UserProfile } from '../types';
+import { Spinner } from './Spinner';
+import * as authService from '../services/authService';
+import { ApiTokensPanel } from './ApiTokensPanel';
+
+interface ProfileMenuProps {
+  user: UserProfile;
+}
+
+/**
+ * Menu hồ sơ trên header: đăng nhập bằng magic link, API token, đăng xuất
+ */
+export const ProfileMenu: React.FC<ProfileMenuProps> = ({ user }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [email, setEmail] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isTokensOpen, setIsTokensOpen] = useState(false);
+
+  const handleSendLink = async () => {
+    if (!/^\S+@\S+\.\S+$/.test(email.trim())) {
+      setError("Email không hợp lệ.");
+      return;
+    }
+    setIsSending(true);
+    setError(null);
+    try {
+      await authService.signInWithMagicLink(email);
+      setSentTo(email.trim());
+    } catch (e) {
+      console.error("Magic link sign-in failed", e);
+      setError("Không gửi được link đăng nhập. Vui lòng thử lại.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await authService.signOut();
+      setIsOpen(false);
+    } catch (e) {
+      console.error("Sign-out failed", e);
+    }
+  };
+
+  const initial = (user.email || '?').charAt(0).toUpperCase();
+
+  return (
+    <div className="ml-2 shrink-0">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className={`w-9 h-9 rounded-full text-sm font-bold flex items-center justify-center transition-colors
+          ${user.isAnonymous ? 'bg-luxury-100 text-luxury-600 hover:bg-luxury-200' : 'bg-accent-600 text-white hover:bg-accent-500'}
+        `}
+        title={user.isAnonymous ? 'Khách (chưa đăng nhập)' : user.email || ''}
+      >
+        {user.isAnonymous ? (
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z"/></svg>
+        ) : initial}
+      </button>
+
+      {isOpen && (
+        <div className="fixed right-4 top-16 w-72 bg-white rounded-xl shadow-2xl border border-luxury-100 p-4 z-[60] space-y-3">
+          {!user.isAnonymous ? (
+            <>
+              <div>
+                <p className="text-xs text-luxury-500">Đã đăng nhập</p>
+                <p className="text-sm font-semibold text-luxury-900 truncate">{user.email}</p>
+              </div>
+              <button
+                onClick={() => { setIsTokensOpen(true); setIsOpen(false); }}
+                className="w-full py-2 rounded-lg text-sm font-bold border border-luxury-300 text-luxury-800 hover:bg-luxury-50"
+              >
+                API Token
+              </button>
+              <button onClick={handleSignOut} className="w-full py-2 rounded-lg text-sm font-bold border border-luxury-300 text-luxury-800 hover:bg-luxury-50">
+                Đăng Xuất
+              </button>
+            </>
+          ) : !authService.isAuthAvailable() ? (
+            <p className="text-xs text-luxury-500">
+              Chế độ ngoại tuyến: lịch sử, preset và credit được lưu trên trình duyệt này với hồ sơ ẩn danh.
+            </p>
+          ) : sentTo ? (
+            <p className="text-sm text-luxury-800">
+              Đã gửi link đăng nhập tới <b>{sentTo}</b>. Mở email và bấm vào link để tiếp tục.
+            </p>
+          ) : (
+            <>
+              <p className="text-xs text-luxury-500">
+                Đăng nhập để lưu lịch sử, preset và credit vào tài khoản của bạn.
+              </p>
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSendLink(); }}
+                placeholder="ban@studio.vn"
+                className="w-full px-3 py-2 text-sm border border-luxury-300 rounded-lg focus:ring-2 focus:ring-accent-500 outline-none"
+              />
+              <button
+                onClick={handleSendLink}
+                disabled={isSending}
+                className="w-full py-2 rounded-lg text-sm font-bold text-white bg-accent-600 hover:bg-accent-500 disabled:opacity-50 flex justify-center"
+              >
+                {isSending ? <Spinner /> : 'Gửi Link Đăng Nhập'}
+              </button>
+              {error && <p className="text-xs text-red-500">{error}</p>}
+            </>
+          )}
+        </div>
+      )}
+
+      <ApiTokensPanel isOpen={isTokensOpen} onClose={() => setIsTokensOpen(false)} />
+    </div>
+  );
+};
@@ -0,0 +1,73 @@
+import React from 'react';
+import { PromptSection } from '../types';
+import { composeMasterPrompt } from '../services/geminiService';
+
+interface PromptInspectorProps {
+  sections: PromptSection[];
+  onChange: (sections: PromptSection[]) => void;
+  onRender: () => void;
+  onDiscard: () => void;
+  renderCost?: number; // Credits charged by onRender
+}
+
+/**
+ * Xem và chỉnh tay master prompt (dry run Step 0–1) trước khi render
+ */
+export const PromptInspector: React.FC<PromptInspectorProps> = ({ sections, onChange, onRender, onDiscard, renderCost }) => {
+  const masterPrompt = composeMasterPrompt(sections);
+
+  const handleSectionChange = (id: string, content: string) => {
+    onChange(sections.map(section => section.id === id ? { ...section, content } : section));
+  };
+
+  return (
+    <div className="h-full flex flex-col gap-4 p-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-serif font-bold text-luxury-900">Master Prompt</h3>
+        <span className="text-xs text-luxury-500">{masterPrompt.length.toLocaleString()} ký tự · để trống một phần để bỏ nó khỏi prompt</span>
+      </div>
+
+      <div className="flex flex-col gap-3 overflow-y-auto max-h-[460px] pr-1">
+        {sections.map(section => (
+          <div key={section.id} className="border border-luxury-100 rounded-lg p-3 bg-luxury-50/50">
+            <div className="flex items-center justify-between mb-1">
+              <label className="text-sm font-bold text-luxury-800">{section.title}</label>
+              <span className="text-[10px] font-mono text-luxury-400 truncate max-w-[50%]">{section.label}</span>
+            </div>
+            <textarea
+              className="w-full p-2 text-xs font-mono bg-white border border-luxury-200 rounded-md focus:ring-2 focus:ring-accent-500 outline-none resize-y min-h-[60px]"
+              value={section.content}
+              onChange={(e) => handleSectionChange(section.id, e.target.value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <details className="text-xs text-luxury-600">
+        <summary className="cursor-pointer font-bold">Prompt hoàn chỉnh gửi cho AI</summary>
+        <pre className="mt-2 p-3 bg-luxury-900 text-luxury-100 rounded-lg whitespace-pre-wrap max-h-[240px] overflow-y-auto">{masterPrompt}</pre>
+      </details>
+
+      <div className="flex gap-3">
+        <button
+          onClick={onDiscard}
+          className="px-6 py-3 rounded-lg font-bold text-luxury-800 border border-luxury-300 hover:bg-luxury-50 transition-colors"
+        >
+          Hủy Bản Nháp
+        </button>
+        <button
+          onClick={onRender}
+          disabled={!masterPrompt.trim()}
+          className={`flex-grow py-3 rounded-lg font-bold text-white tracking-widest shadow-lg transition-all
+            ${!masterPrompt.trim()
+              ? 'bg-luxury-300 cursor-not-allowed'
+              : 'bg-gradient-to-r from-accent-600 to-accent-500 hover:from-accent-500 hover:to-accent-400'
+            }
+          `}
+        >
+          RENDER VỚI PROMPT NÀY{renderCost !== undefined && ` (${renderCost} CREDITS)`}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,100 @@
+import React from 'react';
+import { QualityGateOptions, QualityGateReport, QualityGrade } from '../types';
+import { DEFAULT_QUALITY_GATE } from '../constants';
+
+interface QualityGateSettingsProps {
+  gate?: QualityGateOptions;
+  onChange: (gate: QualityGateOptions) => void;
+}
+
+/**
+ * Bật/tắt kiểm định chất lượng, ngưỡng điểm và cách chấm
+ */
+export const QualityGateSettings: React.FC<QualityGateSettingsProps> = ({ gate = DEFAULT_QUALITY_GATE, onChange }) => (
+  <div className="p-4 bg-luxury-50 rounded-xl border border-luxury-200 space-y-3">
+    <div className="flex items-center justify-between">
+      <div>
+        <span className="font-semibold block text-sm text-luxury-800">Kiểm Định Chất Lượng</span>
+        <small className="text-xs text-luxury-500">Chấm điểm bố cục, màu sắc, lỗi ảnh; dưới ngưỡng sẽ tự render lại phương án tốt nhất một lần</small>
+      </div>
+      <label className="relative inline-flex items-center cursor-pointer">
+        <input
+          type="checkbox"
+          className="sr-only peer"
+          checked={gate.enabled}
+          onChange={() => onChange({ ...gate, enabled: !gate.enabled })}
+        />
+        <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-blue-600"></div>
+      </label>
+    </div>
+
+    {gate.enabled && (
+      <>
+        <div>
+          <div className="flex justify-between text-xs text-luxury-700 mb-1">
+            <span>Ngưỡng điểm</span>
+            <span className="font-mono font-bold">{gate.threshold}/100</span>
+          </div>
+          <input
+            type="range"
+            min={40}
+            max={95}
+            step={5}
+            value={gate.threshold}
+            onChange={(e) => onChange({ ...gate, threshold: Number(e.target.value) })}
+            className="w-full accent-accent-500"
+          />
+        </div>
+        <div className="flex gap-2 text-xs font-bold">
+          {([['vision', 'AI Flash (có chấm lỗi ảnh)'], ['local', 'Đo cục bộ (miễn phí)']] as const).map(([method, label]) => (
+            <button
+              key={method}
+              onClick={() => onChange({ ...gate, method })}
+              className={`flex-1 py-2 rounded-lg border transition-colors ${gate.method === method
+                ? 'border-accent-500 bg-white text-accent-600'
+                : 'border-luxury-200 text-luxury-600 hover:bg-white'}`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </>
+    )}
+  </div>
+);
+
+const formatGrade = (grade: QualityGrade) =>
+  `Bố cục ${grade.layout} · Màu ${grade.color}${grade.artifacts !== null ? ` · Lỗi ảnh ${grade.artifacts}` : ''}`;
+
+interface QualityGateSummaryProps {
+  report: QualityGateReport;
+}
+
+/**
+ * Điểm kiểm định của lần đầu (và lần render lại nếu có) hiển thị cạnh kết quả
+ */
+export const QualityGateSummary: React.FC<QualityGateSummaryProps> = ({ report }) => {
+  const attempts = [
+    { title: 'Lần 1', grade: report.firstAttempt, isUsed: !report.usedRetry },
+    ...(report.retryAttempt ? [{ title: 'Lần 2 (sửa lỗi)', grade: report.retryAttempt, isUsed: report.usedRetry }] : []),
+  ];
+
+  return (
+    <div className="flex flex-col items-center gap-1 text-xs">
+      <span className="font-semibold text-luxury-700 uppercase tracking-wider">
+        Kiểm định chất lượng · ngưỡng {report.threshold}
+      </span>
+      {attempts.map(({ title, grade, isUsed }) => (
+        <div key={title} className={`flex items-center gap-2 ${isUsed ? 'text-luxury-900' : 'text-luxury-400'}`}>
+          <span className="font-bold">{title}:</span>
+          <span className={`font-mono font-bold ${grade.overall >= report.threshold ? 'text-green-600' : 'text-red-500'}`}>{grade.overall}</span>
+          <span>{formatGrade(grade)}</span>
+          {isUsed && <span className="text-[10px] font-bold text-accent-600">ĐANG HIỂN THỊ</span>}
+        </div>
+      ))}
+      {report.retryAttempt && !report.usedRetry && (
+        <span className="text-luxury-500 italic">Lần render lại không tốt hơn, giữ kết quả đầu tiên.</span>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { RenderRecipe } from '../types';
+import { WEDDING_CATEGORIES } from '../constants';
+import { Spinner } from './Spinner';
+import * as recipeService from '../services/recipeService';
+import { getOptionCatalog } from '../services/optionCatalog';
+
+interface RecipePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sourceFingerprint: string | null; // Fingerprint of the current source image, if any
+  onApply: (recipe: RenderRecipe) => void;
+}
+
+const labelOf = (options: { value: string; label: string }[], value: string) =>
+  options.find(o => o.value === value)?.label || value;
+
+const downloadJson = (content: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Duyệt, áp dụng, nhập/xuất công thức render
+ */
+export const RecipePanel: React.FC<RecipePanelProps> = ({ isOpen, onClose, sourceFingerprint, onApply }) => {
+  const [recipes, setRecipes] = useState<RenderRecipe[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      setRecipes(await recipeService.listRecipes());
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen]);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = recipeService.parseRecipeFile(await file.text());
+      for (const recipe of imported) {
+        await recipeService.saveRecipe(recipe);
+      }
+      await refresh();
+    } catch (err) {
+      console.error("Recipe import failed", err);
+      alert("File công thức không hợp lệ.");
+    }
+  };
+
+  const handleDelete = async (recipe: RenderRecipe) => {
+    if (!window.confirm(`Xóa công thức "${recipe.name}"?`)) return;
+    await recipeService.deleteRecipe(recipe.id);
+    setRecipes(prev => prev.filter(r => r.id !== recipe.id));
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-3xl max-h-[85vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-5 border-b border-luxury-100">
+          <h3 className="font-serif font-bold text-xl text-luxury-900">Công Thức Render</h3>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-1.5 rounded-full text-xs font-bold border border-luxury-300 text-luxury-800 hover:bg-luxury-50"
+            >
+              Nhập JSON
+            </button>
+            <button
+              onClick={() => downloadJson(recipeService.exportRecipes(recipes), 'luxzen-recipes.json')}
+              disabled={recipes.length === 0}
+              className="px-4 py-1.5 rounded-full text-xs font-bold border border-luxury-300 text-luxury-800 hover:bg-luxury-50 disabled:opacity-50"
+            >
+              Xuất tất cả
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-5">
+          {isLoading && <div className="flex justify-center py-10"><Spinner /></div>}
+          {!isLoading && recipes.length === 0 && (
+            <p className="text-sm text-luxury-400 italic text-center py-10">Chưa có công thức nào. Lưu một kết quả đẹp để dùng lại cấu hình của nó.</p>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {recipes.map(recipe => {
+              const isSameSource = recipe.sourceFingerprint === sourceFingerprint;
+              return (
+                <div key={recipe.id} className="border border-luxury-100 rounded-xl overflow-hidden flex flex-col">
+                  <div className="h-32 bg-luxury-100">
+                    {recipe.thumbnail && <img src={recipe.thumbnail} alt={recipe.name} className="w-full h-full object-cover" />}
+                  </div>
+                  <div className="p-3 flex flex-col gap-1 flex-grow">
+                    <p className="font-semibold text-luxury-900 truncate">{recipe.name}</p>
+                    <p className="text-xs text-luxury-500">
+                      {labelOf(WEDDING_CATEGORIES, recipe.options.category)} · {labelOf(getOptionCatalog().styles, recipe.options.style)} · {recipe.variantCount} bản
+                    </p>
+                    <p className="text-[10px] font-mono text-luxury-400 truncate" title={recipe.sourceFingerprint}>
+                      {recipe.models.image} · {recipe.sourceFingerprint.slice(0, 12)}
+                    </p>
+                    {isSameSource && <span className="text-[10px] font-bold text-green-600">Cùng ảnh gốc: dùng lại đúng master prompt</span>}
+                    <div className="flex gap-3 mt-auto pt-2 text-xs font-bold">
+                      <button onClick={() => onApply(recipe)} className="text-accent-600 hover:text-accent-500">Áp dụng</button>
+                      <button
+                        onClick={() => downloadJson(recipeService.exportRecipes([recipe]), `recipe-${recipe.id.slice(0, 8)}.json`)}
+                        className="text-luxury-600 hover:text-luxury-900"
+                      >
+                        Xuất
+                      </button>
+                      <button onClick={() => handleDelete(recipe)} className="text-luxury-400 hover:text-red-500">Xóa</button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useRef, useState } from 'react';
 import { FileData } from '../types';
+import { AUTO_PROMPT_INSTRUCTION } from '../constants';
 import { resizeAndCompressImage, generatePromptFromImageAndText } from '../services/geminiService'; 
 import { Spinner } from './Spinner'; // Giả định bạn đã có component này
 
@@ -47,8 +48,7 @@ export const RenderImageUpload: React.FC<RenderImageUploadProps> = ({
       // 3. TÍNH NĂNG TRAO QUYỀN: AI tự động phân tích không gian sự kiện
       if (onAutoPromptGenerated) {
         // Gửi lệnh đặc thù cho ngành Wedding/Event (Updated for Hidden Context)
-        const instruction = "Phân tích kiến trúc không gian này về màu sắc, ánh sáng và vật liệu gốc. Viết ngắn gọn dưới dạng prompt kỹ thuật.";
-        const autoPrompt = await generatePromptFromImageAndText(fileData, instruction);
+        const autoPrompt = await generatePromptFromImageAndText(fileData, AUTO_PROMPT_INSTRUCTION);
         onAutoPromptGenerated(autoPrompt);
       }
 
@@ -1,11 +1,14 @@
-import React, { useState } from 'react';
-import { SketchConverterProps } from '../types';
+import React, { useState, useRef } from 'react';
+import { SketchConverterProps, GenerationProgress, Tool, CreditReservation } from '../types';
 import * as geminiService from '../services/geminiService';
+import * as creditService from '../services/creditService';
+import * as pricing from '../services/pricing';
 import { Spinner } from './Spinner';
 import { ImageUpload } from './common/ImageUpload';
 import { ImageComparator } from './ImageComparator';
 import { OptionSelector } from './OptionSelector';
 import ImagePreviewModal from './common/ImagePreviewModal';
+import { GenerationStatus } from './common/GenerationStatus';
 
 const styleOptions = [
     { value: 'pencil', label: 'Bút chì (Classic)' },
@@ -14,49 +17,75 @@ const styleOptions = [
     { value: 'watercolor', label: 'Màu nước (Luxury)' },
 ];
 
-export const SketchConverter: React.FC<SketchConverterProps> = ({ state, onStateChange, userCredits = 0, onDeductCredits }) => {
+export const SketchConverter: React.FC<SketchConverterProps> = ({ state, onStateChange, userCredits = 0, onReserveCredits, onEnqueueJob }) => {
     const { sourceImage, isLoading, error, resultImage, sketchStyle } = state;
     const [previewImage, setPreviewImage] = useState<string | null>(null);
-    const [statusMessage, setStatusMessage] = useState<string | null>(null);
+    const [progress, setProgress] = useState<GenerationProgress | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
     const [isDownloading, setIsDownloading] = useState(false);
     
-    // Thiết lập mức giá cố định 10 Credits cho mô hình Gemini 2.5 Flash
-    const FLASH_COST = 10;
+    const cost = pricing.priceOf({ tool: Tool.SKETCH_CONVERTER, resolution: '1K' });
 
-    const handleGenerate = async () => {
-        if (onDeductCredits && userCredits < FLASH_COST) {
-             onStateChange({ error: `Số dư không đủ. Cần ${FLASH_COST} Credits để sử dụng Gemini 2.5 Flash.` });
-             return;
+    const canGenerate = (): boolean => {
+        if (onReserveCredits && userCredits < cost) {
+             onStateChange({ error: `Số dư không đủ. Cần ${cost} Credits để sử dụng Gemini 2.5 Flash.` });
+             return false;
         }
 
         if (!sourceImage) {
             onStateChange({ error: 'Vui lòng tải lên ảnh phối cảnh hoặc ảnh chụp không gian.' });
+            return false;
+        }
+        return true;
+    };
+
+    const handleEnqueue = async () => {
+        if (!canGenerate() || !sourceImage || !onEnqueueJob) return;
+        onStateChange({ error: null });
+        let reservation: CreditReservation | undefined;
+        try {
+            reservation = await onReserveCredits?.(cost, `Sketch Converter (Gemini 2.5 Flash) - Style: ${sketchStyle}`);
+        } catch {
             return;
         }
+        const styleLabel = styleOptions.find(o => o.value === sketchStyle)?.label || sketchStyle;
+        onEnqueueJob(`Phác thảo ${styleLabel}`, { tool: Tool.SKETCH_CONVERTER, sourceImage, sketchStyle, resolution: '1K' }, reservation);
+    };
+
+    const handleGenerate = async () => {
+        if (!canGenerate() || !sourceImage) return;
 
         onStateChange({ isLoading: true, error: null, resultImage: null });
-        setStatusMessage('Gemini 2.5 Flash đang phân tích...');
+        setProgress({ stage: 'sketching', message: 'Gemini 2.5 Flash đang phân tích...' });
+        const controller = new AbortController();
+        abortRef.current = controller;
+        let reservation: CreditReservation | undefined;
 
         try {
-            if (onDeductCredits) {
-                await onDeductCredits(FLASH_COST, `Sketch Converter (Gemini 2.5 Flash) - Style: ${sketchStyle}`);
-            }
+            reservation = await onReserveCredits?.(cost, `Sketch Converter (Gemini 2.5 Flash) - Style: ${sketchStyle}`);
 
             const resultUrl = await geminiService.generateSketch(
                 sourceImage.base64,
                 sourceImage.mimeType,
                 sketchStyle,
-                '1K'
+                '1K',
+                { signal: controller.signal, onProgress: setProgress, reservationId: reservation?.id }
             );
 
             onStateChange({ resultImage: resultUrl });
-            
+            creditService.confirmReservation(reservation);
         } catch (err: any) {
-            onStateChange({ error: "Không thể tạo bản phác thảo. Vui lòng thử lại sau." });
-            console.error(err);
+            creditService.releaseReservation(reservation);
+            if (geminiService.isAbortError(err)) {
+                onStateChange({ error: "Đã hủy tạo phác thảo." });
+            } else {
+                onStateChange({ error: "Không thể tạo bản phác thảo. Vui lòng thử lại sau." });
+                console.error(err);
+            }
         } finally {
+            abortRef.current = null;
             onStateChange({ isLoading: false });
-            setStatusMessage(null);
+            setProgress(null);
         }
     };
 
@@ -101,17 +130,26 @@ export const SketchConverter: React.FC<SketchConverterProps> = ({ state, onState
 
                     <button 
                         onClick={handleGenerate} 
-                        disabled={isLoading || !sourceImage || userCredits < FLASH_COST} 
+                        disabled={isLoading || !sourceImage || userCredits < cost} 
                         className={`w-full py-4 rounded-xl font-bold text-white transition-all shadow-lg active:scale-95 ${
                             isLoading ? 'bg-luxury-300' : 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700'
                         }`}
                     >
                         {isLoading ? (
                             <div className="flex items-center justify-center gap-2">
-                                <Spinner /> {statusMessage}
+                                <Spinner /> {progress?.message}
                             </div>
-                        ) : `Bắt đầu Render 3D Realism (10 Credits)`}
+                        ) : `Bắt đầu Render 3D Realism (${cost} Credits)`}
                     </button>
+                    {onEnqueueJob && (
+                        <button
+                            onClick={handleEnqueue}
+                            disabled={!sourceImage || userCredits < cost}
+                            className="w-full py-2 rounded-xl text-sm font-bold border border-indigo-300 text-indigo-700 hover:bg-indigo-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Thêm vào hàng đợi ({cost} Credits)
+                        </button>
+                    )}
                     
                     {error && <div className="p-3 bg-red-50 text-red-600 rounded-lg text-xs border border-red-100">{error}</div>}
                 </div>
@@ -148,7 +186,7 @@ export const SketchConverter: React.FC<SketchConverterProps> = ({ state, onState
                                         <div className="absolute inset-0 rounded-full blur-xl bg-purple-400/30 animate-pulse"></div>
                                         <Spinner />
                                     </div>
-                                    <p className="font-medium animate-pulse">{statusMessage}</p>
+                                    <GenerationStatus progress={progress} onCancel={() => abortRef.current?.abort()} />
                                 </div>
                             ) : (
                                 <>
@@ -1,57 +1,91 @@
-import React from 'react';
-import { FileData, UpscaleState, UpscaleProps } from '../types';
+import React, { useState, useRef } from 'react';
+import { FileData, UpscaleState, UpscaleProps, GenerationProgress, Tool, CreditReservation } from '../types';
 import { Spinner } from './Spinner';
 import { ImageUpload } from './common/ImageUpload';
 import { ImageComparator } from './ImageComparator'; // Reuse existing ImageComparator
 import { ResolutionSelector } from './common/ResolutionSelector'; // Add this import
 import * as geminiService from '../services/geminiService'; // Import geminiService
+import * as creditService from '../services/creditService';
+import * as pricing from '../services/pricing';
+import { GenerationStatus } from './common/GenerationStatus';
+
+// PROMPT CHIẾN THUẬT: Tập trung vào "Faithful Reconstruction" (Tái tạo trung thực)
+const STRICT_UPSCALE_PROMPT = `
+    TASK: HIGH-FIDELITY PHOTOREALISTIC UPSCALING.
+    ENHANCE the provided image to a hyper-realistic, high-definition 8k render.
+    STRICTLY preserve ALL existing structural elements, details, colors, textures, and lighting.
+    Focus on refining surface realism, adding subtle nuances to materials like fabrics, metals, and florals, and deepening volumetric lighting effects without altering the original composition or aesthetic.
+    The goal is to elevate visual fidelity, not to re-interpret or hallucinate new elements for the design.
+    Output Style: 8k photorealistic, cinematic quality.
+`;
 
 // --- MAIN COMPONENT ---
-const Upscale: React.FC<UpscaleProps> = ({ state, onStateChange, userCredits = 0, onDeductCredits, onReset }) => {
+const Upscale: React.FC<UpscaleProps> = ({ state, onStateChange, userCredits = 0, onReserveCredits, onReset, onEnqueueJob }) => {
     const { sourceImage, isLoading, error, upscaledImages, resolution } = state;
+    const [progress, setProgress] = useState<GenerationProgress | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const cost = pricing.priceOf({ tool: Tool.UPSCALE, resolution });
 
-    const handleUpscale = async () => {
-        const cost = resolution === '4K' ? 30 : 20; // Corrected cost logic
+    const canUpscale = (): boolean => {
         if (userCredits < cost) {
             onStateChange({ error: `Bạn cần thêm ${cost - userCredits} Credits.` });
-            return;
+            return false;
         }
 
         if (!sourceImage || !sourceImage.base64 || !sourceImage.mimeType) {
             onStateChange({ error: "Vui lòng tải ảnh gốc lên để nâng cấp." });
+            return false;
+        }
+        return true;
+    };
+
+    const handleEnqueue = async () => {
+        if (!canUpscale() || !sourceImage || !onEnqueueJob) return;
+        onStateChange({ error: null });
+        let reservation: CreditReservation | undefined;
+        try {
+            reservation = await onReserveCredits?.(cost, `Strict Upscale ${resolution}`);
+        } catch {
             return;
         }
+        onEnqueueJob(`Nâng cấp ${resolution}`, { tool: Tool.UPSCALE, sourceImage, prompt: STRICT_UPSCALE_PROMPT, resolution }, reservation);
+    };
+
+    const handleUpscale = async () => {
+        if (!canUpscale() || !sourceImage) return;
         onStateChange({ isLoading: true, error: null });
+        const controller = new AbortController();
+        abortRef.current = controller;
+        let reservation: CreditReservation | undefined;
 
         try {
-            await onDeductCredits?.(cost, `Strict Upscale ${resolution}`);
-
-            // PROMPT CHIẾN THUẬT: Tập trung vào "Faithful Reconstruction" (Tái tạo trung thực)
-            const strictPrompt = `
-                TASK: HIGH-FIDELITY PHOTOREALISTIC UPSCALING.
-                ENHANCE the provided image to a hyper-realistic, high-definition 8k render.
-                STRICTLY preserve ALL existing structural elements, details, colors, textures, and lighting.
-                Focus on refining surface realism, adding subtle nuances to materials like fabrics, metals, and florals, and deepening volumetric lighting effects without altering the original composition or aesthetic.
-                The goal is to elevate visual fidelity, not to re-interpret or hallucinate new elements for the design.
-                Output Style: 8k photorealistic, cinematic quality.
-            `;
+            reservation = await onReserveCredits?.(cost, `Strict Upscale ${resolution}`);
 
             const result = await geminiService.generateHighQualityImage(
-                strictPrompt, 
+                STRICT_UPSCALE_PROMPT, 
                 resolution, 
                 { // Pass the sourceImage details directly
                   mimeType: sourceImage.mimeType, 
                   base64: sourceImage.base64,
                   width: sourceImage.width,
                   height: sourceImage.height
-                }
+                },
+                { signal: controller.signal, onProgress: setProgress, reservationId: reservation?.id }
             );
 
             onStateChange({ upscaledImages: [result[0]] });
+            creditService.confirmReservation(reservation);
         } catch (err: any) {
-            onStateChange({ error: "Quá trình nâng cấp gặp sự cố. Vui lòng thử lại sau." });
-            console.error(err);
+            creditService.releaseReservation(reservation);
+            if (geminiService.isAbortError(err)) {
+                onStateChange({ error: "Đã hủy nâng cấp." });
+            } else {
+                onStateChange({ error: "Quá trình nâng cấp gặp sự cố. Vui lòng thử lại sau." });
+                console.error(err);
+            }
         } finally {
+            abortRef.current = null;
+            setProgress(null);
             onStateChange({ isLoading: false });
         }
     };
@@ -80,7 +114,7 @@ const Upscale: React.FC<UpscaleProps> = ({ state, onStateChange, userCredits = 0
                     </div>
 
                     <div className="flex justify-between items-center p-3 bg-luxury-50 rounded-lg border border-luxury-100">
-                        <span className="text-sm text-luxury-800">Phí: <b className="text-accent-600">{resolution === '4K' ? 30 : 20} Credits</b></span>
+                        <span className="text-sm text-luxury-800">Phí: <b className="text-accent-600">{cost} Credits</b></span>
                         <span className="text-sm text-luxury-500">Số dư: {userCredits}</span>
                     </div>
 
@@ -94,8 +128,17 @@ const Upscale: React.FC<UpscaleProps> = ({ state, onStateChange, userCredits = 0
                               }
                         `}
                     >
-                        {isLoading ? <Spinner /> : `NÂNG CẤP ( -${resolution === '4K' ? 30 : 20} CREDITS )`}
+                        {isLoading ? <Spinner /> : `NÂNG CẤP ( -${cost} CREDITS )`}
                     </button>
+                    {onEnqueueJob && (
+                        <button
+                            onClick={handleEnqueue}
+                            disabled={!sourceImage}
+                            className="w-full py-2 px-6 rounded-lg text-sm font-bold tracking-wide border border-purple-300 text-purple-700 hover:bg-purple-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Thêm vào hàng đợi ({cost} Credits)
+                        </button>
+                    )}
                     {error && <p className="text-red-500 text-xs text-center mt-2">{error}</p>}
                 </div>
 
@@ -126,7 +169,12 @@ const Upscale: React.FC<UpscaleProps> = ({ state, onStateChange, userCredits = 0
                         </div>
                     ) : (
                         <div className="w-full h-full border-2 border-dashed border-luxury-300 rounded-xl flex flex-col items-center justify-center text-luxury-500 bg-luxury-50/50">
-                            {isLoading ? <Spinner /> : (
+                            {isLoading ? (
+                                <div className="flex flex-col items-center gap-4">
+                                    <Spinner />
+                                    <GenerationStatus progress={progress} onCancel={() => abortRef.current?.abort()} />
+                                </div>
+                            ) : (
                                 <>
                                     <div className="text-5xl mb-4">✨</div>
                                     <p className="text-lg font-serif italic">Kết quả so sánh sẽ hiển thị tại đây</p>
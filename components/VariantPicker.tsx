@@ -0,0 +1,53 @@
+import React from 'react';
+import { Spinner } from './Spinner';
+
+interface VariantPickerProps {
+  variants: string[];
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+  onConfirm: () => void;
+  isSaving: boolean;
+}
+
+export const VariantPicker: React.FC<VariantPickerProps> = ({ variants, selectedIndex, onSelect, onConfirm, isSaving }) => {
+  return (
+    <div className="h-full flex flex-col gap-4 p-2">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-serif font-bold text-luxury-900">Chọn phương án đẹp nhất</h3>
+        <span className="text-xs text-luxury-500">{variants.length} phương án từ cùng một master prompt</span>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 flex-grow">
+        {variants.map((variant, index) => (
+          <button
+            key={index}
+            onClick={() => onSelect(index)}
+            className={`relative rounded-xl overflow-hidden bg-black border-4 transition-all ${
+              selectedIndex === index ? 'border-accent-500 shadow-xl' : 'border-transparent hover:border-luxury-300'
+            }`}
+          >
+            <img src={variant} alt={`Phương án ${index + 1}`} className="w-full h-full max-h-[280px] object-contain" />
+            <span className={`absolute top-3 left-3 px-3 py-1 rounded-full text-xs font-bold ${
+              selectedIndex === index ? 'bg-accent-500 text-white' : 'bg-white/90 text-luxury-800'
+            }`}>
+              {selectedIndex === index ? `✓ Phương án ${index + 1}` : `Phương án ${index + 1}`}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      <button
+        onClick={onConfirm}
+        disabled={selectedIndex === null || isSaving}
+        className={`w-full py-3 rounded-lg font-bold text-white tracking-widest shadow-lg transition-all
+          ${selectedIndex === null || isSaving
+            ? 'bg-luxury-300 cursor-not-allowed'
+            : 'bg-gradient-to-r from-accent-600 to-accent-500 hover:from-accent-500 hover:to-accent-400'
+          }
+        `}
+      >
+        {isSaving ? <Spinner /> : 'CHỌN PHƯƠNG ÁN NÀY'}
+      </button>
+    </div>
+  );
+};
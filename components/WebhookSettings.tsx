@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from 'react';
+import { Tool, WebhookDelivery, WebhookDeliveryStatus, WebhookEvent, WebhookSubscription } from '../types';
+import { Spinner } from './Spinner';
+import * as webhookService from '../services/webhookService';
+
+interface WebhookSettingsProps {
+  workspaceId: string;
+}
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  'job.succeeded': 'Job hoàn tất',
+  'job.failed': 'Job lỗi',
+};
+
+const TOOL_LABELS: Record<Tool, string> = {
+  [Tool.RENDER]: 'Render 3D',
+  [Tool.UPSCALE]: 'Nâng Cấp AI',
+  [Tool.ADVANCED_EDIT]: 'Chỉnh Sửa AI',
+  [Tool.SKETCH_CONVERTER]: 'Phác Thảo',
+  [Tool.IDEA_GENERATOR]: 'Ý Tưởng',
+};
+
+const DELIVERY_STYLES: Record<WebhookDeliveryStatus, { label: string; className: string }> = {
+  pending: { label: 'Đang thử lại', className: 'bg-amber-100 text-amber-700' },
+  succeeded: { label: 'Đã gửi', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'Thất bại', className: 'bg-red-100 text-red-700' },
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString('vi-VN', { dateStyle: 'short', timeStyle: 'short' });
+
+/**
+ * Webhook của workspace (chỉ chủ sở hữu): đăng ký URL nhận kết quả job và xem nhật ký gửi
+ */
+export const WebhookSettings: React.FC<WebhookSettingsProps> = ({ workspaceId }) => {
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [url, setUrl] = useState('');
+  const [events, setEvents] = useState<WebhookEvent[]>(['job.succeeded', 'job.failed']);
+  const [tools, setTools] = useState<Tool[]>([]);
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    setIsLoading(true);
+    try {
+      const [subs, log] = await Promise.all([
+        webhookService.listSubscriptions(workspaceId),
+        webhookService.listDeliveries(workspaceId),
+      ]);
+      setSubscriptions(subs);
+      setDeliveries(log);
+    } catch (e) {
+      console.error("Failed to load webhooks", e);
+      setError("Không tải được webhook.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    setError(null);
+    refresh();
+  }, [workspaceId]);
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+      await refresh();
+    } catch (e) {
+      console.error("Webhook action failed", e);
+      setError(failure);
+    }
+  };
+
+  const toggle = <T,>(list: T[], value: T): T[] => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+
+  const handleCreate = () => {
+    const invalidUrl = webhookService.validateWebhookUrl(url);
+    if (invalidUrl) {
+      setError(invalidUrl);
+      return;
+    }
+    if (events.length === 0) {
+      setError("Chọn ít nhất một sự kiện.");
+      return;
+    }
+    runAction(async () => {
+      const created = await webhookService.createSubscription(workspaceId, url, events, tools.length > 0 ? tools : null);
+      setRevealedId(created.id);
+      setUrl('');
+    }, "Không tạo được webhook.");
+  };
+
+  const handleDelete = (subscription: WebhookSubscription) => {
+    if (!confirm(`Xóa webhook ${subscription.url}? Nhật ký gửi của webhook này cũng bị xóa.`)) return;
+    runAction(() => webhookService.deleteSubscription(subscription.id), "Không xóa được webhook.");
+  };
+
+  const subscriptionUrl = (id: string) => subscriptions.find(s => s.id === id)?.url ?? '(đã xóa)';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h4 className="text-xs font-bold text-luxury-500 uppercase">Webhook</h4>
+        <button onClick={refresh} className="text-xs text-accent-600 hover:text-accent-500">Làm mới</button>
+      </div>
+      <p className="text-xs text-luxury-500">
+        Khi job nền của workspace hoàn tất hoặc lỗi, server gửi POST JSON có chữ ký tới các URL bên dưới. Xem README mục "Webhooks".
+      </p>
+
+      {isLoading && subscriptions.length === 0 && <div className="flex justify-center py-4"><Spinner /></div>}
+      <ul className="divide-y divide-luxury-100">
+        {subscriptions.map(s => (
+          <li key={s.id} className="py-2 space-y-1">
+            <div className="flex items-center gap-3">
+              <div className="min-w-0 flex-grow">
+                <p className={`text-sm truncate ${s.enabled ? 'text-luxury-900' : 'text-luxury-400 line-through'}`}>{s.url}</p>
+                <p className="text-[11px] text-luxury-400">
+                  {s.events.map(e => EVENT_LABELS[e]).join(', ')} · {s.tools ? s.tools.map(t => TOOL_LABELS[t]).join(', ') : 'Mọi công cụ'}
+                </p>
+              </div>
+              <button
+                onClick={() => setRevealedId(revealedId === s.id ? null : s.id)}
+                className="text-xs text-luxury-500 hover:text-luxury-700 whitespace-nowrap"
+              >
+                {revealedId === s.id ? 'Ẩn secret' : 'Secret'}
+              </button>
+              <button
+                onClick={() => runAction(() => webhookService.setSubscriptionEnabled(s.id, !s.enabled), "Không cập nhật được webhook.")}
+                className="text-xs text-accent-600 hover:text-accent-500 whitespace-nowrap"
+              >
+                {s.enabled ? 'Tạm dừng' : 'Bật lại'}
+              </button>
+              <button onClick={() => handleDelete(s)} className="text-xs text-red-500 hover:text-red-600">Xóa</button>
+            </div>
+            {revealedId === s.id && (
+              <code className="block text-[11px] bg-luxury-50 border border-luxury-200 rounded px-2 py-1 break-all select-all">{s.secret}</code>
+            )}
+          </li>
+        ))}
+        {!isLoading && subscriptions.length === 0 && <li className="py-2 text-xs text-luxury-400">Chưa có webhook.</li>}
+      </ul>
+
+      <div className="space-y-2 pt-2 border-t border-luxury-100">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="https://crm.studio.vn/hooks/luxerender"
+          className="w-full px-3 py-2 text-sm border border-luxury-300 rounded-lg focus:ring-2 focus:ring-accent-500 outline-none"
+        />
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-luxury-700">
+          {(Object.keys(EVENT_LABELS) as WebhookEvent[]).map(event => (
+            <label key={event} className="flex items-center gap-1">
+              <input type="checkbox" checked={events.includes(event)} onChange={() => setEvents(toggle(events, event))} />
+              {EVENT_LABELS[event]}
+            </label>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-luxury-700">
+          {(Object.values(Tool) as Tool[]).map(tool => (
+            <label key={tool} className="flex items-center gap-1">
+              <input type="checkbox" checked={tools.includes(tool)} onChange={() => setTools(toggle(tools, tool))} />
+              {TOOL_LABELS[tool]}
+            </label>
+          ))}
+          <span className="text-luxury-400">(không chọn = mọi công cụ)</span>
+        </div>
+        <button
+          onClick={handleCreate}
+          disabled={!url.trim()}
+          className="px-4 py-2 rounded-lg text-sm font-bold text-white bg-accent-600 hover:bg-accent-500 disabled:opacity-50"
+        >
+          Thêm webhook
+        </button>
+      </div>
+
+      <div className="space-y-2 pt-2 border-t border-luxury-100">
+        <h4 className="text-xs font-bold text-luxury-500 uppercase">Nhật ký gửi</h4>
+        {deliveries.length === 0 ? (
+          <p className="text-xs text-luxury-400">Chưa có lần gửi nào.</p>
+        ) : (
+          <ul className="divide-y divide-luxury-100">
+            {deliveries.map(d => (
+              <li key={d.id} className="py-2 flex items-start gap-3 text-xs">
+                <span className={`px-2 py-0.5 rounded-full font-bold whitespace-nowrap ${DELIVERY_STYLES[d.status].className}`}>
+                  {DELIVERY_STYLES[d.status].label}
+                </span>
+                <div className="min-w-0 flex-grow">
+                  <p className="text-luxury-900 truncate">{EVENT_LABELS[d.event]} · job {d.jobId.slice(0, 8)} → {subscriptionUrl(d.subscriptionId)}</p>
+                  <p className="text-luxury-400">
+                    {formatTime(d.createdAt)} · {d.attempts} lần thử
+                    {d.lastStatusCode !== null && ` · HTTP ${d.lastStatusCode}`}
+                    {d.lastError && d.status !== 'succeeded' && ` · ${d.lastError}`}
+                    {d.status === 'pending' && d.nextAttemptAt && ` · thử lại lúc ${formatTime(d.nextAttemptAt)}`}
+                  </p>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  );
+};
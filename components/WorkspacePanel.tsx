@@ -0,0 +1,242 @@
+import React, { useEffect, useState } from 'react';
+import { Workspace, WorkspaceMember, WorkspaceRole } from '../types';
+import { Spinner } from './Spinner';
+import { WebhookSettings } from './WebhookSettings';
+import * as workspaceService from '../services/workspaceService';
+
+interface WorkspacePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeWorkspace: Workspace | null;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Chủ sở hữu',
+  designer: 'Designer',
+  viewer: 'Người xem',
+};
+
+const parseLimit = (value: string): number | null => {
+  const limit = parseInt(value, 10);
+  return Number.isFinite(limit) && limit >= 0 ? limit : null;
+};
+
+/**
+ * Chọn không gian làm việc (cá nhân / workspace của studio), tạo workspace và quản lý thành viên
+ */
+export const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ isOpen, onClose, activeWorkspace }) => {
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('designer');
+  const [inviteLimit, setInviteLimit] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const isOwner = activeWorkspace?.role === 'owner';
+
+  const refreshMembers = async () => {
+    if (!activeWorkspace) {
+      setMembers([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setMembers(await workspaceService.listMembers(activeWorkspace.id));
+    } catch (e) {
+      console.error("Failed to load workspace members", e);
+      setError("Không tải được danh sách thành viên.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError(null);
+    refreshMembers();
+  }, [isOpen, activeWorkspace?.id]);
+
+  if (!isOpen) return null;
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    setError(null);
+    try {
+      await action();
+      await refreshMembers();
+    } catch (e) {
+      console.error("Workspace action failed", e);
+      setError(failure);
+    }
+  };
+
+  const handleCreate = () => runAction(async () => {
+    if (!newName.trim()) return;
+    const created = await workspaceService.createWorkspace(newName);
+    workspaceService.setActiveWorkspace(created.id);
+    setNewName('');
+  }, "Không tạo được workspace.");
+
+  const handleInvite = () => runAction(async () => {
+    if (!activeWorkspace) return;
+    if (!/^\S+@\S+\.\S+$/.test(inviteEmail.trim())) {
+      setError("Email không hợp lệ.");
+      return;
+    }
+    await workspaceService.inviteMember(activeWorkspace.id, inviteEmail, inviteRole, parseLimit(inviteLimit));
+    setInviteEmail('');
+    setInviteLimit('');
+  }, "Không mời được thành viên (email có thể đã có trong workspace).");
+
+  const workspaces = workspaceService.getWorkspaces();
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[85vh] flex flex-col shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-5 border-b border-luxury-100">
+          <div>
+            <h3 className="font-serif font-bold text-xl text-luxury-900">Workspace</h3>
+            <p className="text-sm text-luxury-500">Workspace dùng chung quỹ credit, preset và lịch sử render cho cả studio.</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 18L18 6M6 6l12 12"/></svg>
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-5 space-y-6">
+          {!workspaceService.isWorkspaceAvailable() ? (
+            <p className="text-sm text-luxury-500">Đăng nhập để tạo hoặc tham gia workspace của studio.</p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <label className="block text-xs font-bold text-luxury-500 uppercase">Đang làm việc trong</label>
+                <select
+                  value={activeWorkspace?.id || ''}
+                  onChange={(e) => workspaceService.setActiveWorkspace(e.target.value || null)}
+                  className="w-full px-3 py-2 text-sm border border-luxury-300 rounded-lg focus:ring-2 focus:ring-accent-500 outline-none bg-white"
+                >
+                  <option value="">Cá nhân</option>
+                  {workspaces.map(w => (
+                    <option key={w.id} value={w.id}>{w.name} ({ROLE_LABELS[w.role]})</option>
+                  ))}
+                </select>
+                <div className="flex gap-2">
+                  <input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+                    placeholder="Tên workspace mới"
+                    className="flex-grow px-3 py-2 text-sm border border-luxury-300 rounded-lg focus:ring-2 focus:ring-accent-500 outline-none"
+                  />
+                  <button
+                    onClick={handleCreate}
+                    disabled={!newName.trim()}
+                    className="px-4 py-2 rounded-lg text-sm font-bold text-white bg-accent-600 hover:bg-accent-500 disabled:opacity-50"
+                  >
+                    Tạo
+                  </button>
+                </div>
+              </div>
+
+              {activeWorkspace && (
+                <div className="space-y-3">
+                  <h4 className="text-xs font-bold text-luxury-500 uppercase">Thành viên</h4>
+                  {isLoading && members.length === 0 && <div className="flex justify-center py-4"><Spinner /></div>}
+                  <ul className="divide-y divide-luxury-100">
+                    {members.map(m => (
+                      <li key={m.email} className="flex items-center gap-3 py-2">
+                        <div className="min-w-0 flex-grow">
+                          <p className="text-sm text-luxury-900 truncate">{m.email}</p>
+                          {!m.userId && <p className="text-[11px] text-luxury-400">Chưa nhận lời mời</p>}
+                        </div>
+                        {isOwner && m.role !== 'owner' ? (
+                          <>
+                            <select
+                              value={m.role}
+                              onChange={(e) => runAction(
+                                () => workspaceService.updateMember(activeWorkspace.id, m.email, { role: e.target.value as WorkspaceRole }),
+                                "Không đổi được vai trò."
+                              )}
+                              className="px-2 py-1 text-xs border border-luxury-300 rounded-lg bg-white"
+                            >
+                              <option value="designer">{ROLE_LABELS.designer}</option>
+                              <option value="viewer">{ROLE_LABELS.viewer}</option>
+                            </select>
+                            <input
+                              type="number"
+                              min={0}
+                              defaultValue={m.spendingLimit ?? ''}
+                              onBlur={(e) => {
+                                const limit = parseLimit(e.target.value);
+                                if (limit !== m.spendingLimit) {
+                                  runAction(
+                                    () => workspaceService.updateMember(activeWorkspace.id, m.email, { spendingLimit: limit }),
+                                    "Không lưu được hạn mức."
+                                  );
+                                }
+                              }}
+                              placeholder="Không giới hạn"
+                              title="Hạn mức credit mỗi tháng"
+                              className="w-28 px-2 py-1 text-xs border border-luxury-300 rounded-lg"
+                            />
+                            <button
+                              onClick={() => runAction(() => workspaceService.removeMember(activeWorkspace.id, m.email), "Không xóa được thành viên.")}
+                              className="text-xs text-red-500 hover:text-red-600"
+                            >
+                              Xóa
+                            </button>
+                          </>
+                        ) : (
+                          <span className="text-xs text-luxury-500 whitespace-nowrap">
+                            {ROLE_LABELS[m.role]}{m.spendingLimit !== null ? ` · ${m.spendingLimit} Credits/tháng` : ''}
+                          </span>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+
+                  {isOwner && (
+                    <div className="flex flex-wrap gap-2 pt-2 border-t border-luxury-100">
+                      <input
+                        type="email"
+                        value={inviteEmail}
+                        onChange={(e) => setInviteEmail(e.target.value)}
+                        placeholder="email@studio.vn"
+                        className="flex-grow min-w-[12rem] px-3 py-2 text-sm border border-luxury-300 rounded-lg focus:ring-2 focus:ring-accent-500 outline-none"
+                      />
+                      <select
+                        value={inviteRole}
+                        onChange={(e) => setInviteRole(e.target.value as WorkspaceRole)}
+                        className="px-2 py-2 text-sm border border-luxury-300 rounded-lg bg-white"
+                      >
+                        <option value="designer">{ROLE_LABELS.designer}</option>
+                        <option value="viewer">{ROLE_LABELS.viewer}</option>
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        value={inviteLimit}
+                        onChange={(e) => setInviteLimit(e.target.value)}
+                        placeholder="Hạn mức/tháng"
+                        className="w-32 px-3 py-2 text-sm border border-luxury-300 rounded-lg"
+                      />
+                      <button
+                        onClick={handleInvite}
+                        className="px-4 py-2 rounded-lg text-sm font-bold text-white bg-accent-600 hover:bg-accent-500"
+                      >
+                        Mời
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {activeWorkspace && isOwner && <WebhookSettings workspaceId={activeWorkspace.id} />}
+            </>
+          )}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import React from 'react';
+import { FidelityScores } from '../../types';
+import { FIDELITY_GOOD_THRESHOLD, FIDELITY_WARNING_THRESHOLD } from '../../constants';
+
+interface FidelityScorePanelProps {
+  scores: FidelityScores | null;
+  isScoring?: boolean;
+}
+
+const barColor = (score: number) =>
+  score >= FIDELITY_GOOD_THRESHOLD ? 'bg-green-500' : score >= FIDELITY_WARNING_THRESHOLD ? 'bg-amber-500' : 'bg-red-500';
+
+/**
+ * Hiển thị điểm trung thực bố cục / màu sắc của bản render so với ảnh gốc
+ */
+export const FidelityScorePanel: React.FC<FidelityScorePanelProps> = ({ scores, isScoring = false }) => {
+  if (!scores && !isScoring) return null;
+
+  const rows = scores
+    ? [
+        { label: 'Bố cục', hint: 'Mức giữ nguyên đường nét, vị trí vật thể của ảnh gốc', value: scores.layout },
+        { label: 'Màu sắc', hint: 'Mức khớp phân bố màu với ảnh gốc', value: scores.color },
+      ]
+    : [];
+
+  return (
+    <div className="flex items-center justify-center gap-6 px-4">
+      {isScoring && !scores && <span className="text-xs text-luxury-400 italic">Đang chấm điểm độ trung thực...</span>}
+      {rows.map(row => (
+        <div key={row.label} className="flex items-center gap-2" title={row.hint}>
+          <span className="text-xs font-semibold text-luxury-700 uppercase tracking-wider">{row.label}</span>
+          <div className="w-24 h-1.5 bg-luxury-100 rounded-full overflow-hidden">
+            <div className={`h-full ${barColor(row.value)}`} style={{ width: `${row.value}%` }} />
+          </div>
+          <span className="text-xs font-bold text-luxury-900 w-8">{row.value}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
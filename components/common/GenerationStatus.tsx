@@ -0,0 +1,51 @@
+import React from 'react';
+import { GenerationProgress } from '../../types';
+
+interface GenerationStatusProps {
+  progress: GenerationProgress | null;
+  onCancel?: () => void;
+  fallbackMessage?: string;
+  tone?: 'light' | 'dark';
+}
+
+/**
+ * Hiển thị tiến trình của một lệnh gọi AI kèm nút Hủy
+ */
+export const GenerationStatus: React.FC<GenerationStatusProps> = ({
+  progress,
+  onCancel,
+  fallbackMessage = "Đang xử lý...",
+  tone = 'light'
+}) => {
+  const isRetry = progress?.stage === 'retry';
+
+  return (
+    <div className="flex flex-col items-center gap-3 text-center">
+      <p className={`text-sm font-medium ${
+        isRetry ? 'text-amber-600' : tone === 'dark' ? 'text-white' : 'text-luxury-600'
+      }`}>
+        {progress?.message || fallbackMessage}
+      </p>
+      {isRetry && progress?.attempt && progress?.maxAttempts && (
+        <div className="w-48 h-1.5 bg-luxury-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-amber-500 transition-all"
+            style={{ width: `${(progress.attempt / progress.maxAttempts) * 100}%` }}
+          />
+        </div>
+      )}
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className={`px-5 py-1.5 rounded-full text-xs font-bold border transition-colors ${
+            tone === 'dark'
+              ? 'border-white/40 text-white hover:bg-white/10'
+              : 'border-luxury-300 text-luxury-800 hover:bg-luxury-50'
+          }`}
+        >
+          Hủy
+        </button>
+      )}
+    </div>
+  );
+};
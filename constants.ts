@@ -1,4 +1,4 @@
-import { OptionItem } from './types';
+import { OptionItem, PricingTable, QualityGateOptions, RenderOptions } from './types';
 
 export const WEDDING_CATEGORIES: OptionItem[] = [
   { value: 'none', label: 'Tự động (AI đề xuất)', description: 'AI tự phân tích ảnh để xác định hạng mục (Sân khấu, Cổng chào, v.v.)' },
@@ -71,6 +71,61 @@ export const SKETCH_STYLES: OptionItem[] = [
   { value: 'watercolor', label: 'Màu Nước (Sáng tạo)', description: 'Màu sắc nhẹ nhàng, loang màu nghệ thuật' },
 ];
 
+// Số biến thể tối đa cho một lần render (cùng một master prompt)
+export const MAX_RENDER_VARIANTS = 4;
+
+export const RENDER_VARIANT_OPTIONS: OptionItem[] = [
+  { value: '1', label: '1 bản', description: 'Một kết quả duy nhất' },
+  { value: '2', label: '2 bản', description: 'Tạo 2 phương án để chọn bản đẹp nhất' },
+  { value: '3', label: '3 bản', description: 'Tạo 3 phương án để chọn bản đẹp nhất' },
+  { value: '4', label: '4 bản', description: 'Tạo 4 phương án để chọn bản đẹp nhất' },
+];
+
+// Ngưỡng điểm trung thực (0–100): dưới WARNING là đáng lo, từ GOOD trở lên là tốt
+export const FIDELITY_WARNING_THRESHOLD = 60;
+export const FIDELITY_GOOD_THRESHOLD = 80;
+
+// Kiểm định chất lượng mặc định: render lại một lần nếu điểm tổng dưới ngưỡng
+export const DEFAULT_QUALITY_GATE: QualityGateOptions = { enabled: false, threshold: 70, method: 'vision' };
+
+// Lựa chọn ban đầu của tab Render; REST API gộp options của request lên trên
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  category: WEDDING_CATEGORIES[0].value,
+  style: WEDDING_STYLES[0].value,
+  colorPalette: COLOR_PALETTES[0].value,
+  surfaceMaterial: SURFACE_MATERIALS[0].value,
+  textileMaterial: TEXTILE_MATERIALS[0].value,
+  textileColor1: TEXTILE_COLORS[0].value,
+  textileColor2: TEXTILE_COLORS[0].value,
+  additionalPrompt: '',
+  hiddenAIContext: '',
+  isAutoFocus: true,
+  cameraPreset: 'CINEMATIC',
+};
+
+// Số job chạy song song mặc định trong hàng đợi nền
+export const DEFAULT_JOB_CONCURRENCY = 2;
+
+export const JOB_CONCURRENCY_OPTIONS: OptionItem[] = [
+  { value: '1', label: '1 job' },
+  { value: '2', label: '2 job' },
+  { value: '3', label: '3 job' },
+  { value: '4', label: '4 job' },
+];
+
+// Số credit tặng khi người dùng mở ứng dụng lần đầu (giao dịch 'welcome' trong sổ cái)
+export const INITIAL_CREDITS = 100;
+
+// Bảng giá mặc định (credit), có thể ghi đè bằng /pricing.json
+export const DEFAULT_PRICING: PricingTable = {
+  render: { perVariant: 15, qualityGate: 5, analysis: 5 },
+  upscale: { '1K': 20, '2K': 20, '4K': 30 },
+  advancedEdit: { NOTE: 35, SWAP: 35, MASK: 35, REMOVE: 35 },
+  detection: 5,
+  sketch: { '1K': 10, '2K': 10, '4K': 10 },
+  ideaGenerator: 40,
+};
+
 export const SAMPLE_IMAGE_URL = "https://picsum.photos/800/600";
 
 // --- Cấu hình Tham số Nhiếp ảnh ---
@@ -97,4 +152,7 @@ export const STRUCTURE_FIDELITY_PROMPT =
   "STRICTLY MAINTAIN the original layout, object positions, and camera angle. DO NOT add, move, or remove any structural elements. Focus ONLY on enhancing textures, materials, and realistic lighting.";
 
 export const REALISM_MODIFIERS = 
-  "photorealistic, 8k resolution, ray-tracing, unreal engine 5 style, highly detailed silk and floral textures, professional color grading, shot on Sony A7R IV";
\ No newline at end of file
+  "photorealistic, 8k resolution, ray-tracing, unreal engine 5 style, highly detailed silk and floral textures, professional color grading, shot on Sony A7R IV";
+// Tự động viết prompt khi tải ảnh lên; lệnh phân tích duy nhất proxy cho chạy không cần giữ credit
+export const AUTO_PROMPT_INSTRUCTION =
+  "Phân tích kiến trúc không gian này về màu sắc, ánh sáng và vật liệu gốc. Viết ngắn gọn dưới dạng prompt kỹ thuật.";
@@ -0,0 +1,435 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { FileData, GenerationProgress, QualityGateReport, RenderOptions, RenderScope, Tool } from "../types";
+import { DEFAULT_JOB_CONCURRENCY, MAX_RENDER_VARIANTS } from "../constants";
+import { setSupabaseClient } from "../supabaseClient";
+import * as geminiService from "../services/geminiService";
+import { estimateCost, unusedQualityRetry } from "../services/pricing";
+import { loadOptionCatalog } from "../services/optionCatalog";
+import { hashApiToken } from "../services/apiTokenService";
+import { bearerToken, readJsonBody, sendJson } from "./http";
+import { isServiceDbEnabled, serviceDb as db } from "./db";
+import { emitJobEvent } from "./webhooks";
+import { parseRenderOptions } from "./renderOptions";
+
+const API_PREFIX = '/v1/';
+const JOB_RETENTION_MS = 24 * 60 * 60 * 1000; // Finished jobs (and their images) are kept in memory for a day
+const INTERRUPTED_JOB_ERROR = "The server restarted before the job finished. Credits have been refunded.";
+
+export const isApiEnabled = isServiceDbEnabled;
+
+type ApiJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+interface ApiTokenRecord {
+  id: string;
+  ownerId: string;
+  workspaceId: string | null;
+}
+
+interface ApiJob {
+  id: string;
+  token: ApiTokenRecord;
+  status: ApiJobStatus;
+  sourceImage: FileData;
+  options: RenderOptions;
+  variantCount: number;
+  cost: number;
+  progress: GenerationProgress | null;
+  error?: string;
+  variants?: string[];
+  masterPrompt?: string;
+  quality?: QualityGateReport;
+  renderId?: string | null;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+interface InterruptedJobRow {
+  id: string;
+  cost: number;
+  api_tokens: { id: string; owner_id: string; workspace_id: string | null } | null; // null if the token row is gone
+}
+
+const jobs = new Map<string, ApiJob>();
+const queue: ApiJob[] = [];
+let runningCount = 0;
+
+/**
+ * Service đọc/ghi Supabase bằng service role (đặt ngay, trước lệnh await đầu tiên);
+ * nạp danh mục lựa chọn như trên trình duyệt (bảng giá do server/index.ts nạp)
+ * và hoàn credit cho các job bị cắt ngang khi server dừng
+ */
+export const initApi = async () => {
+  if (!db) return;
+  setSupabaseClient(db);
+  await Promise.all([loadOptionCatalog(), recoverInterruptedJobs()]);
+};
+
+const scopeOf = (token: ApiTokenRecord): RenderScope => ({ ownerId: token.ownerId, workspaceId: token.workspaceId });
+
+const authenticate = async (req: IncomingMessage): Promise<ApiTokenRecord | null> => {
+  const secret = bearerToken(req);
+  if (!secret || !db) return null;
+  const { data, error } = await db
+    .from('api_tokens')
+    .select('id, owner_id, workspace_id')
+    .eq('token_hash', await hashApiToken(secret))
+    .is('revoked_at', null)
+    .maybeSingle();
+  if (error || !data) return null;
+  db.from('api_tokens').update({ last_used_at: new Date().toISOString() }).eq('id', data.id).then(() => {});
+  return { id: data.id, ownerId: data.owner_id, workspaceId: data.workspace_id };
+};
+
+const applyCredits = async (token: ApiTokenRecord, type: 'deduct' | 'refund', amount: number, description: string, referenceId: string) => {
+  const { error } = await db!.rpc('apply_api_credit_transaction', {
+    p_token_id: token.id,
+    p_type: type,
+    p_amount: amount,
+    p_description: description,
+    p_tool: Tool.RENDER,
+    p_reference_id: referenceId,
+  });
+  if (error) throw new Error(error.message);
+};
+
+const creditErrorStatus = (message: string): number =>
+  message.includes('INSUFFICIENT_CREDITS') || message.includes('SPENDING_LIMIT_EXCEEDED') ? 402
+    : message.includes('NOT_AUTHORIZED') ? 403
+    : 503;
+
+const toStatusView = (job: ApiJob) => ({
+  id: job.id,
+  status: job.status,
+  variantCount: job.variantCount,
+  cost: job.cost,
+  progress: job.progress?.message ?? null,
+  error: job.error ?? null,
+  createdAt: new Date(job.createdAt).toISOString(),
+  startedAt: job.startedAt ? new Date(job.startedAt).toISOString() : null,
+  finishedAt: job.finishedAt ? new Date(job.finishedAt).toISOString() : null,
+});
+
+// Jobs that left memory (server restart or past retention) are still readable from api_jobs, without images
+const toStoredStatusView = (row: any) => ({
+  id: row.id,
+  status: row.status as ApiJobStatus,
+  variantCount: row.variant_count,
+  cost: row.cost,
+  progress: null,
+  error: row.error ?? null,
+  createdAt: row.created_at,
+  startedAt: row.started_at ?? null,
+  finishedAt: row.finished_at ?? null,
+});
+
+const isoOrNull = (time?: number) => time ? new Date(time).toISOString() : null;
+
+/**
+ * Ghi trạng thái job vào api_jobs để lần khởi động sau biết job nào còn dở
+ */
+const saveJob = async (job: ApiJob) => {
+  const { error } = await db!.from('api_jobs').upsert({
+    id: job.id,
+    token_id: job.token.id,
+    status: job.status,
+    variant_count: job.variantCount,
+    cost: job.cost,
+    error: job.error ?? null,
+    render_id: job.renderId ?? null,
+    created_at: new Date(job.createdAt).toISOString(),
+    started_at: isoOrNull(job.startedAt),
+    finished_at: isoOrNull(job.finishedAt),
+  });
+  if (error) throw new Error(error.message);
+};
+
+const saveJobQuietly = (job: ApiJob) =>
+  saveJob(job).catch(e => console.error(`Failed to save API job ${job.id}`, e));
+
+/**
+ * Job còn queued/running trong api_jobs lúc khởi động đã mất ảnh nguồn cùng bộ nhớ cũ:
+ * đánh dấu thất bại và hoàn credit như một job lỗi (một server chạy hàng đợi này)
+ */
+const recoverInterruptedJobs = async () => {
+  // Taken before the server listens, so jobs queued while this runs are left alone
+  const startedAt = new Date().toISOString();
+  const { data, error } = await db!
+    .from('api_jobs')
+    .select('id, cost, api_tokens(id, owner_id, workspace_id)')
+    .in('status', ['queued', 'running'])
+    .lt('created_at', startedAt)
+    .overrideTypes<InterruptedJobRow[], { merge: false }>();
+  if (error) {
+    console.error("Failed to load unfinished API jobs", error);
+    return;
+  }
+
+  let recovered = 0;
+  for (const row of data || []) {
+    if (!row.api_tokens) {
+      console.error(`Cannot refund interrupted API job ${row.id}: its API token no longer exists`);
+      continue;
+    }
+    const token: ApiTokenRecord = { id: row.api_tokens.id, ownerId: row.api_tokens.owner_id, workspaceId: row.api_tokens.workspace_id };
+    try {
+      await applyCredits(token, 'refund', row.cost, `Refund: API render ${row.id}`, `release:${row.id}`);
+    } catch (refundError) {
+      console.error(`Failed to refund interrupted API job ${row.id}`, refundError);
+    }
+    const { error: updateError } = await db!
+      .from('api_jobs')
+      .update({ status: 'failed', error: INTERRUPTED_JOB_ERROR, finished_at: new Date().toISOString() })
+      .eq('id', row.id);
+    if (updateError) console.error(`Failed to mark API job ${row.id} as failed`, updateError);
+    recovered++;
+
+    if (token.workspaceId) {
+      emitJobEvent({
+        jobId: row.id,
+        workspaceId: token.workspaceId,
+        tool: Tool.RENDER,
+        label: 'API render',
+        status: 'failed',
+        options: {},
+        results: [],
+        error: INTERRUPTED_JOB_ERROR,
+      }).catch(e => console.error(`Failed to send webhooks for API job ${row.id}`, e));
+    }
+  }
+  if (recovered) console.log(`Refunded ${recovered} API job(s) interrupted by the last shutdown`);
+};
+
+const purgeExpiredJobs = () => {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+  for (const [id, job] of jobs) {
+    if (job.finishedAt && job.finishedAt < cutoff) jobs.delete(id);
+  }
+};
+
+// --- JOB RUNNER ---
+
+const runJob = async (job: ApiJob) => {
+  job.status = 'running';
+  job.startedAt = Date.now();
+  await saveJobQuietly(job);
+  try {
+    // Same prompt building, learning context and quality gate as the Render tab
+    const result = await geminiService.generateWeddingRender(job.sourceImage, job.options, job.variantCount, {
+      onProgress: (progress) => { job.progress = progress; },
+      scope: scopeOf(job.token),
+      headless: true,
+    });
+    job.variants = result.variants;
+    job.masterPrompt = result.masterPrompt;
+    job.quality = result.quality;
+    job.renderId = result.variants.length === 1
+      ? await geminiService.saveRenderVariantSelection(job.options, result.masterPrompt, 0, 1, scopeOf(job.token))
+      : null;
+    job.status = 'succeeded';
+
+    // The gate's corrective re-render is held up front and handed back when it was not needed
+    const unused = unusedQualityRetry(job.options.qualityGate, result.quality);
+    if (unused > 0) {
+      await applyCredits(job.token, 'refund', unused, `Refund (unused): API render ${job.id}`, `settle:${job.id}`)
+        .catch(refundError => console.error(`Failed to refund the unused re-render of API job ${job.id}`, refundError));
+    }
+  } catch (e: any) {
+    console.error(`API job ${job.id} failed:`, e);
+    job.status = 'failed';
+    job.error = "Render failed. Credits have been refunded.";
+    try {
+      await applyCredits(job.token, 'refund', job.cost, `Refund: API render ${job.id}`, `release:${job.id}`);
+    } catch (refundError) {
+      console.error(`Failed to refund API job ${job.id}`, refundError);
+    }
+  } finally {
+    job.progress = null;
+    job.finishedAt = Date.now();
+  }
+  await saveJobQuietly(job);
+
+  if (job.token.workspaceId) {
+    emitJobEvent({
+      jobId: job.id,
+      workspaceId: job.token.workspaceId,
+      tool: Tool.RENDER,
+      label: 'API render',
+      status: job.status === 'succeeded' ? 'succeeded' : 'failed',
+      options: { ...job.options, variantCount: job.variantCount },
+      results: job.variants || [],
+      error: job.error,
+    }).catch(e => console.error(`Failed to send webhooks for API job ${job.id}`, e));
+  }
+};
+
+const pumpQueue = () => {
+  const concurrency = Number(process.env.API_JOB_CONCURRENCY) || DEFAULT_JOB_CONCURRENCY;
+  while (runningCount < concurrency && queue.length > 0) {
+    const job = queue.shift()!;
+    runningCount++;
+    runJob(job).finally(() => {
+      runningCount--;
+      pumpQueue();
+    });
+  }
+};
+
+// --- HANDLERS ---
+
+const parseSourceImage = (value: any): FileData | null => {
+  if (!value || typeof value.base64 !== 'string' || typeof value.mimeType !== 'string') return null;
+  if (!value.mimeType.startsWith('image/') || value.base64.length === 0) return null;
+  return {
+    base64: value.base64,
+    mimeType: value.mimeType,
+    width: typeof value.width === 'number' ? value.width : undefined,
+    height: typeof value.height === 'number' ? value.height : undefined,
+  };
+};
+
+const createJob = async (req: IncomingMessage, res: ServerResponse, token: ApiTokenRecord) => {
+  const body = await readJsonBody(req);
+  const sourceImage = parseSourceImage(body.sourceImage);
+  if (!sourceImage) return sendJson(res, 400, { error: "sourceImage must be { base64, mimeType } of an image." });
+
+  const variantCount = body.variantCount ?? 1;
+  if (!Number.isInteger(variantCount) || variantCount < 1 || variantCount > MAX_RENDER_VARIANTS) {
+    return sendJson(res, 400, { error: `variantCount must be an integer from 1 to ${MAX_RENDER_VARIANTS}.` });
+  }
+  const parsed = parseRenderOptions(body.options);
+  if (!parsed.options) return sendJson(res, 400, { error: parsed.error });
+  const options = parsed.options;
+  if (options.qualityGate?.enabled) {
+    // Local pixel metrics need a browser canvas; the server grades with vision only (headless)
+    options.qualityGate = { ...options.qualityGate, method: 'vision' };
+  }
+
+  purgeExpiredJobs();
+  const job: ApiJob = {
+    id: crypto.randomUUID(),
+    token,
+    status: 'queued',
+    sourceImage,
+    options,
+    variantCount,
+    cost: estimateCost({ tool: Tool.RENDER, variantCount, qualityGate: options.qualityGate }).total,
+    progress: null,
+    createdAt: Date.now(),
+  };
+
+  try {
+    await applyCredits(token, 'deduct', job.cost, `API render (${variantCount} variant${variantCount > 1 ? 's' : ''})`, `reservation:${job.id}`);
+  } catch (e: any) {
+    return sendJson(res, creditErrorStatus(e.message), { error: e.message });
+  }
+  try {
+    await saveJob(job);
+  } catch (e) {
+    console.error(`Failed to save API job ${job.id}`, e);
+    await applyCredits(token, 'refund', job.cost, `Refund: API render ${job.id}`, `release:${job.id}`);
+    return sendJson(res, 503, { error: "Could not queue the job. Credits have been refunded." });
+  }
+
+  jobs.set(job.id, job);
+  queue.push(job);
+  pumpQueue();
+  sendJson(res, 202, toStatusView(job));
+};
+
+const getResult = (res: ServerResponse, job: ApiJob) => {
+  if (job.status !== 'succeeded') {
+    return sendJson(res, 409, { error: `Job is ${job.status}.`, status: job.status });
+  }
+  sendJson(res, 200, {
+    id: job.id,
+    variants: job.variants,
+    masterPrompt: job.masterPrompt,
+    renderId: job.renderId ?? null,
+    quality: job.quality ?? null,
+  });
+};
+
+/**
+ * Đánh giá một phương án: giống chấm sao trong giao diện, dữ liệu dùng cho học tăng cường
+ */
+const submitRating = async (req: IncomingMessage, res: ServerResponse, job: ApiJob) => {
+  if (job.status !== 'succeeded' || !job.variants || !job.masterPrompt) {
+    return sendJson(res, 409, { error: `Job is ${job.status}.`, status: job.status });
+  }
+  const body = await readJsonBody(req);
+  const rating = Number(body.rating);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    return sendJson(res, 400, { error: "rating must be an integer from 1 to 5." });
+  }
+  const tags = Array.isArray(body.tags) ? body.tags.filter((tag: unknown) => typeof tag === 'string') : [];
+
+  if (!job.renderId) {
+    const variantIndex = Number(body.variantIndex ?? 0);
+    if (!Number.isInteger(variantIndex) || variantIndex < 0 || variantIndex >= job.variants.length) {
+      return sendJson(res, 400, { error: `variantIndex must be between 0 and ${job.variants.length - 1}.` });
+    }
+    job.renderId = await geminiService.saveRenderVariantSelection(
+      job.options, job.masterPrompt, variantIndex, job.variants.length, scopeOf(job.token)
+    );
+    if (!job.renderId) return sendJson(res, 503, { error: "Could not save the selected variant." });
+    await saveJobQuietly(job);
+  }
+
+  await geminiService.submitFeedback(job.renderId, rating, tags);
+  sendJson(res, 200, { renderId: job.renderId, rating, tags });
+};
+
+const sendStoredJob = async (req: IncomingMessage, res: ServerResponse, token: ApiTokenRecord, jobId: string, action?: string) => {
+  const { data } = await db!
+    .from('api_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('token_id', token.id)
+    .maybeSingle();
+  if (!data) return sendJson(res, 404, { error: "Job not found." });
+
+  const view = toStoredStatusView(data);
+  if (!action && req.method === 'GET') return sendJson(res, 200, view);
+  if ((action === 'result' && req.method === 'GET') || (action === 'rating' && req.method === 'POST')) {
+    return view.status === 'succeeded'
+      ? sendJson(res, 410, { error: "Job images are no longer kept on the server.", status: view.status })
+      : sendJson(res, 409, { error: `Job is ${view.status}.`, status: view.status });
+  }
+  return sendJson(res, 404, { error: "Not found." });
+};
+
+/**
+ * POST /v1/jobs · GET /v1/jobs/:id · GET /v1/jobs/:id/result · POST /v1/jobs/:id/rating
+ */
+export const handleApiRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!isApiEnabled) {
+    return sendJson(res, 503, { error: "Headless API requires SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY on the server." });
+  }
+  const token = await authenticate(req);
+  if (!token) return sendJson(res, 401, { error: "Missing or invalid API token." });
+
+  const [resource, jobId, action] = (req.url || '').split('?')[0].slice(API_PREFIX.length).split('/');
+  if (resource !== 'jobs') return sendJson(res, 404, { error: "Not found." });
+
+  try {
+    if (!jobId) {
+      if (req.method !== 'POST') return sendJson(res, 405, { error: "Method not allowed." });
+      return await createJob(req, res, token);
+    }
+
+    const job = jobs.get(jobId);
+    // Jobs are only visible to the token that created them
+    if (!job || job.token.id !== token.id) return await sendStoredJob(req, res, token, jobId, action);
+
+    if (!action && req.method === 'GET') return sendJson(res, 200, toStatusView(job));
+    if (action === 'result' && req.method === 'GET') return getResult(res, job);
+    if (action === 'rating' && req.method === 'POST') return await submitRating(req, res, job);
+    return sendJson(res, 404, { error: "Not found." });
+  } catch (e: any) {
+    console.error(`API ${req.method} ${req.url} failed`, e);
+    return sendJson(res, 400, { error: e?.message || "Bad request." });
+  }
+};
+
+export const isApiPath = (path: string): boolean => path.startsWith(API_PREFIX);
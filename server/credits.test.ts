@@ -0,0 +1,94 @@
+import { describe, expect, it, vi } from 'vitest';
+import { AUTO_PROMPT_INSTRUCTION, DEFAULT_PRICING } from '../constants';
+import { PricingTable, Tool } from '../types';
+import { authorizeAnalyze, routeCharge, useReservation } from './credits';
+
+// Reservations held on the ledger, charged the way use_credit_reservation does it
+const reservations = vi.hoisted(() => new Map<string, { tool: string; held: number; used: number }>());
+
+vi.mock('./db', () => ({
+  serviceDb: {
+    rpc: async (name: string, args: any) => {
+      const reservation = reservations.get(args.p_reservation_id);
+      if (name !== 'use_credit_reservation') return { data: null, error: null };
+      if (!reservation) return { data: null, error: { message: 'RESERVATION_NOT_FOUND' } };
+      if (args.p_tool && reservation.tool !== args.p_tool) return { data: null, error: { message: 'RESERVATION_TOOL_MISMATCH' } };
+      if (reservation.used + args.p_amount > reservation.held) return { data: null, error: { message: 'RESERVATION_EXHAUSTED' } };
+      reservation.used += args.p_amount;
+      return { data: reservation.held - reservation.used, error: null };
+    },
+  },
+}));
+
+describe('routeCharge', () => {
+  it('charges each render call one variant', () => {
+    expect(routeCharge('render', {}, DEFAULT_PRICING)).toEqual({ tool: Tool.RENDER, amount: DEFAULT_PRICING.render.perVariant });
+  });
+
+  it('charges upscales by the requested resolution', () => {
+    const pricing = { ...DEFAULT_PRICING, upscale: { '1K': 10, '2K': 20, '4K': 40 } };
+    expect(routeCharge('upscale', { resolution: '2K' }, pricing)).toEqual({ tool: Tool.UPSCALE, amount: 20 });
+    // An unknown resolution must not get a cheaper price
+    expect(routeCharge('upscale', { resolution: '8K' }, pricing)?.amount).toBe(40);
+  });
+
+  it('charges detection against edit reservations at the detection price', () => {
+    expect(routeCharge('detect', {}, DEFAULT_PRICING)).toEqual({ tool: Tool.ADVANCED_EDIT, amount: DEFAULT_PRICING.detection });
+    expect(routeCharge('edit', {}, DEFAULT_PRICING)?.amount).toBeGreaterThan(DEFAULT_PRICING.detection);
+  });
+
+  it('charges edits and sketches by the requested mode and resolution', () => {
+    const pricing: PricingTable = {
+      ...DEFAULT_PRICING,
+      advancedEdit: { NOTE: 20, SWAP: 45, MASK: 30, REMOVE: 30 },
+      sketch: { '1K': 10, '2K': 15, '4K': 25 },
+    };
+    expect(routeCharge('edit', { mode: 'MASK' }, pricing)?.amount).toBe(30);
+    expect(routeCharge('sketch', { resolution: '2K' }, pricing)?.amount).toBe(15);
+    // Missing or unknown options pay the highest price
+    expect(routeCharge('edit', {}, pricing)?.amount).toBe(45);
+    expect(routeCharge('sketch', { resolution: 'huge' }, pricing)?.amount).toBe(25);
+  });
+
+  it('does not charge analysis', () => {
+    expect(routeCharge('analyze', {}, DEFAULT_PRICING)).toBeNull();
+  });
+});
+
+describe('useReservation', () => {
+  it('refuses paid calls without a reservation', async () => {
+    const result = await useReservation(null, 'user-1', { tool: Tool.RENDER, amount: 15 });
+    expect(result).toMatchObject({ ok: false, status: 402 });
+  });
+
+  it('refuses an expensive edit mode on a reservation made at the cheap price', async () => {
+    const pricing: PricingTable = { ...DEFAULT_PRICING, advancedEdit: { NOTE: 20, SWAP: 45, MASK: 30, REMOVE: 30 } };
+    reservations.set('cheap-edit', { tool: Tool.ADVANCED_EDIT, held: 20, used: 0 });
+
+    const expensive = await useReservation('cheap-edit', 'user-1', routeCharge('edit', { mode: 'SWAP' }, pricing)!);
+    expect(expensive).toMatchObject({ ok: false, status: 402 });
+    const cheap = await useReservation('cheap-edit', 'user-1', routeCharge('edit', { mode: 'NOTE' }, pricing)!);
+    expect(cheap.ok).toBe(true);
+  });
+});
+
+describe('authorizeAnalyze', () => {
+  const image = { mimeType: 'image/png', base64: 'AAAA' };
+
+  it('runs only the fixed auto-prompt without a reservation', async () => {
+    const allowed = await authorizeAnalyze(null, 'user-2', { prompt: AUTO_PROMPT_INSTRUCTION, images: [image], json: true });
+    expect(allowed.ok).toBe(true);
+    expect(allowed.request).toEqual({ prompt: AUTO_PROMPT_INSTRUCTION, images: [image], temperature: 0.4 });
+
+    const refused = await authorizeAnalyze(null, 'user-2', { prompt: 'Describe this image in detail', images: [image] });
+    expect(refused).toMatchObject({ ok: false, status: 402 });
+  });
+
+  it('rate limits each user', async () => {
+    const body = { prompt: AUTO_PROMPT_INSTRUCTION, images: [image] };
+    const results = [];
+    for (let i = 0; i < 201; i++) results.push(await authorizeAnalyze(null, 'user-3', body));
+    expect(results.filter(r => r.ok)).toHaveLength(200);
+    expect(results[200]).toMatchObject({ ok: false, status: 429 });
+  });
+});
@@ -0,0 +1,205 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { PricingTable, Tool } from "../types";
+import { AUTO_PROMPT_INSTRUCTION } from "../constants";
+import { getPricing } from "../services/pricing";
+import type { AnalyzeRequest } from "../services/providers/imageProvider";
+import type { ProxyRoute } from "../services/providers/proxyProvider";
+import { serviceDb } from "./db";
+import { readJsonBody, sendJson } from "./http";
+import { checkRequest, RequestCheck } from "./session";
+
+export const CREDITS_SETTLE_PATH = '/api/credits/settle';
+
+export interface RouteCharge {
+  tool: Tool; // Tool the reservation must have been made for
+  amount: number; // Credits one call takes from the reservation
+}
+
+export interface ReservationUse {
+  reservationId: string;
+  memberId: string;
+  amount: number;
+}
+
+const RESERVATION_ERRORS: Record<string, string> = {
+  RESERVATION_NOT_FOUND: "Credit reservation not found.",
+  RESERVATION_RELEASED: "Credit reservation already refunded.",
+  RESERVATION_EXPIRED: "Credit reservation has expired.",
+  RESERVATION_TOOL_MISMATCH: "Credit reservation was made for another tool.",
+  RESERVATION_EXHAUSTED: "Credit reservation does not cover this action.",
+  NOT_AUTHORIZED: "Not allowed to use this credit reservation.",
+};
+
+// Analysis is free, so it is rate limited instead: per render reservation and per user
+const ANALYZE_LIMITS = {
+  reservation: { calls: 20, windowMs: 3 * 60 * 60 * 1000 }, // Master prompt + grading of every variant, with retries
+  user: { calls: 200, windowMs: 60 * 60 * 1000 },
+};
+
+const analyzeCalls = new Map<string, number[]>(); // Key → call times within its window
+
+// Price of the option the call asks for; an unknown or missing option pays the highest price
+const priceOf = (prices: Record<string, number>, key: unknown): number =>
+  Object.hasOwn(prices, String(key)) ? prices[String(key)] : Math.max(...Object.values(prices));
+
+/**
+ * Giá một lệnh gọi qua proxy, cùng bảng giá với trình duyệt; null = không tốn credit.
+ * Render tính theo từng phương án; edit, sketch và upscale tính theo chế độ/độ phân giải gửi kèm.
+ */
+export const routeCharge = (route: ProxyRoute, body: any, pricing: PricingTable = getPricing()): RouteCharge | null => {
+  switch (route) {
+    case 'analyze':
+      return null;
+    case 'render':
+      return { tool: Tool.RENDER, amount: pricing.render.perVariant };
+    case 'sketch':
+      return { tool: Tool.SKETCH_CONVERTER, amount: priceOf(pricing.sketch, body?.resolution) };
+    case 'idea':
+      return { tool: Tool.IDEA_GENERATOR, amount: pricing.ideaGenerator };
+    case 'edit':
+      return { tool: Tool.ADVANCED_EDIT, amount: priceOf(pricing.advancedEdit, body?.mode) };
+    case 'detect':
+      return { tool: Tool.ADVANCED_EDIT, amount: pricing.detection };
+    case 'upscale':
+      return { tool: Tool.UPSCALE, amount: priceOf(pricing.upscale, body?.resolution) };
+  }
+};
+
+/**
+ * Tiêu giá của lệnh gọi từ reservation của người gọi (nguyên tử trên Supabase);
+ * từ chối nếu reservation đã hoàn, hết hạn, của công cụ khác hoặc không còn đủ credit
+ */
+export const useReservation = async (
+  reservationId: string | null,
+  memberId: string,
+  charge: RouteCharge
+): Promise<RequestCheck & { use?: ReservationUse }> => {
+  if (!reservationId) return { ok: false, status: 402, error: "This action requires a credit reservation." };
+  if (!serviceDb) {
+    console.error("Cannot charge credit reservations: SUPABASE_SERVICE_ROLE_KEY is not set");
+    return { ok: false, status: 503, error: "Credits are not available on this server." };
+  }
+
+  const { error } = await serviceDb.rpc('use_credit_reservation', {
+    p_reservation_id: reservationId,
+    p_member_id: memberId,
+    p_tool: charge.tool,
+    p_amount: charge.amount,
+  });
+  if (error) {
+    const code = Object.keys(RESERVATION_ERRORS).find(key => error.message.includes(key));
+    if (code) return { ok: false, status: 402, error: RESERVATION_ERRORS[code] };
+    console.error("Failed to charge credit reservation", error);
+    return { ok: false, status: 503, error: "Could not verify credits. Please try again." };
+  }
+  return { ok: true, status: 200, userId: memberId, use: { reservationId, memberId, amount: charge.amount } };
+};
+
+/**
+ * Lệnh gọi AI thất bại hoặc bị hủy: trả lại phần đã tiêu để lần thử lại vẫn dùng được reservation
+ */
+export const returnReservationUse = async (use: ReservationUse) => {
+  if (!serviceDb) return;
+  const { error } = await serviceDb.rpc('return_credit_reservation_use', {
+    p_reservation_id: use.reservationId,
+    p_member_id: use.memberId,
+    p_amount: use.amount,
+  });
+  if (error) console.error(`Failed to return credits to reservation ${use.reservationId}`, error);
+};
+
+const takeAnalyzeCall = (key: string, limit: { calls: number; windowMs: number }): boolean => {
+  const now = Date.now();
+  const recent = (analyzeCalls.get(key) || []).filter(time => now - time < limit.windowMs);
+  if (recent.length >= limit.calls) {
+    analyzeCalls.set(key, recent);
+    return false;
+  }
+  analyzeCalls.set(key, [...recent, now]);
+  // Drop keys that have gone quiet so the map does not grow forever
+  if (analyzeCalls.size > 10000) {
+    for (const [other, times] of analyzeCalls) {
+      if (times.every(time => now - time >= ANALYZE_LIMITS.reservation.windowMs)) analyzeCalls.delete(other);
+    }
+  }
+  return true;
+};
+
+/**
+ * Lệnh phân tích: trong một lần render thì phải kèm reservation render còn hiệu lực (không trừ credit);
+ * không có reservation thì chỉ được chạy lệnh tự viết prompt cố định cho một ảnh. Cả hai đều giới hạn số lần.
+ */
+export const authorizeAnalyze = async (
+  reservationId: string | null,
+  userId: string,
+  body: any
+): Promise<RequestCheck & { request?: AnalyzeRequest }> => {
+  let request: AnalyzeRequest;
+  if (reservationId) {
+    const check = await useReservation(reservationId, userId, { tool: Tool.RENDER, amount: 0 });
+    if (!check.ok) return check;
+    if (!takeAnalyzeCall(`reservation:${reservationId}`, ANALYZE_LIMITS.reservation)) {
+      return { ok: false, status: 429, error: "Too many analysis calls for this render." };
+    }
+    request = body;
+  } else {
+    const image = Array.isArray(body?.images) ? body.images[0] : undefined;
+    if (body?.prompt !== AUTO_PROMPT_INSTRUCTION || !image || body.images.length > 1) {
+      return { ok: false, status: 402, error: "This action requires a credit reservation." };
+    }
+    // Only the fixed instruction and the one image reach Gemini, whatever else the body carried
+    request = { prompt: AUTO_PROMPT_INSTRUCTION, images: [image], temperature: 0.4 };
+  }
+
+  if (!takeAnalyzeCall(`user:${userId}`, ANALYZE_LIMITS.user)) {
+    return { ok: false, status: 429, error: "Too many image analyses. Please wait a while." };
+  }
+  return { ok: true, status: 200, userId, request };
+};
+
+/**
+ * Lệnh phân tích dưới reservation đã chạy xong: khi chốt, reservation giữ lại phí phân tích
+ */
+export const recordAnalysis = async (reservationId: string, memberId: string) => {
+  if (!serviceDb) return;
+  const { error } = await serviceDb.rpc('record_credit_reservation_analysis', {
+    p_reservation_id: reservationId,
+    p_member_id: memberId,
+  });
+  if (error) console.error(`Failed to record analysis on reservation ${reservationId}`, error);
+};
+
+/**
+ * POST /api/credits/settle { reservationId }: trình duyệt báo thao tác đã xong (thành công hay thất bại).
+ * Server hoàn phần proxy chưa tiêu rồi khóa reservation, nên client không thể tự hoàn một thao tác đã chạy.
+ */
+export const handleSettleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  if (req.method !== 'POST') return sendJson(res, 405, { error: "Method not allowed." });
+
+  const check = await checkRequest(req);
+  if (!check.ok) return sendJson(res, check.status, { error: check.error });
+  if (!serviceDb || !check.userId) return sendJson(res, 503, { error: "Credits are not available on this server." });
+
+  let body: any;
+  try {
+    body = await readJsonBody(req);
+  } catch (e: any) {
+    return sendJson(res, 400, { error: e.message });
+  }
+  if (typeof body?.reservationId !== 'string' || !body.reservationId) {
+    return sendJson(res, 400, { error: "reservationId is required." });
+  }
+
+  const { data, error } = await serviceDb.rpc('settle_credit_reservation', {
+    p_reservation_id: body.reservationId,
+    p_member_id: check.userId,
+    p_render_unit: getPricing().render.perVariant,
+    p_analysis_fee: getPricing().render.analysis,
+  });
+  if (error) {
+    if (error.message.includes('RESERVATION_NOT_FOUND')) return sendJson(res, 404, { error: RESERVATION_ERRORS.RESERVATION_NOT_FOUND });
+    console.error(`Failed to settle credit reservation ${body.reservationId}`, error);
+    return sendJson(res, 503, { error: "Could not settle credits. Please try again." });
+  }
+  sendJson(res, 200, { refunded: data ?? 0 });
+};
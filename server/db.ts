@@ -0,0 +1,13 @@
+import { createClient } from "@supabase/supabase-js";
+import { supabaseUrl } from "./session";
+
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+export const isServiceDbEnabled = Boolean(supabaseUrl && serviceRoleKey);
+
+/**
+ * Client service role (bỏ qua RLS) cho REST API và webhook; null nếu server thiếu SUPABASE_SERVICE_ROLE_KEY
+ */
+export const serviceDb = isServiceDbEnabled
+  ? createClient(supabaseUrl!, serviceRoleKey!, { auth: { persistSession: false, autoRefreshToken: false } })
+  : null;
@@ -0,0 +1,6 @@
+// Imported first by server/index.ts and cli/batchRender.ts so the other modules see the variables when they load
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // No .env.local: rely on the real environment
+}
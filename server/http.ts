@@ -0,0 +1,37 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+
+const MAX_BODY_BYTES = 50 * 1024 * 1024; // Several base64 images per request
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+export const readJsonBody = (req: IncomingMessage): Promise<any> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error("Request body too large."));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+      } catch {
+        reject(new Error("Invalid JSON body."));
+      }
+    });
+    req.on('error', reject);
+  });
+
+export const bearerToken = (req: IncomingMessage): string | null => {
+  const header = req.headers['authorization'];
+  const match = typeof header === 'string' ? header.match(/^Bearer\s+(.+)$/i) : null;
+  return match ? match[1] : null;
+};
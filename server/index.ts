@@ -0,0 +1,139 @@
+import "./env";
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { ImageProvider, ProviderCallOptions } from "../services/providers/imageProvider";
+import { createGeminiProvider } from "../services/providers/geminiProvider";
+import { createMockProvider } from "../services/providers/mockProvider";
+import type { ProxyRoute } from "../services/providers/proxyProvider";
+import { setImageProvider } from "../services/providers";
+import { loadPricing } from "../services/pricing";
+import { checkRequest, headerValue, isSessionCheckEnabled } from "./session";
+import { isServiceDbEnabled } from "./db";
+import { authorizeAnalyze, CREDITS_SETTLE_PATH, handleSettleRequest, recordAnalysis, returnReservationUse, routeCharge, useReservation } from "./credits";
+import { readJsonBody, sendJson } from "./http";
+import { handleApiRequest, initApi, isApiEnabled, isApiPath } from "./api";
+import { handleWebhookEventRequest, startWebhookWorker, WEBHOOK_EVENTS_PATH } from "./webhooks";
+
+const PORT = Number(process.env.AI_PROXY_PORT) || 8787;
+const ROUTE_PREFIX = '/api/ai/';
+const ALLOWED_ORIGIN = process.env.AI_PROXY_ALLOWED_ORIGIN; // Only needed when the app is served from another origin
+
+type RouteHandler = (provider: ImageProvider, body: any, call: ProviderCallOptions) => Promise<unknown>;
+
+// Sketch and idea are image renders too, but get their own routes so each tool is charged separately.
+// What a call costs is in server/credits.ts (routeCharge).
+const ROUTES: Record<ProxyRoute, RouteHandler> = {
+  analyze: (provider, body, call) => provider.analyze(body, call),
+  render: (provider, body, call) => provider.render(body, call),
+  sketch: (provider, body, call) => provider.render({ ...body, tier: 'fast' }, call),
+  idea: (provider, body, call) => provider.render(body, call),
+  edit: (provider, body, call) => provider.edit(body, call),
+  detect: (provider, body, call) => provider.detect(body, call),
+  upscale: (provider, body, call) => provider.upscale(body, call),
+};
+
+const createProvider = (): ImageProvider => {
+  if (process.env.IMAGE_PROVIDER === 'mock') return createMockProvider();
+  if (!process.env.GEMINI_API_KEY) {
+    console.warn("⚠️ Gemini API key missing (GEMINI_API_KEY). Serving the offline mock image provider.");
+    return createMockProvider();
+  }
+  return createGeminiProvider(process.env.GEMINI_API_KEY);
+};
+
+const provider = createProvider();
+// The headless API runs geminiService on the server with the same backend
+setImageProvider(provider);
+
+/**
+ * Gemini quá tải trả 503 để trình duyệt tự thử lại (callWithRetry); lỗi khác là 502
+ */
+const upstreamStatus = (e: any): number => {
+  const msg = e?.message || '';
+  const overloaded = msg.includes('overloaded') || msg.includes('503') ||
+    e?.status === 503 || e?.code === 503 || e?.error?.code === 503 || e?.error?.status === 'UNAVAILABLE';
+  return overloaded ? 503 : 502;
+};
+
+const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  if (ALLOWED_ORIGIN) {
+    res.setHeader('Access-Control-Allow-Origin', ALLOWED_ORIGIN);
+    res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type, X-Credit-Reservation');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  }
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const path = (req.url || '').split('?')[0];
+  if (isApiPath(path)) return handleApiRequest(req, res);
+  if (path === WEBHOOK_EVENTS_PATH) return handleWebhookEventRequest(req, res);
+  if (path === CREDITS_SETTLE_PATH) return handleSettleRequest(req, res);
+
+  const routeName = path.startsWith(ROUTE_PREFIX) ? path.slice(ROUTE_PREFIX.length) : '';
+  if (!Object.hasOwn(ROUTES, routeName)) return sendJson(res, 404, { error: "Not found." });
+  if (req.method !== 'POST') return sendJson(res, 405, { error: "Method not allowed." });
+  const route = routeName as ProxyRoute;
+
+  const check = await checkRequest(req);
+  if (!check.ok) return sendJson(res, check.status, { error: check.error });
+
+  let body: any;
+  try {
+    body = await readJsonBody(req);
+  } catch (e: any) {
+    return sendJson(res, 400, { error: e.message });
+  }
+
+  // Paid calls take their price out of the caller's reservation before Gemini is called
+  const reservationId = headerValue(req, 'x-credit-reservation');
+  const charge = isSessionCheckEnabled ? routeCharge(route, body) : null;
+  const credit = charge ? await useReservation(reservationId, check.userId!, charge) : null;
+  if (credit && !credit.ok) return sendJson(res, credit.status, { error: credit.error });
+
+  if (route === 'analyze' && isSessionCheckEnabled) {
+    const analysis = await authorizeAnalyze(reservationId, check.userId!, body);
+    if (!analysis.ok) return sendJson(res, analysis.status, { error: analysis.error });
+    body = analysis.request;
+  }
+
+  // Stop the Gemini call when the browser cancels the request
+  const controller = new AbortController();
+  res.on('close', () => { if (!res.writableEnded) controller.abort(); });
+
+  try {
+    const result = await ROUTES[route](provider, body, { signal: controller.signal });
+    // Free analysis under a reservation is only free if that reservation goes on to render
+    if (route === 'analyze' && isSessionCheckEnabled && reservationId) await recordAnalysis(reservationId, check.userId!);
+    sendJson(res, 200, { result });
+  } catch (e: any) {
+    // Nothing was delivered, so the reservation can pay for the retry
+    if (credit?.use) await returnReservationUse(credit.use);
+    if (controller.signal.aborted) return;
+    console.error(`AI proxy ${path} failed for ${check.userId || 'anonymous'}:`, e);
+    sendJson(res, upstreamStatus(e), { error: e?.message || "AI request failed." });
+  }
+};
+
+// Reservations are charged with the same prices the app shows (PRICING_URL = the app's pricing.json)
+if (process.env.PRICING_URL) loadPricing(process.env.PRICING_URL);
+initApi().catch((e) => console.error("Failed to initialise the headless API", e));
+startWebhookWorker();
+
+createServer((req, res) => {
+  handleRequest(req, res).catch((e) => {
+    console.error("AI proxy request crashed", e);
+    if (!res.headersSent) sendJson(res, 500, { error: "Internal server error." });
+  });
+}).listen(PORT, () => {
+  console.log(`AI proxy listening on http://localhost:${PORT}${ROUTE_PREFIX} (provider: ${provider.name})`);
+  if (!isSessionCheckEnabled) {
+    console.warn("⚠️ Supabase credentials missing (SUPABASE_URL, SUPABASE_ANON_KEY). Session and credit checks are disabled; do not expose this server publicly.");
+  } else if (!isServiceDbEnabled) {
+    console.warn("⚠️ SUPABASE_SERVICE_ROLE_KEY missing: paid AI calls are refused because credit reservations cannot be charged.");
+  }
+  if (!isApiEnabled) {
+    console.warn("Headless API (/v1) and webhooks disabled: set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to enable them.");
+  }
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RENDER_OPTIONS, WEDDING_STYLES } from '../constants';
+import { parseRenderOptions } from './renderOptions';
+
+describe('parseRenderOptions', () => {
+  it('merges valid options over the defaults and drops unknown fields', () => {
+    const parsed = parseRenderOptions({
+      style: WEDDING_STYLES[1].value,
+      additionalPrompt: 'Gold chandeliers',
+      qualityGate: { enabled: true, threshold: 70, method: 'vision', maxRetries: 5 },
+      costOverride: 0,
+    });
+    expect(parsed.options).toEqual({
+      ...DEFAULT_RENDER_OPTIONS,
+      style: WEDDING_STYLES[1].value,
+      additionalPrompt: 'Gold chandeliers',
+      qualityGate: { enabled: true, threshold: 70, method: 'vision' },
+    });
+  });
+
+  it('uses the defaults when no options are sent', () => {
+    expect(parseRenderOptions(undefined).options).toEqual(DEFAULT_RENDER_OPTIONS);
+  });
+
+  it.each([
+    ['a non-object body', 'rustic'],
+    ['an option outside the catalog', { style: 'not-a-style' }],
+    ['an unknown camera preset', { cameraPreset: 'FISHEYE' }],
+    ['an out-of-range threshold', { qualityGate: { enabled: true, threshold: 250, method: 'vision' } }],
+    ['a fractional threshold', { qualityGate: { enabled: true, threshold: 70.5, method: 'vision' } }],
+    ['an unknown grading method', { qualityGate: { enabled: true, threshold: 70, method: 'magic' } }],
+    ['an over-long prompt', { additionalPrompt: 'x'.repeat(2001) }],
+    ['a malformed palette colour', { customPalette: [{ hex: 'red', name: 'Red' }, { hex: '#FFFFFF', name: 'White' }] }],
+  ])('rejects %s', (_, options) => {
+    const parsed = parseRenderOptions(options);
+    expect(parsed.options).toBeUndefined();
+    expect(parsed.error).toMatch(/options/);
+  });
+});
@@ -0,0 +1,95 @@
+import { OptionCatalogKind, QualityGateMethod, RenderOptions } from "../types";
+import { DEFAULT_RENDER_OPTIONS, PHOTOGRAPHY_PRESETS, WEDDING_CATEGORIES } from "../constants";
+import { getOptionCatalog } from "../services/optionCatalog";
+import { MAX_PALETTE_COLORS, MIN_PALETTE_COLORS } from "../services/paletteService";
+
+const MAX_ADDITIONAL_PROMPT_LENGTH = 2000;
+const MAX_HIDDEN_CONTEXT_LENGTH = 8000;
+const MAX_COLOR_NAME_LENGTH = 40;
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+const QUALITY_GATE_METHODS: QualityGateMethod[] = ['vision', 'local'];
+
+// Option fields picked from the option catalog, so only values the studio offers reach the prompt
+const CATALOG_FIELDS: [keyof RenderOptions, OptionCatalogKind][] = [
+  ['style', 'styles'],
+  ['colorPalette', 'palettes'],
+  ['surfaceMaterial', 'surfaceMaterials'],
+  ['textileMaterial', 'textileMaterials'],
+  ['textileColor1', 'textileColors'],
+  ['textileColor2', 'textileColors'],
+];
+
+export type ParsedRenderOptions = { options: RenderOptions; error?: undefined } | { options?: undefined; error: string };
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isCatalogValue = (kind: OptionCatalogKind, value: string): boolean =>
+  value === 'none' || getOptionCatalog()[kind].some(item => item.value === value && item.enabled !== false);
+
+const checkText = (body: Record<string, any>, field: 'additionalPrompt' | 'hiddenAIContext', maxLength: number): string | null => {
+  if (body[field] === undefined) return null;
+  if (typeof body[field] !== 'string') return `options.${field} must be a string.`;
+  return body[field].length > maxLength ? `options.${field} must be at most ${maxLength} characters.` : null;
+};
+
+const checkPalette = (palette: unknown): string | null => {
+  if (palette === undefined) return null;
+  if (!Array.isArray(palette) || palette.length < MIN_PALETTE_COLORS || palette.length > MAX_PALETTE_COLORS) {
+    return `options.customPalette must have ${MIN_PALETTE_COLORS} to ${MAX_PALETTE_COLORS} colours.`;
+  }
+  const valid = palette.every(color => isRecord(color) && typeof color.hex === 'string' && HEX_COLOR.test(color.hex)
+    && typeof color.name === 'string' && color.name.length > 0 && color.name.length <= MAX_COLOR_NAME_LENGTH);
+  return valid ? null : `options.customPalette colours must be { hex: "#RRGGBB", name } with a name of at most ${MAX_COLOR_NAME_LENGTH} characters.`;
+};
+
+const checkQualityGate = (gate: unknown): string | null => {
+  if (gate === undefined) return null;
+  if (!isRecord(gate) || typeof gate.enabled !== 'boolean') return "options.qualityGate must be { enabled, threshold, method }.";
+  if (!Number.isInteger(gate.threshold) || gate.threshold < 0 || gate.threshold > 100) {
+    return "options.qualityGate.threshold must be an integer from 0 to 100.";
+  }
+  return QUALITY_GATE_METHODS.includes(gate.method) ? null : `options.qualityGate.method must be one of: ${QUALITY_GATE_METHODS.join(', ')}.`;
+};
+
+/**
+ * Kiểm tra `options` của một job API rồi gộp với mặc định; trường nào sai thì trả về lỗi (400).
+ * Chỉ nhận các trường của RenderOptions, giá trị lựa chọn phải có trong danh mục đang dùng.
+ */
+export const parseRenderOptions = (value: unknown): ParsedRenderOptions => {
+  if (value === undefined || value === null) return { options: { ...DEFAULT_RENDER_OPTIONS } };
+  if (!isRecord(value)) return { error: "options must be an object." };
+
+  if (value.category !== undefined && !WEDDING_CATEGORIES.some(item => item.value === value.category)) {
+    return { error: "options.category is not a known category." };
+  }
+  for (const [field, kind] of CATALOG_FIELDS) {
+    if (value[field] !== undefined && (typeof value[field] !== 'string' || !isCatalogValue(kind, value[field]))) {
+      return { error: `options.${field} is not an option in the catalog.` };
+    }
+  }
+  if (value.cameraPreset !== undefined && !Object.hasOwn(PHOTOGRAPHY_PRESETS, String(value.cameraPreset))) {
+    return { error: `options.cameraPreset must be one of: ${Object.keys(PHOTOGRAPHY_PRESETS).join(', ')}.` };
+  }
+  if (value.isAutoFocus !== undefined && typeof value.isAutoFocus !== 'boolean') {
+    return { error: "options.isAutoFocus must be a boolean." };
+  }
+  const error = checkText(value, 'additionalPrompt', MAX_ADDITIONAL_PROMPT_LENGTH)
+    ?? checkText(value, 'hiddenAIContext', MAX_HIDDEN_CONTEXT_LENGTH)
+    ?? checkPalette(value.customPalette)
+    ?? checkQualityGate(value.qualityGate);
+  if (error) return { error };
+
+  // Copy only known fields; anything else in the body is dropped
+  const options: RenderOptions = { ...DEFAULT_RENDER_OPTIONS };
+  for (const field of Object.keys(DEFAULT_RENDER_OPTIONS) as (keyof RenderOptions)[]) {
+    if (value[field] !== undefined) (options as any)[field] = value[field];
+  }
+  if (value.customPalette !== undefined) {
+    options.customPalette = value.customPalette.map((color: any) => ({ hex: color.hex, name: color.name }));
+  }
+  if (value.qualityGate !== undefined) {
+    options.qualityGate = { enabled: value.qualityGate.enabled, threshold: value.qualityGate.threshold, method: value.qualityGate.method };
+  }
+  return { options };
+};
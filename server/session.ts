@@ -0,0 +1,42 @@
+import type { IncomingMessage } from "node:http";
+import { createClient } from "@supabase/supabase-js";
+import { bearerToken } from "./http";
+
+export const supabaseUrl = process.env.SUPABASE_URL || process.env.REACT_APP_SUPABASE_URL;
+const supabaseAnonKey = process.env.SUPABASE_ANON_KEY || process.env.REACT_APP_SUPABASE_ANON_KEY;
+
+export const isSessionCheckEnabled = Boolean(supabaseUrl && supabaseAnonKey);
+
+export interface RequestCheck {
+  ok: boolean;
+  status: number;
+  error?: string;
+  userId?: string;
+}
+
+const deny = (status: number, error: string): RequestCheck => ({ ok: false, status, error });
+
+export const headerValue = (req: IncomingMessage, name: string): string | null => {
+  const value = req.headers[name];
+  return typeof value === 'string' && value ? value : null;
+};
+
+/**
+ * Kiểm tra phiên Supabase của người gọi. Credit của lệnh gọi được tiêu riêng từ reservation (server/credits.ts).
+ * Server chưa cấu hình Supabase (phát triển cục bộ) thì bỏ qua kiểm tra.
+ */
+export const checkRequest = async (req: IncomingMessage): Promise<RequestCheck> => {
+  if (!isSessionCheckEnabled) return { ok: true, status: 200 };
+
+  const token = bearerToken(req);
+  if (!token) return deny(401, "Sign in to use AI features.");
+
+  const client = createClient(supabaseUrl!, supabaseAnonKey!, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data: userData, error: userError } = await client.auth.getUser(token);
+  if (userError || !userData?.user) return deny(401, "Session expired. Please sign in again.");
+  return { ok: true, status: 200, userId: userData.user.id };
+};
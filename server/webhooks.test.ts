@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { publicLookup } from './webhooks';
+
+// Host names resolved by the fake DNS; 'rebind.example' answers with a public and an internal address
+const records = vi.hoisted(() => new Map<string, { address: string; family: number }[]>([
+  ['public.example', [{ address: '93.184.216.34', family: 4 }]],
+  ['rebind.example', [{ address: '93.184.216.34', family: 4 }, { address: '10.0.0.5', family: 4 }]],
+]));
+
+vi.mock('node:dns', () => ({
+  lookup: (hostname: string, _options: unknown, callback: (err: Error | null, addresses: { address: string; family: number }[]) => void) =>
+    callback(null, records.get(hostname) ?? []),
+}));
+
+vi.mock('./db', () => ({ serviceDb: null, isServiceDbEnabled: false }));
+
+const resolve = (hostname: string, all: boolean) =>
+  new Promise<unknown>((done, fail) =>
+    publicLookup(hostname, { all } as any, (err, address, family) => (err ? fail(err) : done(all ? address : { address, family }))));
+
+describe('publicLookup', () => {
+  it('hands the socket the address it checked', async () => {
+    await expect(resolve('public.example', false)).resolves.toEqual({ address: '93.184.216.34', family: 4 });
+    await expect(resolve('public.example', true)).resolves.toEqual([{ address: '93.184.216.34', family: 4 }]);
+  });
+
+  it('refuses a host that resolves to a private address at connect time', async () => {
+    await expect(resolve('rebind.example', false)).rejects.toThrow('private address');
+    await expect(resolve('nowhere.example', true)).rejects.toThrow('private address');
+  });
+});
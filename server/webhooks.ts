@@ -0,0 +1,287 @@
+import { request as httpRequest, type IncomingMessage, type ServerResponse } from "node:http";
+import { request as httpsRequest } from "node:https";
+import type { LookupFunction } from "node:net";
+import { createHmac, randomUUID } from "node:crypto";
+import { lookup } from "node:dns";
+import { JobEventReport, WebhookEvent } from "../types";
+import { MAX_RENDER_VARIANTS } from "../constants";
+import { isPrivateAddress, validateWebhookUrl } from "../services/webhookUrl";
+import { readJsonBody, sendJson } from "./http";
+import { checkRequest, isSessionCheckEnabled } from "./session";
+import { isServiceDbEnabled, serviceDb as db } from "./db";
+
+export const WEBHOOK_EVENTS_PATH = '/api/webhooks/events';
+
+const RESULTS_BUCKET = 'job-results';
+const RESULT_URL_TTL_SECONDS = 7 * 24 * 60 * 60;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const WORKER_INTERVAL_MS = 30_000;
+// Wait before attempt 2, 3, …; after the last one the delivery is marked failed
+const RETRY_BACKOFF_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 12 * 60 * 60_000];
+const MAX_ATTEMPTS = RETRY_BACKOFF_MS.length + 1;
+
+export const isWebhooksEnabled = isServiceDbEnabled;
+
+// Deliveries being sent right now, so the worker does not pick them up twice
+const inFlight = new Set<string>();
+
+const parseDataUrl = (dataUrl: string): { mimeType: string; data: Buffer } | null => {
+  const match = dataUrl.match(/^data:([^;,]+)(;base64)?,(.*)$/s);
+  if (!match) return null;
+  return {
+    mimeType: match[1],
+    data: match[2] ? Buffer.from(match[3], 'base64') : Buffer.from(decodeURIComponent(match[3]), 'utf8'),
+  };
+};
+
+// Raster images only: an uploaded SVG could carry script
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' };
+
+/**
+ * Tải ảnh kết quả lên Storage và trả về URL ký; ảnh lỗi bị bỏ qua.
+ * Mỗi lần tải vào một thư mục mới do server đặt tên, nên không ghi đè được kết quả của job khác.
+ */
+const uploadResults = async (event: JobEventReport): Promise<string[]> => {
+  const urls: string[] = [];
+  const folder = `${event.workspaceId}/${randomUUID()}`;
+  for (const [index, result] of event.results.slice(0, MAX_RENDER_VARIANTS).entries()) {
+    const parsed = typeof result === 'string' ? parseDataUrl(result) : null;
+    if (!parsed || !EXTENSIONS[parsed.mimeType]) continue;
+    const path = `${folder}/${index}.${EXTENSIONS[parsed.mimeType]}`;
+    try {
+      const { error } = await db!.storage.from(RESULTS_BUCKET).upload(path, parsed.data, { contentType: parsed.mimeType, upsert: false });
+      if (error) throw error;
+      const { data, error: signError } = await db!.storage.from(RESULTS_BUCKET).createSignedUrl(path, RESULT_URL_TTL_SECONDS);
+      if (signError) throw signError;
+      urls.push(data.signedUrl);
+    } catch (e) {
+      console.error(`Failed to upload result ${index} of job ${event.jobId}`, e);
+    }
+  }
+  return urls;
+};
+
+/**
+ * Chặn SSRF: phân giải tên miền ngay khi mở kết nối và từ chối nếu có địa chỉ riêng.
+ * Socket nối tới đúng địa chỉ vừa kiểm tra, nên tên miền không thể đổi sang IP nội bộ sau bước kiểm tra (DNS rebinding).
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, '');
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new Error("Webhook URL resolves to a private address"), '');
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * POST tới webhook và trả về mã HTTP; không theo redirect vì redirect có thể trỏ ngược vào mạng nội bộ
+ */
+const postWebhook = (url: string, headers: Record<string, string>, body: string): Promise<number> => {
+  if (validateWebhookUrl(url)) return Promise.reject(new Error("Webhook URL points to a private or invalid address"));
+  const target = new URL(url);
+  const request = target.protocol === 'https:' ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    const req = request(target, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    }, response => {
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    req.end(body);
+  });
+};
+
+const sign = (secret: string, timestamp: number, body: string): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * Gửi một lần; thành công khi endpoint trả 2xx, nếu không thì hẹn lần thử tiếp theo
+ */
+const deliver = async (delivery: any, subscription: { url: string; secret: string }) => {
+  if (inFlight.has(delivery.id)) return;
+  inFlight.add(delivery.id);
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  try {
+    statusCode = await postWebhook(subscription.url, {
+      'Content-Type': 'application/json',
+      'X-LuxeRender-Event': delivery.event,
+      'X-LuxeRender-Delivery': delivery.id,
+      'X-LuxeRender-Signature': `t=${timestamp},v1=${sign(subscription.secret, timestamp, body)}`,
+    }, body);
+    if (statusCode < 200 || statusCode >= 300) error = `HTTP ${statusCode}`;
+  } catch (e: any) {
+    error = e?.name === 'AbortError' ? 'Timed out' : e?.message || String(e);
+  }
+
+  const update = error === null
+    ? { status: 'succeeded', attempts, last_status_code: statusCode, last_error: null, next_attempt_at: null, delivered_at: new Date().toISOString() }
+    : attempts >= MAX_ATTEMPTS
+      ? { status: 'failed', attempts, last_status_code: statusCode, last_error: error, next_attempt_at: null }
+      : { attempts, last_status_code: statusCode, last_error: error, next_attempt_at: new Date(Date.now() + RETRY_BACKOFF_MS[attempts - 1]).toISOString() };
+
+  try {
+    const { error: updateError } = await db!.from('webhook_deliveries').update(update).eq('id', delivery.id);
+    if (updateError) throw updateError;
+  } catch (e) {
+    console.error(`Failed to record webhook delivery ${delivery.id}`, e);
+  } finally {
+    inFlight.delete(delivery.id);
+  }
+};
+
+/**
+ * Job kết thúc: tạo một delivery cho mỗi webhook khớp sự kiện và công cụ rồi gửi ngay.
+ * deliveryKey chống gửi trùng (mặc định id job; job từ trình duyệt dùng id reservation đã kiểm tra).
+ */
+export const emitJobEvent = async (event: JobEventReport, deliveryKey: string = event.jobId): Promise<number> => {
+  if (!db) return 0;
+  const eventName: WebhookEvent = event.status === 'succeeded' ? 'job.succeeded' : 'job.failed';
+
+  const { data: subscriptions, error } = await db
+    .from('webhook_subscriptions')
+    .select('id, url, secret, tools')
+    .eq('workspace_id', event.workspaceId)
+    .eq('enabled', true)
+    .contains('events', [eventName]);
+  if (error) throw error;
+
+  const matching = (subscriptions || []).filter((s: any) => !s.tools || s.tools.includes(event.tool));
+  if (matching.length === 0) return 0;
+
+  const resultUrls = event.status === 'succeeded' ? await uploadResults(event) : [];
+  const payload = {
+    event: eventName,
+    createdAt: new Date().toISOString(),
+    workspaceId: event.workspaceId,
+    job: {
+      id: event.jobId,
+      tool: event.tool,
+      label: event.label,
+      status: event.status,
+      options: event.options,
+      resultUrl: resultUrls[0] ?? null,
+      resultUrls,
+      error: event.error ?? null,
+    },
+  };
+
+  // Unique per subscription, job and event, so a job reported twice is only delivered once
+  const { data: deliveries, error: insertError } = await db
+    .from('webhook_deliveries')
+    .upsert(
+      matching.map((s: any) => ({ subscription_id: s.id, workspace_id: event.workspaceId, event: eventName, job_id: deliveryKey, payload })),
+      { onConflict: 'subscription_id,job_id,event', ignoreDuplicates: true }
+    )
+    .select();
+  if (insertError) throw insertError;
+
+  for (const delivery of deliveries || []) {
+    const subscription = matching.find((s: any) => s.id === delivery.subscription_id);
+    if (subscription) deliver(delivery, subscription);
+  }
+  return (deliveries || []).length;
+};
+
+const retryDueDeliveries = async () => {
+  const { data, error } = await db!
+    .from('webhook_deliveries')
+    .select('*, webhook_subscriptions(url, secret, enabled)')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(20);
+  if (error) throw error;
+
+  for (const delivery of data || []) {
+    const subscription = delivery.webhook_subscriptions;
+    if (!subscription?.enabled) {
+      await db!.from('webhook_deliveries')
+        .update({ status: 'failed', last_error: 'Webhook disabled', next_attempt_at: null })
+        .eq('id', delivery.id);
+      continue;
+    }
+    await deliver(delivery, subscription);
+  }
+};
+
+export const startWebhookWorker = () => {
+  if (!db) return;
+  setInterval(() => {
+    retryDueDeliveries().catch(e => console.error("Webhook retry pass failed", e));
+  }, WORKER_INTERVAL_MS);
+};
+
+/**
+ * Báo cáo từ trình duyệt phải khớp reservation mà chính người gửi đã giữ cho job trong workspace,
+ * cùng công cụ; báo thành công thì proxy phải đã tính tiền một lệnh gọi AI trên reservation đó
+ */
+const verifyReport = async (event: JobEventReport, userId: string): Promise<string | null> => {
+  const { data, error } = await db!
+    .from('credit_transactions')
+    .select('tool, member_id, used_amount')
+    .eq('user_id', `workspace:${event.workspaceId}`)
+    .eq('reference_id', `reservation:${event.reservationId}`)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data || data.member_id !== userId || data.tool !== event.tool) return "Job does not match a credit reservation of yours.";
+  if (event.status === 'succeeded' && !(data.used_amount > 0)) return "No AI call was made for this job.";
+  return null;
+};
+
+/**
+ * POST /api/webhooks/events: ứng dụng báo job nền đã kết thúc.
+ * Chỉ owner/designer (người được chạy job) và chỉ cho job khớp reservation của họ; mỗi reservation báo một lần.
+ */
+export const handleWebhookEventRequest = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!isWebhooksEnabled || !isSessionCheckEnabled) {
+    return sendJson(res, 503, { error: "Webhooks require Supabase (SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY) on the server." });
+  }
+  if (req.method !== 'POST') return sendJson(res, 405, { error: "Method not allowed." });
+
+  const check = await checkRequest(req);
+  if (!check.ok) return sendJson(res, check.status, { error: check.error });
+
+  let event: JobEventReport;
+  try {
+    event = await readJsonBody(req);
+  } catch (e: any) {
+    return sendJson(res, 400, { error: e.message });
+  }
+  if (!event?.jobId || !event.workspaceId || !event.reservationId || !event.tool || (event.status !== 'succeeded' && event.status !== 'failed')) {
+    return sendJson(res, 400, { error: "jobId, workspaceId, reservationId, tool and status are required." });
+  }
+
+  const { data: member } = await db!
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', event.workspaceId)
+    .eq('user_id', check.userId)
+    .maybeSingle();
+  if (!member || (member.role !== 'owner' && member.role !== 'designer')) {
+    return sendJson(res, 403, { error: "Only workspace owners and designers can report jobs." });
+  }
+
+  try {
+    const mismatch = await verifyReport(event, check.userId!);
+    if (mismatch) return sendJson(res, 403, { error: mismatch });
+    const results = event.status === 'succeeded' && Array.isArray(event.results) ? event.results : [];
+    const queued = await emitJobEvent({ ...event, results }, `reservation:${event.reservationId}`);
+    sendJson(res, 202, { deliveries: queued });
+  } catch (e) {
+    console.error("Failed to queue webhook deliveries", e);
+    sendJson(res, 503, { error: "Could not queue webhook deliveries." });
+  }
+};
@@ -0,0 +1,301 @@
+import { Annotation, AnnotationCallout, ShapeAnnotation } from "../types";
+
+export interface AnnotationBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Extra margin (in image pixels) around thin marks so they are easy to click
+const HIT_MARGIN = 12;
+
+const drawArrowHead = (ctx: CanvasRenderingContext2D, fromX: number, fromY: number, toX: number, toY: number, headLength: number) => {
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  ctx.beginPath();
+  ctx.moveTo(toX, toY);
+  ctx.lineTo(toX - headLength * Math.cos(angle - Math.PI / 6), toY - headLength * Math.sin(angle - Math.PI / 6));
+  ctx.moveTo(toX, toY);
+  ctx.lineTo(toX - headLength * Math.cos(angle + Math.PI / 6), toY - headLength * Math.sin(angle + Math.PI / 6));
+  ctx.stroke();
+};
+
+/**
+ * Khung hình chữ nhật/ellipse với chiều rộng, cao dương (khi kéo chuột ngược hướng)
+ */
+export const normalizeShape = (shape: ShapeAnnotation): ShapeAnnotation => ({
+  ...shape,
+  x: Math.min(shape.x, shape.x + shape.width),
+  y: Math.min(shape.y, shape.y + shape.height),
+  width: Math.abs(shape.width),
+  height: Math.abs(shape.height),
+});
+
+const textFont = (annotation: { fontSize: number; fontFamily: string }) => `bold ${annotation.fontSize}px ${annotation.fontFamily}`;
+
+/**
+ * Vẽ một chú thích lên canvas (toạ độ theo điểm ảnh của ảnh gốc)
+ */
+export const drawAnnotation = (ctx: CanvasRenderingContext2D, annotation: Annotation) => {
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  switch (annotation.type) {
+    case 'brush':
+    case 'highlighter': {
+      const [first, ...rest] = annotation.points;
+      if (!first) break;
+      ctx.globalAlpha = annotation.opacity ?? 1;
+      ctx.strokeStyle = annotation.color;
+      ctx.lineWidth = annotation.lineWidth;
+      ctx.beginPath();
+      ctx.moveTo(first.x, first.y);
+      // A single click still leaves a dot
+      if (rest.length === 0) ctx.lineTo(first.x + 0.1, first.y);
+      rest.forEach(point => ctx.lineTo(point.x, point.y));
+      ctx.stroke();
+      break;
+    }
+    case 'arrow':
+      ctx.strokeStyle = annotation.color;
+      ctx.lineWidth = annotation.lineWidth;
+      ctx.beginPath();
+      ctx.moveTo(annotation.startX, annotation.startY);
+      ctx.lineTo(annotation.endX, annotation.endY);
+      ctx.stroke();
+      drawArrowHead(ctx, annotation.startX, annotation.startY, annotation.endX, annotation.endY, annotation.lineWidth * 5);
+      break;
+    case 'rectangle':
+      ctx.strokeStyle = annotation.color;
+      ctx.lineWidth = annotation.lineWidth;
+      ctx.strokeRect(annotation.x, annotation.y, annotation.width, annotation.height);
+      break;
+    case 'ellipse':
+      ctx.strokeStyle = annotation.color;
+      ctx.lineWidth = annotation.lineWidth;
+      ctx.beginPath();
+      ctx.ellipse(
+        annotation.x + annotation.width / 2, annotation.y + annotation.height / 2,
+        Math.abs(annotation.width / 2), Math.abs(annotation.height / 2), 0, 0, Math.PI * 2
+      );
+      ctx.stroke();
+      break;
+    case 'text':
+      ctx.font = textFont(annotation);
+      ctx.fillStyle = annotation.color;
+      ctx.strokeStyle = 'white';
+      ctx.lineWidth = Math.max(2, annotation.fontSize / 10);
+      ctx.textBaseline = 'top';
+      ctx.strokeText(annotation.content, annotation.x, annotation.y);
+      ctx.fillText(annotation.content, annotation.x, annotation.y);
+      break;
+  }
+  ctx.restore();
+};
+
+/**
+ * Khung bao của chú thích; chữ cần ctx để đo chiều rộng
+ */
+export const annotationBounds = (ctx: CanvasRenderingContext2D, annotation: Annotation): AnnotationBounds => {
+  switch (annotation.type) {
+    case 'brush':
+    case 'highlighter': {
+      const xs = annotation.points.map(p => p.x);
+      const ys = annotation.points.map(p => p.y);
+      const pad = annotation.lineWidth / 2;
+      return { x: Math.min(...xs) - pad, y: Math.min(...ys) - pad, width: Math.max(...xs) - Math.min(...xs) + pad * 2, height: Math.max(...ys) - Math.min(...ys) + pad * 2 };
+    }
+    case 'arrow': {
+      const pad = annotation.lineWidth * 5;
+      const x = Math.min(annotation.startX, annotation.endX) - pad;
+      const y = Math.min(annotation.startY, annotation.endY) - pad;
+      return { x, y, width: Math.abs(annotation.endX - annotation.startX) + pad * 2, height: Math.abs(annotation.endY - annotation.startY) + pad * 2 };
+    }
+    case 'rectangle':
+    case 'ellipse': {
+      const { x, y, width, height } = normalizeShape(annotation);
+      const pad = annotation.lineWidth / 2;
+      return { x: x - pad, y: y - pad, width: width + pad * 2, height: height + pad * 2 };
+    }
+    case 'text': {
+      ctx.save();
+      ctx.font = textFont(annotation);
+      const width = ctx.measureText(annotation.content).width;
+      ctx.restore();
+      return { x: annotation.x, y: annotation.y, width, height: annotation.fontSize * 1.2 };
+    }
+  }
+};
+
+const distanceToSegment = (px: number, py: number, ax: number, ay: number, bx: number, by: number): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+const distanceToShapeOutline = (shape: ShapeAnnotation, px: number, py: number): number => {
+  const { x, y, width, height } = shape;
+  if (shape.type === 'rectangle') {
+    return Math.min(
+      distanceToSegment(px, py, x, y, x + width, y),
+      distanceToSegment(px, py, x + width, y, x + width, y + height),
+      distanceToSegment(px, py, x + width, y + height, x, y + height),
+      distanceToSegment(px, py, x, y + height, x, y)
+    );
+  }
+  const rx = Math.max(width / 2, 1);
+  const ry = Math.max(height / 2, 1);
+  const dx = (px - x - rx) / rx;
+  const dy = (py - y - ry) / ry;
+  // Radial distance scaled back to pixels; close enough for picking
+  return Math.abs(Math.hypot(dx, dy) - 1) * Math.min(rx, ry);
+};
+
+/**
+ * Chú thích trên cùng tại điểm (x, y), hoặc -1
+ */
+export const hitTestAnnotations = (ctx: CanvasRenderingContext2D, annotations: Annotation[], x: number, y: number): number => {
+  for (let i = annotations.length - 1; i >= 0; i--) {
+    const annotation = annotations[i];
+    if (annotation.type === 'brush' || annotation.type === 'highlighter') {
+      const tolerance = annotation.lineWidth / 2 + HIT_MARGIN;
+      const { points } = annotation;
+      const hit = points.length === 1
+        ? Math.hypot(x - points[0].x, y - points[0].y) <= tolerance
+        : points.slice(1).some((point, j) => distanceToSegment(x, y, points[j].x, points[j].y, point.x, point.y) <= tolerance);
+      if (hit) return i;
+    } else if (annotation.type === 'arrow') {
+      if (distanceToSegment(x, y, annotation.startX, annotation.startY, annotation.endX, annotation.endY) <= annotation.lineWidth / 2 + HIT_MARGIN) return i;
+    } else if (annotation.type === 'rectangle' || annotation.type === 'ellipse') {
+      // Only the outline is hit, so marks drawn inside a shape stay reachable
+      if (distanceToShapeOutline(normalizeShape(annotation), x, y) <= annotation.lineWidth / 2 + HIT_MARGIN) return i;
+    } else {
+      const box = annotationBounds(ctx, annotation);
+      if (x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height) return i;
+    }
+  }
+  return -1;
+};
+
+export const translateAnnotation = (annotation: Annotation, dx: number, dy: number): Annotation => {
+  switch (annotation.type) {
+    case 'brush':
+    case 'highlighter':
+      return { ...annotation, points: annotation.points.map(p => ({ x: p.x + dx, y: p.y + dy })) };
+    case 'arrow':
+      return { ...annotation, startX: annotation.startX + dx, startY: annotation.startY + dy, endX: annotation.endX + dx, endY: annotation.endY + dy };
+    case 'rectangle':
+    case 'ellipse':
+    case 'text':
+      return { ...annotation, x: annotation.x + dx, y: annotation.y + dy };
+  }
+};
+
+/**
+ * Đổi màu / độ dày (hoặc cỡ chữ) của một chú thích đã vẽ
+ */
+export const restyleAnnotation = (annotation: Annotation, style: { color?: string; lineWidth?: number; fontSize?: number }): Annotation => {
+  const color = style.color ?? annotation.color;
+  if (annotation.type === 'text') return { ...annotation, color, fontSize: style.fontSize ?? annotation.fontSize };
+  return { ...annotation, color, lineWidth: style.lineWidth ?? annotation.lineWidth };
+};
+
+// --- NUMBERED CALLOUTS ---
+
+const strokeCentre = (points: { x: number; y: number }[]) => {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return { x: (Math.min(...xs) + Math.max(...xs)) / 2, y: (Math.min(...ys) + Math.max(...ys)) / 2 };
+};
+
+/**
+ * Điểm được đánh dấu: đầu mũi tên, tâm khung / nét vẽ, vị trí chữ
+ */
+const annotationTarget = (annotation: Annotation): { x: number; y: number } => {
+  switch (annotation.type) {
+    case 'brush':
+    case 'highlighter':
+      return strokeCentre(annotation.points);
+    case 'arrow':
+      return { x: annotation.endX, y: annotation.endY };
+    case 'rectangle':
+    case 'ellipse':
+      return { x: annotation.x + annotation.width / 2, y: annotation.y + annotation.height / 2 };
+    case 'text':
+      return { x: annotation.x, y: annotation.y };
+  }
+};
+
+/**
+ * Vị trí huy hiệu số: đặt ở đầu nét / đuôi mũi tên / góc khung để không che vật thể được đánh dấu
+ */
+const badgePosition = (annotation: Annotation, radius: number): { x: number; y: number } => {
+  switch (annotation.type) {
+    case 'brush':
+    case 'highlighter':
+      return annotation.points[0] ?? { x: 0, y: 0 };
+    case 'arrow':
+      return { x: annotation.startX, y: annotation.startY };
+    case 'rectangle':
+    case 'ellipse': {
+      const shape = normalizeShape(annotation);
+      return { x: shape.x, y: shape.y };
+    }
+    case 'text':
+      return { x: annotation.x - radius * 1.3, y: annotation.y + annotation.fontSize / 2 };
+  }
+};
+
+/**
+ * Bán kính huy hiệu số theo độ rộng ảnh, để số đọc được trên ảnh lớn lẫn nhỏ
+ */
+export const calloutBadgeRadius = (imageWidth: number): number => Math.max(12, Math.round(imageWidth * 0.015));
+
+const isLightColor = (color: string): boolean => {
+  const match = color.match(/^#([0-9a-f]{6})$/i);
+  if (!match) return false;
+  const value = parseInt(match[1], 16);
+  const luminance = 0.299 * (value >> 16) + 0.587 * ((value >> 8) & 0xff) + 0.114 * (value & 0xff);
+  return luminance > 160;
+};
+
+/**
+ * Vẽ huy hiệu số của chú thích (cùng màu với nét) để mô hình ghép số với chỉ dẫn
+ */
+export const drawCalloutBadge = (ctx: CanvasRenderingContext2D, annotation: Annotation, number: number, radius: number) => {
+  const { x, y } = badgePosition(annotation, radius);
+  const light = isLightColor(annotation.color);
+  ctx.save();
+  ctx.beginPath();
+  ctx.arc(x, y, radius, 0, Math.PI * 2);
+  ctx.fillStyle = annotation.color;
+  ctx.fill();
+  ctx.lineWidth = Math.max(2, radius / 6);
+  ctx.strokeStyle = light ? '#000000' : '#FFFFFF';
+  ctx.stroke();
+  ctx.fillStyle = light ? '#000000' : '#FFFFFF';
+  ctx.font = `bold ${Math.round(radius * 1.2)}px Arial`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(number), x, y + radius * 0.05);
+  ctx.restore();
+};
+
+const toPercent = (value: number, size: number) => Math.round(Math.min(Math.max(value / size, 0), 1) * 1000) / 10;
+
+/**
+ * Danh sách chỉ dẫn đánh số gửi kèm ảnh chú thích (toạ độ theo % như ClickPoint)
+ */
+export const buildCallouts = (annotations: Annotation[], imageWidth: number, imageHeight: number): AnnotationCallout[] =>
+  annotations.map((annotation, index) => {
+    const target = annotationTarget(annotation);
+    return {
+      number: index + 1,
+      type: annotation.type,
+      x: toPercent(target.x, imageWidth),
+      y: toPercent(target.y, imageHeight),
+      instruction: annotation.instruction?.trim() || '',
+    };
+  });
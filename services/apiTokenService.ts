@@ -0,0 +1,66 @@
+import { ApiToken } from "../types";
+import { supabase, isSupabaseConfigured } from "../supabaseClient";
+import { getCurrentUser } from "./userIdentity";
+import { getActiveWorkspace } from "./workspaceService";
+
+const TOKEN_PREFIX = 'lxz_';
+const VISIBLE_PREFIX_LENGTH = 12;
+
+const fromRow = (row: any): ApiToken => ({
+  id: row.id,
+  name: row.name,
+  prefix: row.token_prefix,
+  workspaceId: row.workspace_id ?? null,
+  createdAt: row.created_at,
+  lastUsedAt: row.last_used_at ?? null,
+  revokedAt: row.revoked_at ?? null,
+});
+
+/**
+ * SHA-256 (hex) của token; chỉ giá trị này được lưu trong database
+ */
+export const hashApiToken = async (secret: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const isApiTokenAvailable = (): boolean => isSupabaseConfigured && !getCurrentUser().isAnonymous;
+
+export const listApiTokens = async (): Promise<ApiToken[]> => {
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .select('*')
+    .eq('owner_id', getCurrentUser().id)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(fromRow);
+};
+
+/**
+ * Tạo token cho workspace đang chọn (hoặc tài khoản cá nhân). `secret` chỉ trả về một lần.
+ */
+export const createApiToken = async (name: string): Promise<{ token: ApiToken; secret: string }> => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const secret = TOKEN_PREFIX + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .insert([{
+      owner_id: getCurrentUser().id,
+      workspace_id: getActiveWorkspace()?.id ?? null,
+      name: name.trim(),
+      token_hash: await hashApiToken(secret),
+      token_prefix: secret.slice(0, VISIBLE_PREFIX_LENGTH),
+    }])
+    .select()
+    .single();
+  if (error) throw error;
+  return { token: fromRow(data), secret };
+};
+
+/**
+ * Thu hồi qua RPC: client không được sửa trực tiếp dòng token
+ */
+export const revokeApiToken = async (id: string): Promise<void> => {
+  const { error } = await supabase.rpc('revoke_api_token', { p_id: id });
+  if (error) throw error;
+};
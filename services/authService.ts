@@ -0,0 +1,78 @@
+import { UserProfile } from "../types";
+import { supabase, isSupabaseConfigured } from "../supabaseClient";
+import { getCurrentUser, setAuthenticatedUser } from "./userIdentity";
+
+type AuthListener = (user: UserProfile) => void;
+
+const listeners = new Set<AuthListener>();
+let initPromise: Promise<UserProfile> | null = null;
+
+const toProfile = (session: any): UserProfile | null =>
+  session?.user ? { id: session.user.id, email: session.user.email ?? null, isAnonymous: false } : null;
+
+const applySession = (session: any) => {
+  const previousId = getCurrentUser().id;
+  setAuthenticatedUser(toProfile(session));
+  const user = getCurrentUser();
+  if (user.id !== previousId) listeners.forEach(listener => listener(user));
+};
+
+/**
+ * Khôi phục phiên đăng nhập (kể cả khi quay lại từ magic link) và theo dõi thay đổi.
+ * Offline: luôn là hồ sơ ẩn danh cục bộ.
+ */
+export const initAuth = (): Promise<UserProfile> => {
+  if (!initPromise) {
+    initPromise = (async () => {
+      if (!isSupabaseConfigured) return getCurrentUser();
+      try {
+        const { data } = await supabase.auth.getSession();
+        applySession(data?.session);
+        supabase.auth.onAuthStateChange((_event: string, session: any) => applySession(session));
+      } catch (e) {
+        console.warn("Could not restore auth session, using local profile", e);
+      }
+      return getCurrentUser();
+    })();
+  }
+  return initPromise;
+};
+
+export const isAuthAvailable = (): boolean => isSupabaseConfigured;
+
+/**
+ * Gửi link đăng nhập qua email; người dùng quay lại ứng dụng qua link đó
+ */
+export const signInWithMagicLink = async (email: string): Promise<void> => {
+  if (!isSupabaseConfigured) throw new Error("Sign-in requires Supabase.");
+  const { error } = await supabase.auth.signInWithOtp({
+    email: email.trim(),
+    options: { emailRedirectTo: window.location.origin },
+  });
+  if (error) throw error;
+};
+
+export const signOut = async (): Promise<void> => {
+  if (!isSupabaseConfigured) return;
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+  applySession(null);
+};
+
+/**
+ * Access token của phiên hiện tại, gửi kèm khi gọi server proxy; null nếu chưa đăng nhập
+ */
+export const getAccessToken = async (): Promise<string | null> => {
+  if (!isSupabaseConfigured) return null;
+  try {
+    const { data } = await supabase.auth.getSession();
+    return data?.session?.access_token ?? null;
+  } catch {
+    return null;
+  }
+};
+
+export const subscribeAuth = (listener: AuthListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
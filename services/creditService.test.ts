@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Tool } from '../types';
+import * as creditService from './creditService';
+
+describe('creditService (offline ledger)', () => {
+  it('grants the welcome credits only once', async () => {
+    const first = await creditService.initCredits();
+    const second = await creditService.initCredits();
+    expect(first).toBeGreaterThan(0);
+    expect(second).toBe(first);
+  });
+
+  it('rejects a deduction larger than the balance', async () => {
+    const balance = await creditService.initCredits();
+    await expect(creditService.deductCredits(balance + 1, 'Too much')).rejects.toSatisfy(creditService.isInsufficientCreditsError);
+    expect(await creditService.getBalance()).toBe(balance);
+  });
+
+  it('applies a reference id at most once', async () => {
+    const balance = await creditService.initCredits();
+    await creditService.deductCredits(10, 'Render', Tool.RENDER, 'job-1');
+    await creditService.deductCredits(10, 'Render', Tool.RENDER, 'job-1');
+    expect(await creditService.getBalance()).toBe(balance - 10);
+  });
+
+  it('holds credits while reserved and refunds a released reservation once', async () => {
+    const balance = await creditService.initCredits();
+    const reservation = await creditService.reserveCredits(30, 'Render', Tool.RENDER);
+    expect(await creditService.getBalance()).toBe(balance - 30);
+
+    await creditService.releaseReservation(reservation);
+    await creditService.releaseReservation(reservation);
+    expect(await creditService.getBalance()).toBe(balance);
+
+    const refunds = (await creditService.listTransactions()).filter(t => t.referenceId === `release:${reservation.id}`);
+    expect(refunds).toHaveLength(1);
+  });
+
+  it('keeps a confirmed reservation charged', async () => {
+    const balance = await creditService.initCredits();
+    const reservation = await creditService.reserveCredits(30, 'Render', Tool.RENDER);
+    await creditService.confirmReservation(reservation);
+    await creditService.releaseReservation(reservation);
+    expect(await creditService.getBalance()).toBe(balance - 30);
+  });
+
+  it('refunds the unused part of a confirmed reservation', async () => {
+    const balance = await creditService.initCredits();
+    const reservation = await creditService.reserveCredits(35, 'Render', Tool.RENDER);
+    await creditService.confirmReservation(reservation, 15);
+    expect(await creditService.getBalance()).toBe(balance - 20);
+  });
+});
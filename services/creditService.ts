@@ -0,0 +1,288 @@
+import { CreditReservation, CreditTransaction, CreditTransactionType, Tool } from "../types";
+import { INITIAL_CREDITS } from "../constants";
+import { supabase, isSupabaseConfigured } from "../supabaseClient";
+import { getActiveWorkspace, getCreditAccountId } from "./workspaceService";
+import { getAccessToken } from "./authService";
+
+const SETTLE_PATH = '/api/credits/settle';
+const LEDGER_KEY = 'luxzen.creditTransactions';
+const INSUFFICIENT_CREDITS = 'INSUFFICIENT_CREDITS';
+const SPENDING_LIMIT_EXCEEDED = 'SPENDING_LIMIT_EXCEEDED';
+const WELCOME_REFERENCE = 'welcome';
+
+type BalanceListener = (balance: number) => void;
+
+const balanceListeners = new Set<BalanceListener>();
+// Reservations settled in this session, so each is confirmed or released only once
+const settledReservations = new Set<string>();
+
+export const isInsufficientCreditsError = (e: any): boolean =>
+  typeof e?.message === 'string' && e.message.includes(INSUFFICIENT_CREDITS);
+
+// Workspace member went over their monthly spending limit
+export const isSpendingLimitError = (e: any): boolean =>
+  typeof e?.message === 'string' && e.message.includes(SPENDING_LIMIT_EXCEEDED);
+
+interface LedgerEntry {
+  type: CreditTransactionType;
+  amount: number; // Always positive; the sign comes from the type
+  description: string;
+  tool?: Tool;
+  referenceId?: string;
+  accountId?: string; // Defaults to the active credit account
+}
+
+// --- LOCAL STORAGE (offline) ---
+
+const readLocalLedger = (): CreditTransaction[] => {
+  try {
+    return JSON.parse(localStorage.getItem(LEDGER_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeLocalLedger = (transactions: CreditTransaction[]) => {
+  localStorage.setItem(LEDGER_KEY, JSON.stringify(transactions));
+};
+
+const sumBalance = (transactions: CreditTransaction[]) =>
+  transactions.reduce((sum, t) => sum + t.amount, 0);
+
+const applyLocal = (userId: string, entry: LedgerEntry): CreditTransaction => {
+  const ledger = readLocalLedger().filter(t => t.userId === userId);
+  const existing = entry.referenceId && ledger.find(t => t.referenceId === entry.referenceId);
+  if (existing) return existing;
+
+  const balance = sumBalance(ledger);
+  const amount = entry.type === 'deduct' ? -entry.amount : entry.amount;
+  if (balance + amount < 0) throw new Error(INSUFFICIENT_CREDITS);
+
+  const transaction: CreditTransaction = {
+    id: crypto.randomUUID(),
+    userId,
+    type: entry.type,
+    amount,
+    balanceAfter: balance + amount,
+    description: entry.description,
+    tool: entry.tool,
+    referenceId: entry.referenceId,
+    createdAt: new Date().toISOString(),
+  };
+  writeLocalLedger([...readLocalLedger(), transaction]);
+  return transaction;
+};
+
+const fromRow = (row: any): CreditTransaction => ({
+  id: row.id,
+  userId: row.user_id,
+  type: row.type,
+  amount: row.amount,
+  balanceAfter: row.balance_after,
+  description: row.description,
+  tool: row.tool ?? undefined,
+  referenceId: row.reference_id ?? undefined,
+  workspaceId: row.workspace_id ?? undefined,
+  memberEmail: row.member_email ?? undefined,
+  createdAt: row.created_at,
+});
+
+/**
+ * Ghi một giao dịch: trên Supabase qua RPC nguyên tử (khóa + kiểm tra số dư phía server), offline thì ghi sổ cục bộ
+ */
+const applyTransaction = async (entry: LedgerEntry): Promise<CreditTransaction> => {
+  const userId = entry.accountId ?? getCreditAccountId();
+  if (!isSupabaseConfigured) return applyLocal(userId, entry);
+
+  const { data, error } = await supabase.rpc('apply_credit_transaction', {
+    p_user_id: userId,
+    p_type: entry.type,
+    p_amount: entry.amount,
+    p_description: entry.description,
+    p_tool: entry.tool ?? null,
+    p_reference_id: entry.referenceId ?? null,
+  });
+  if (error) throw new Error(error.message);
+  return fromRow(data);
+};
+
+const notifyBalance = async () => {
+  if (balanceListeners.size === 0) return;
+  const balance = await getBalance();
+  balanceListeners.forEach(listener => listener(balance));
+};
+
+const record = async (entry: LedgerEntry): Promise<CreditTransaction> => {
+  const transaction = await applyTransaction(entry);
+  notifyBalance();
+  return transaction;
+};
+
+// --- PUBLIC API ---
+
+/**
+ * Số dư hiện tại; lần đầu tặng INITIAL_CREDITS (idempotent theo reference 'welcome')
+ */
+export const initCredits = async (): Promise<number> => {
+  if (getActiveWorkspace()) return getBalance(); // Workspace pools are topped up by the owner
+  try {
+    await applyTransaction({ type: 'topup', amount: INITIAL_CREDITS, description: 'Welcome credits', referenceId: WELCOME_REFERENCE });
+  } catch (e) {
+    console.error("Failed to grant welcome credits", e);
+  }
+  return getBalance();
+};
+
+export const getBalance = async (): Promise<number> => {
+  const userId = getCreditAccountId();
+  if (isSupabaseConfigured) {
+    try {
+      const { data, error } = await supabase.rpc('credit_balance', { p_user_id: userId });
+      if (error) throw error;
+      return data ?? 0;
+    } catch (e) {
+      console.error("Failed to fetch credit balance", e);
+      return 0;
+    }
+  }
+  return sumBalance(readLocalLedger().filter(t => t.userId === userId));
+};
+
+/**
+ * Lịch sử giao dịch mới nhất trước
+ */
+export const listTransactions = async (limit: number = 100): Promise<CreditTransaction[]> => {
+  const userId = getCreditAccountId();
+  if (isSupabaseConfigured) {
+    try {
+      const { data, error } = await supabase
+        .from('credit_transactions')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+      if (error) throw error;
+      return (data || []).map(fromRow);
+    } catch (e) {
+      console.error("Failed to fetch credit transactions", e);
+      return [];
+    }
+  }
+  return readLocalLedger()
+    .filter(t => t.userId === userId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .slice(0, limit);
+};
+
+/**
+ * Trừ credit; ném lỗi INSUFFICIENT_CREDITS nếu số dư không đủ
+ */
+export const deductCredits = (amount: number, description: string, tool?: Tool, referenceId?: string) =>
+  record({ type: 'deduct', amount, description, tool, referenceId });
+
+export const refundCredits = (amount: number, description: string, tool?: Tool, referenceId?: string) =>
+  record({ type: 'refund', amount, description, tool, referenceId });
+
+export const rewardCredits = (amount: number, description: string, referenceId?: string) =>
+  record({ type: 'reward', amount, description, referenceId });
+
+export const topUpCredits = (amount: number, description: string, referenceId?: string) =>
+  record({ type: 'topup', amount, description, referenceId });
+
+// --- RESERVATIONS ---
+
+/**
+ * Cùng server với AI proxy: cùng origin, hoặc origin của AI_PROXY_URL khi server đặt ở nơi khác
+ */
+const serverOrigin = (): string =>
+  process.env.AI_PROXY_URL ? new URL(process.env.AI_PROXY_URL, window.location.href).origin : '';
+
+/**
+ * Chốt reservation trên server: proxy biết phần đã tiêu nên server hoàn phần còn lại (false nếu chưa đăng nhập)
+ */
+const settleOnServer = async (reservation: CreditReservation): Promise<boolean> => {
+  const token = await getAccessToken();
+  if (!token) return false;
+  const response = await fetch(`${serverOrigin()}${SETTLE_PATH}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+    body: JSON.stringify({ reservationId: reservation.id }),
+  });
+  if (!response.ok) throw new Error(`Settling reservation failed (HTTP ${response.status})`);
+  notifyBalance();
+  return true;
+};
+
+/**
+ * Giữ credit trước khi gọi AI: trừ ngay, hoàn lại bằng releaseReservation nếu thất bại hoặc bị hủy
+ */
+export const reserveCredits = async (amount: number, description: string, tool?: Tool): Promise<CreditReservation> => {
+  const reservation: CreditReservation = {
+    id: crypto.randomUUID(),
+    accountId: getCreditAccountId(),
+    amount,
+    description,
+    tool,
+    createdAt: new Date().toISOString(),
+  };
+  await record({ type: 'deduct', amount, description, tool, referenceId: `reservation:${reservation.id}`, accountId: reservation.accountId });
+  return reservation;
+};
+
+/**
+ * Xác nhận khi tạo ảnh thành công: credit đã giữ được tính là đã dùng, trừ `unusedAmount` (vd. lần render lại không cần tới).
+ * Trên Supabase, server chốt reservation và tự tính phần proxy chưa dùng; offline thì hoàn `unusedAmount` tại chỗ.
+ */
+export const confirmReservation = async (reservation?: CreditReservation, unusedAmount: number = 0): Promise<void> => {
+  if (!reservation || settledReservations.has(reservation.id)) return;
+  settledReservations.add(reservation.id);
+  try {
+    if (isSupabaseConfigured) {
+      await settleOnServer(reservation);
+    } else if (unusedAmount > 0) {
+      await record({
+        type: 'refund',
+        amount: Math.min(unusedAmount, reservation.amount),
+        description: `Refund (unused): ${reservation.description}`,
+        tool: reservation.tool,
+        referenceId: `settle:${reservation.id}`,
+        accountId: reservation.accountId,
+      });
+    }
+  } catch (e) {
+    console.error("Failed to settle credit reservation", e);
+  }
+};
+
+/**
+ * Hoàn lại credit đã giữ (idempotent: mỗi reservation chỉ hoàn một lần, kể cả sau khi tải lại trang).
+ * Trên Supabase, server hoàn phần chưa dùng; client chỉ tự hoàn được reservation proxy chưa tiêu đồng nào.
+ */
+export const releaseReservation = async (reservation?: CreditReservation): Promise<void> => {
+  if (!reservation || settledReservations.has(reservation.id)) return;
+  settledReservations.add(reservation.id);
+  try {
+    if (isSupabaseConfigured && await settleOnServer(reservation)) return;
+  } catch (e) {
+    console.warn("Could not settle credit reservation on the server, refunding it directly", e);
+  }
+  try {
+    // Refund to the account that was charged, even if the user switched workspace since
+    await record({
+      type: 'refund',
+      amount: reservation.amount,
+      description: `Refund: ${reservation.description}`,
+      tool: reservation.tool,
+      referenceId: `release:${reservation.id}`,
+      accountId: reservation.accountId,
+    });
+  } catch (e) {
+    settledReservations.delete(reservation.id);
+    console.error("Failed to release credit reservation", e);
+  }
+};
+
+export const subscribeBalance = (listener: BalanceListener): (() => void) => {
+  balanceListeners.add(listener);
+  return () => { balanceListeners.delete(listener); };
+};
@@ -0,0 +1,110 @@
+import { FidelityScores } from "../types";
+import { supabase } from "../supabaseClient";
+import { loadImageData, loadImageDataAt } from "./imagePixels";
+
+// Both images are compared on the same grid, keeping the source aspect ratio
+const ANALYSIS_SIZE = 160;
+const HISTOGRAM_BINS = 8; // per channel → 512 bins
+
+const toGrayscale = ({ data, width, height }: ImageData): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Độ lớn gradient Sobel, làm mờ 3x3 để chấp nhận lệch 1 điểm ảnh
+ */
+const edgeMap = (image: ImageData): Float32Array => {
+  const { width, height } = image;
+  const gray = toGrayscale(image);
+  const magnitude = new Float32Array(width * height);
+  const at = (x: number, y: number) => gray[y * width + x];
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const gx = -at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1)
+        + at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1);
+      const gy = -at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1)
+        + at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1);
+      magnitude[y * width + x] = Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+
+  const blurred = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      let sum = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) sum += magnitude[(y + dy) * width + x + dx];
+      }
+      blurred[y * width + x] = sum / 9;
+    }
+  }
+  return blurred;
+};
+
+const correlation = (a: Float32Array, b: Float32Array): number => {
+  const n = a.length;
+  let meanA = 0, meanB = 0;
+  for (let i = 0; i < n; i++) { meanA += a[i]; meanB += b[i]; }
+  meanA /= n; meanB /= n;
+
+  let cov = 0, varA = 0, varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA, db = b[i] - meanB;
+    cov += da * db; varA += da * da; varB += db * db;
+  }
+  if (varA === 0 || varB === 0) return 0;
+  return cov / Math.sqrt(varA * varB);
+};
+
+const colorHistogram = ({ data }: ImageData): Float32Array => {
+  const histogram = new Float32Array(HISTOGRAM_BINS ** 3);
+  const shift = 8 - Math.log2(HISTOGRAM_BINS);
+  let total = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const bin = ((data[i] >> shift) * HISTOGRAM_BINS + (data[i + 1] >> shift)) * HISTOGRAM_BINS + (data[i + 2] >> shift);
+    histogram[bin]++;
+    total++;
+  }
+  return histogram.map(count => count / (total || 1));
+};
+
+const histogramIntersection = (a: Float32Array, b: Float32Array): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.min(a[i], b[i]);
+  return sum;
+};
+
+const toScore = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 100);
+
+/**
+ * So sánh bản render với ảnh gốc: bố cục (tương quan bản đồ cạnh) và màu sắc (giao histogram)
+ */
+export const scoreFidelity = async (sourceSrc: string, resultSrc: string): Promise<FidelityScores> => {
+  const source = await loadImageData(sourceSrc, ANALYSIS_SIZE);
+  const result = await loadImageDataAt(resultSrc, source.width, source.height);
+
+  return {
+    layout: toScore(correlation(edgeMap(source), edgeMap(result))),
+    color: toScore(histogramIntersection(colorHistogram(source), colorHistogram(result))),
+  };
+};
+
+/**
+ * Lưu điểm vào dòng render_history tương ứng
+ */
+export const saveFidelityScores = async (renderId: string, scores: FidelityScores): Promise<void> => {
+  try {
+    const { error } = await supabase
+      .from('render_history')
+      .update({ layout_score: scores.layout, color_score: scores.color })
+      .eq('id', renderId);
+    if (error) throw error;
+  } catch (e) {
+    console.error("Failed to save fidelity scores", e);
+  }
+};
@@ -0,0 +1,83 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { DEFAULT_RENDER_OPTIONS } from '../constants';
+import { FileData, RenderOptions } from '../types';
+import { setSupabaseClient, supabase } from '../supabaseClient';
+import { createMockProvider, setImageProvider } from './providers';
+import { buildMasterPrompt, generateWeddingRender } from './geminiService';
+
+const SOURCE: FileData = { mimeType: 'image/png', base64: 'iVBORw0KGgo=', width: 64, height: 48 };
+
+const gatedOptions = (threshold: number): RenderOptions => ({
+  ...DEFAULT_RENDER_OPTIONS,
+  qualityGate: { enabled: true, threshold, method: 'vision' },
+});
+
+describe('generateWeddingRender quality gate (headless)', () => {
+  afterEach(() => setImageProvider(null));
+
+  it('grades with vision and keeps a render that passes', async () => {
+    setImageProvider(createMockProvider(0));
+    const result = await generateWeddingRender(SOURCE, gatedOptions(50), 2, { headless: true });
+    expect(result.variants).toHaveLength(2);
+    expect(result.quality?.firstAttempt.method).toBe('vision');
+    expect(result.quality?.usedRetry).toBe(false);
+  });
+
+  it('re-renders only the best variant when the grade is under the threshold', async () => {
+    const mock = createMockProvider(0);
+    let renders = 0;
+    setImageProvider({ ...mock, render: (request, call) => { renders++; return mock.render(request, call); } });
+    const result = await generateWeddingRender(SOURCE, gatedOptions(100), 3, { headless: true });
+    expect(renders).toBe(4);
+    expect(result.variants).toHaveLength(3);
+    expect(result.quality?.retryAttempt).toBeDefined();
+  });
+
+  it('accepts the first attempt without a grade when vision grading fails', async () => {
+    const mock = createMockProvider(0);
+    // Grading requests fail; prompt analysis still works
+    setImageProvider({
+      ...mock,
+      analyze: (request, call) => request.json ? Promise.reject(new Error('Vision unavailable')) : mock.analyze(request, call),
+    });
+    const result = await generateWeddingRender(SOURCE, gatedOptions(70), 1, { headless: true });
+    expect(result.variants).toHaveLength(1);
+    expect(result.quality).toBeUndefined();
+  });
+});
+
+// Every query on a table resolves to that table's rows, whatever filters were chained
+const fakeSupabase = (tables: Record<string, unknown[]>) => ({
+  from: (table: string) => {
+    const chain: any = new Proxy({}, {
+      get: (_, prop) => prop === 'then'
+        ? (resolve: (value: unknown) => void) => resolve({ data: tables[table] ?? [], error: null })
+        : () => chain,
+    });
+    return chain;
+  },
+});
+
+describe('buildMasterPrompt learning context', () => {
+  const offlineClient = supabase;
+  afterEach(() => setSupabaseClient(offlineClient));
+
+  it('drops 5-star examples whose prompt lost the pick in another render', async () => {
+    setSupabaseClient(fakeSupabase({
+      render_history: [
+        { id: 'r1', master_prompt: 'PROMPT KEPT' },
+        { id: 'r2', master_prompt: 'PROMPT LOST ELSEWHERE' },
+      ],
+      render_variant_rejections: [
+        { render_id: 'r1', master_prompt: 'PROMPT KEPT' }, // Sibling of the chosen variant
+        { render_id: 'r3', master_prompt: 'PROMPT LOST ELSEWHERE' },
+      ],
+    }));
+    const draft = await buildMasterPrompt(SOURCE, { ...DEFAULT_RENDER_OPTIONS, hiddenAIContext: 'Ballroom, eye level.' }, {
+      scope: { ownerId: 'user-1', workspaceId: null },
+    });
+    const learning = draft.sections.find(section => section.id === 'learning')!.content;
+    expect(learning).toContain('PROMPT KEPT');
+    expect(learning).not.toContain('PROMPT LOST ELSEWHERE');
+  });
+});
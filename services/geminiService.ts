@@ -1,7 +1,13 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { FileData, RenderOptions, Resolution, EditMode, ClickPoint, SketchStyle, IdeaAsset, LearningContext } from "../types"; 
-import { PHOTOGRAPHY_PRESETS, STRUCTURE_FIDELITY_PROMPT, REALISM_MODIFIERS } from "../constants";
+import { FileData, RenderOptions, Resolution, EditMode, ClickPoint, AnnotationCallout, SketchStyle, IdeaAsset, LearningContext, RenderScope, WeddingRenderResult, ServiceCallOptions, PromptSection, MasterPromptDraft, QualityGateOptions, QualityGrade, QualityGateReport } from "../types"; 
+import { PHOTOGRAPHY_PRESETS, STRUCTURE_FIDELITY_PROMPT, REALISM_MODIFIERS, MAX_RENDER_VARIANTS } from "../constants";
 import { supabase } from "../supabaseClient";
+import { getImageProvider, ImageProvider, ImagePart, AspectRatio } from "./providers";
+import { resolveOptionPrompt } from "./optionCatalog";
+import { formatPaletteForPrompt, isPaletteUsable } from "./paletteService";
+import { scoreFidelity } from "./fidelityService";
+import { compositeMaskedEdit } from "./maskCompositing";
+import { getCurrentUserId } from "./userIdentity";
+import { getActiveWorkspace } from "./workspaceService";
 
 const WEDDING_MATERIALS_KEYWORDS = {
   // These are now examples or fallbacks, as actual values will come from options
@@ -9,13 +15,48 @@ const WEDDING_MATERIALS_KEYWORDS = {
   lighting: "cinematic volumetric lighting, warm amber ambient glow, professional stage spotlights, Tyndall effect"
 };
 
+// --- CANCELLATION HELPERS ---
+const createAbortError = () => new DOMException("Generation cancelled by user.", "AbortError");
+
+export const isAbortError = (e: any): boolean => e?.name === 'AbortError';
+
+const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+/**
+ * Chờ một khoảng thời gian, có thể bị hủy giữa chừng bằng AbortSignal
+ */
+const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) return reject(createAbortError());
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
 // --- RETRY HELPER FOR 503 ERRORS ---
-const callWithRetry = async <T>(fn: () => Promise<T>, retries = 5, delay = 3000): Promise<T> => {
+const callWithRetry = async <T>(
+    fn: () => Promise<T>,
+    callOptions: ServiceCallOptions = {},
+    retries = 5,
+    delay = 3000
+): Promise<T> => {
+    const { signal, onProgress } = callOptions;
     let lastError;
     for (let i = 0; i < retries; i++) {
+        throwIfAborted(signal);
         try {
             return await fn();
         } catch (e: any) {
+            if (signal?.aborted || isAbortError(e)) throw createAbortError();
             lastError = e;
             const msg = e?.message || JSON.stringify(e);
             
@@ -30,7 +71,14 @@ const callWithRetry = async <T>(fn: () => Promise<T>, retries = 5, delay = 3000)
             
             if (isLoadError && i < retries - 1) {
                 console.warn(`Gemini Model overloaded (Attempt ${i + 1}/${retries}). Retrying in ${delay}ms...`);
-                await new Promise(resolve => setTimeout(resolve, delay));
+                onProgress?.({
+                    stage: 'retry',
+                    message: `Máy chủ AI đang quá tải. Thử lại lần ${i + 2}/${retries} sau ${Math.round(delay / 1000)} giây...`,
+                    attempt: i + 2,
+                    maxAttempts: retries,
+                    waitMs: delay
+                });
+                await abortableDelay(delay, signal);
                 delay *= 2; // Exponential backoff (3s -> 6s -> 12s -> 24s -> 48s)
                 continue;
             }
@@ -45,22 +93,43 @@ const callWithRetry = async <T>(fn: () => Promise<T>, retries = 5, delay = 3000)
 /**
  * Lấy dữ liệu học tập từ Database (RLHF Retrieval)
  */
-const getLearningContext = async (category: string, style: string): Promise<LearningContext> => {
+const getLearningContext = async (category: string, style: string, scope: RenderScope): Promise<LearningContext> => {
+    // Learn from the workspace's shared history, or only from the user's own ratings
+    const [scopeColumn, scopeValue] = scope.workspaceId ? ['workspace_id', scope.workspaceId] : ['owner_id', scope.ownerId];
     try {
-        // 1. Lấy Top 3 Master Prompt 5 sao (Dữ liệu tích cực)
+        // 1. Lấy các Master Prompt 5 sao gần nhất (Dữ liệu tích cực)
         const { data: positive } = await supabase
             .from('render_history')
-            .select('master_prompt')
+            .select('id, master_prompt')
+            .eq(scopeColumn, scopeValue)
             .eq('category', category)
             .eq('style', style)
             .eq('rating', 5)
             .order('created_at', { ascending: false })
-            .limit(3);
+            .limit(10);
+
+        // 1b. Prompt của các biến thể bị loại khi chọn bản đẹp nhất
+        const { data: rejected } = await supabase
+            .from('render_variant_rejections')
+            .select('render_id, master_prompt, render_history!inner(owner_id, workspace_id)')
+            .eq(`render_history.${scopeColumn}`, scopeValue)
+            .eq('category', category)
+            .eq('style', style)
+            .not('master_prompt', 'is', null)
+            .order('created_at', { ascending: false })
+            .limit(50);
+
+        // A prompt whose variant lost the pick in another render is not a reliable example.
+        // Siblings of the chosen variant share its prompt, so rejections from the same render do not count.
+        const lostElsewhere = (renderId: string, prompt: string) =>
+            (rejected || []).some(r => r.master_prompt === prompt && r.render_id !== renderId);
+        const examples = (positive || []).filter(p => !lostElsewhere(p.id, p.master_prompt)).slice(0, 3);
 
         // 2. Lấy các Tags bị chê nhiều nhất (Dữ liệu tiêu cực)
         const { data: negative } = await supabase
             .from('render_history')
             .select('feedback_tags')
+            .eq(scopeColumn, scopeValue)
             .eq('category', category)
             .lt('rating', 3) // Lấy từ 1-2 sao
             .not('feedback_tags', 'is', null)
@@ -72,7 +141,7 @@ const getLearningContext = async (category: string, style: string): Promise<Lear
         const commonComplaints = Array.from(new Set(allNegativeTags));
 
         return {
-            examples: positive?.map(p => p.master_prompt).join('\n--- EXAMPLE ---\n') || "",
+            examples: examples.map(p => p.master_prompt).join('\n--- EXAMPLE ---\n'),
             constraints: commonComplaints.slice(0, 5).join(', ')
         };
     } catch (e) {
@@ -81,15 +150,22 @@ const getLearningContext = async (category: string, style: string): Promise<Lear
     }
 };
 
+/**
+ * Người dùng đã đăng nhập (hoặc hồ sơ ẩn danh) và workspace đang chọn
+ */
+const currentScope = (): RenderScope => ({ ownerId: getCurrentUserId(), workspaceId: getActiveWorkspace()?.id ?? null });
+
 /**
  * Lưu lịch sử render ban đầu
  */
-export const saveRenderHistory = async (options: RenderOptions, masterPrompt: string): Promise<string | null> => {
+export const saveRenderHistory = async (options: RenderOptions, masterPrompt: string, scope: RenderScope = currentScope()): Promise<string | null> => {
     try {
         const { data, error } = await supabase
             .from('render_history')
             .insert([
                 {
+                    owner_id: scope.ownerId,
+                    workspace_id: scope.workspaceId,
                     category: options.category,
                     style: options.style,
                     master_prompt: masterPrompt,
@@ -107,6 +183,44 @@ export const saveRenderHistory = async (options: RenderOptions, masterPrompt: st
     }
 };
 
+/**
+ * Lưu biến thể được chọn vào render_history và ghi nhận các biến thể bị loại (kèm prompt để học)
+ */
+export const saveRenderVariantSelection = async (
+    options: RenderOptions,
+    masterPrompt: string,
+    selectedIndex: number,
+    variantCount: number,
+    scope?: RenderScope
+): Promise<string | null> => {
+    const renderId = await saveRenderHistory(options, masterPrompt, scope);
+    if (!renderId || variantCount <= 1) return renderId;
+
+    try {
+        const rejected = Array.from({ length: variantCount }, (_, i) => i)
+            .filter(i => i !== selectedIndex)
+            .map(i => ({
+                render_id: renderId,
+                variant_index: i,
+                variant_count: variantCount,
+                selected_index: selectedIndex,
+                category: options.category,
+                style: options.style,
+                master_prompt: masterPrompt,
+                options
+            }));
+
+        const { error } = await supabase
+            .from('render_variant_rejections')
+            .insert(rejected);
+
+        if (error) throw error;
+    } catch (e) {
+        console.error("Failed to record rejected variants", e);
+    }
+    return renderId;
+};
+
 /**
  * Cập nhật đánh giá và tags
  */
@@ -184,7 +298,7 @@ export const getEmpowermentPrompt = (selections: RenderOptions): string => {
   if (selections.style === 'none') {
     autoInstructions.push("- TRÍCH XUẤT PHONG CÁCH: Phân tích các đường nét kiến trúc sẵn có trong ảnh (ví dụ: phào chỉ cổ điển, nét thẳng hiện đại) để render vật liệu đồng nhất với ngôn ngữ đó.");
   }
-  if (selections.colorPalette === 'none') {
+  if (selections.colorPalette === 'none' && !isPaletteUsable(selections.customPalette)) {
     autoInstructions.push("- BẢO TỒN BẢNG MÀU (STRICT COLOR MATCH): Thực hiện lấy mẫu màu trực tiếp từ hình ảnh gốc.");
   }
   if (selections.surfaceMaterial === 'none') {
@@ -212,88 +326,117 @@ MỤC TIÊU: Tạo ra bản render 8k siêu thực nhưng khi đặt cạnh ản
 
 export const generatePromptFromImageAndText = async (
   image: FileData, 
-  instruction: string
+  instruction: string,
+  callOptions: ServiceCallOptions = {}
 ): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing.");
-  }
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  const provider = getImageProvider();
   try {
-    const response = await callWithRetry(() => ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: {
-        parts: [
-          { text: instruction },
-          { inlineData: { mimeType: image.mimeType, data: image.base64 } }
-        ]
-      },
-      config: { temperature: 0.4 }
-    }));
-    return response.text || "Không thể phân tích ảnh.";
+    const text = await callWithRetry(() => provider.analyze({
+      prompt: instruction,
+      images: [image],
+      temperature: 0.4
+    }, callOptions), callOptions);
+    return text || "Không thể phân tích ảnh.";
   } catch (error) {
     console.error("Auto-Prompt Generation Error:", error);
     throw error;
   }
 };
 
-export const generateRenderPrompt = (
-  basePrompt: string, 
-  style: string, 
+/**
+ * Ghép các phần của master prompt thành prompt cuối cùng gửi cho model
+ */
+export const composeMasterPrompt = (sections: PromptSection[]): string =>
+  sections
+    .filter(section => section.content.trim())
+    .map(section => section.label ? `${section.label}: ${section.content.trim()}` : section.content.trim())
+    .join('\n\n');
+
+/**
+ * Dựng các phần của master prompt. `subjectSections` là phần mô tả chủ thể
+ * (mô tả cảnh, kiến thức học tập, phân tích ngầm...) chèn vào giữa khung prompt.
+ */
+export const buildRenderPromptSections = (
+  subjectSections: PromptSection[],
+  style: string,
   isAutoFocus: boolean,
   presetKey: string
-) => {
+): PromptSection[] => {
   const preset = PHOTOGRAPHY_PRESETS[presetKey as keyof typeof PHOTOGRAPHY_PRESETS] || PHOTOGRAPHY_PRESETS.CINEMATIC;
   
   const focusPrompt = isAutoFocus 
     ? "AI AUTOMATIC FOCUS: Identify the most prominent decorative element and apply a sharp photographic focus to it, creating a natural depth of field."
     : "MANUAL FOCUS: Keep the sharpness consistent across the designated focal area.";
 
-  return `
-    IMAGE TYPE: Wedding Design Render.
-    CORE INSTRUCTION: ${STRUCTURE_FIDELITY_PROMPT}
-    
-    SUBJECT DESCRIPTION: ${basePrompt}.
-    VISUAL STYLE: ${style}.
-    PHOTOGRAPHY SETTINGS: ${preset.prompt}.
-    FOCUS CONTROL: ${focusPrompt}.
-    
-    QUALITY STANDARDS: ${REALISM_MODIFIERS}.
-    
-    FINAL NOTE: Ensure the materials like glass, silk, and flowers look authentic under the specified lighting.
-  `;
+  return [
+    { id: 'image_type', title: 'Loại ảnh', label: 'IMAGE TYPE', content: 'Wedding Design Render.' },
+    { id: 'core_instruction', title: 'Ràng buộc bố cục', label: 'CORE INSTRUCTION', content: STRUCTURE_FIDELITY_PROMPT },
+    ...subjectSections,
+    { id: 'visual_style', title: 'Phong cách', label: 'VISUAL STYLE', content: `${style}.` },
+    { id: 'photography', title: 'Thông số nhiếp ảnh', label: 'PHOTOGRAPHY SETTINGS', content: `${preset.prompt}.` },
+    { id: 'focus', title: 'Lấy nét', label: 'FOCUS CONTROL', content: `${focusPrompt}.` },
+    { id: 'quality', title: 'Tiêu chuẩn chất lượng', label: 'QUALITY STANDARDS', content: `${REALISM_MODIFIERS}.` },
+    { id: 'final_note', title: 'Ghi chú cuối', label: 'FINAL NOTE', content: 'Ensure the materials like glass, silk, and flowers look authentic under the specified lighting.' },
+  ];
+};
+
+const subjectSection = (content: string): PromptSection => ({
+  id: 'subject', title: 'Mô tả chủ thể', label: 'SUBJECT DESCRIPTION', content
+});
+
+export const generateRenderPrompt = (
+  basePrompt: string, 
+  style: string, 
+  isAutoFocus: boolean,
+  presetKey: string
+) => {
+  return composeMasterPrompt(buildRenderPromptSections([subjectSection(`${basePrompt.trim()}.`)], style, isAutoFocus, presetKey));
 };
 
 // --- UPDATED MAIN RENDER FUNCTION WITH LEARNING ---
 
-export const generateWeddingRender = async (
+/**
+ * Step 0–1: truy xuất dữ liệu học tập và dựng master prompt (chưa render)
+ */
+export const buildMasterPrompt = async (
   sourceImage: FileData,
-  options: RenderOptions
-): Promise<{ imageUrl: string, renderId: string | null }> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing. Please set REACT_APP_GEMINI_API_KEY or process.env.API_KEY");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  options: RenderOptions,
+  callOptions: ServiceCallOptions = {}
+): Promise<MasterPromptDraft> => {
+  const { signal, onProgress } = callOptions;
+  const provider = getImageProvider();
 
   // STEP 0: RETRIEVE LEARNING CONTEXT (RLHF)
   console.log("Step 0: Retrieving AI Learning Context from Supabase...");
-  const learning = await getLearningContext(options.category, options.style);
+  onProgress?.({ stage: 'learning', message: "Đang truy xuất dữ liệu học tập từ các bản render trước..." });
+  const learning = await getLearningContext(options.category, options.style, callOptions.scope ?? currentScope());
   
+  throwIfAborted(signal);
   const empowermentPrompt = getEmpowermentPrompt(options);
 
   // STEP 1: PROMPT CONSTRUCTION
-  let masterPrompt = "";
+  let subjectSections: PromptSection[];
+
+  // Resolve the prompt text of each selection from the runtime option catalog
+  const style = resolveOptionPrompt('styles', options.style);
+  const colorPalette = isPaletteUsable(options.customPalette)
+    ? `custom palette, match these exact colours: ${formatPaletteForPrompt(options.customPalette)}`
+    : resolveOptionPrompt('palettes', options.colorPalette);
+  const surfaceMaterial = resolveOptionPrompt('surfaceMaterials', options.surfaceMaterial);
+  const textileMaterial = resolveOptionPrompt('textileMaterials', options.textileMaterial);
+  const textileColor1 = resolveOptionPrompt('textileColors', options.textileColor1);
+  const textileColor2 = resolveOptionPrompt('textileColors', options.textileColor2);
 
   // Construct textile material and color string
   let textileDetails = '';
   if (options.textileMaterial !== 'none') {
-    textileDetails += options.textileMaterial;
+    textileDetails += textileMaterial;
     if (options.textileColor1 !== 'none' && options.textileColor2 !== 'none') {
-      textileDetails += ` in a primary color of ${options.textileColor1} and a secondary color of ${options.textileColor2}`;
+      textileDetails += ` in a primary color of ${textileColor1} and a secondary color of ${textileColor2}`;
     } else if (options.textileColor1 !== 'none') {
-      textileDetails += ` in ${options.textileColor1}`;
+      textileDetails += ` in ${textileColor1}`;
     } else if (options.textileColor2 !== 'none') {
-      textileDetails += ` with accents of ${options.textileColor2}`;
+      textileDetails += ` with accents of ${textileColor2}`;
     }
   } else {
     textileDetails = 'appropriate luxury fabrics and draping based on context';
@@ -302,9 +445,9 @@ export const generateWeddingRender = async (
   const baseDescription = `
     Analyze this wedding sketch/3D base.
     CONTEXT: ${options.category !== 'none' ? options.category : 'wedding event space'}.
-    STYLE: ${options.style !== 'none' ? options.style : 'high-end luxury wedding'}.
-    PALETTE: ${options.colorPalette !== 'none' ? options.colorPalette : 'harmonious elegant palette'}.
-    MATERIALS: ${options.surfaceMaterial !== 'none' ? options.surfaceMaterial : 'appropriate luxury materials based on context'} for flooring and prominent surfaces.
+    STYLE: ${options.style !== 'none' ? style : 'high-end luxury wedding'}.
+    PALETTE: ${options.colorPalette !== 'none' || isPaletteUsable(options.customPalette) ? colorPalette : 'harmonious elegant palette'}.
+    MATERIALS: ${options.surfaceMaterial !== 'none' ? surfaceMaterial : 'appropriate luxury materials based on context'} for flooring and prominent surfaces.
     TEXTILE MATERIALS: ${textileDetails}.
     FLORALS: ${WEDDING_MATERIALS_KEYWORDS.florals}.
     LIGHTING: ${WEDDING_MATERIALS_KEYWORDS.lighting}.
@@ -313,8 +456,7 @@ export const generateWeddingRender = async (
   `;
 
   // Inject Learning Context into the Analysis Prompt
-  const learningPromptInjection = `
-    [INTERNAL KNOWLEDGE BASE - DO NOT REVEAL]:
+  const learningKnowledge = `
     I have analyzed past successful renders for this style (${options.style}) and category (${options.category}).
     
     SUCCESSFUL PATTERNS (EMULATE THESE):
@@ -323,17 +465,19 @@ export const generateWeddingRender = async (
     KNOWN MISTAKES (STRICTLY AVOID):
     ${learning.constraints ? `Avoid these specific issues complained by users: ${learning.constraints}` : "No specific constraints."}
   `;
+  const learningPromptInjection = `
+    [INTERNAL KNOWLEDGE BASE - DO NOT REVEAL]:${learningKnowledge}`;
 
   if (options.hiddenAIContext) {
       console.log("Step 1: Using Mixed Prompt Strategy (Hidden Context Available)...");
-      masterPrompt = generateRenderPrompt(
-          `${baseDescription}\n${learningPromptInjection}\nCONTEXTUAL ANALYSIS FROM SOURCE: ${options.hiddenAIContext}`,
-          options.style,
-          options.isAutoFocus,
-          options.cameraPreset
-      );
+      subjectSections = [
+          subjectSection(baseDescription),
+          { id: 'learning', title: 'Kiến thức học tập (RLHF)', label: '[INTERNAL KNOWLEDGE BASE - DO NOT REVEAL]', content: learningKnowledge },
+          { id: 'source_context', title: 'Phân tích ngầm từ ảnh gốc', label: 'CONTEXTUAL ANALYSIS FROM SOURCE', content: options.hiddenAIContext },
+      ];
   } else {
       console.log("Step 1: Analyzing structure with Gemini Flash (Fallback)...");
+      onProgress?.({ stage: 'analysis', message: "Đang phân tích bố cục và phối cảnh của ảnh gốc..." });
       const analysisPrompt = `
         ${baseDescription}
         ${learningPromptInjection}
@@ -345,121 +489,261 @@ export const generateWeddingRender = async (
       `;
 
       try {
-          const reasoningResponse = await callWithRetry(() => ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: {
-                parts: [
-                    { text: analysisPrompt },
-                    { inlineData: { mimeType: sourceImage.mimeType, data: sourceImage.base64 } }
-                ]
-            },
-            config: { temperature: 0.2 }
-          }));
+          const reasoningText = await callWithRetry(() => provider.analyze({
+            prompt: analysisPrompt,
+            images: [sourceImage],
+            temperature: 0.2
+          }, callOptions), callOptions);
           
-          const sceneDescription = reasoningResponse.text || baseDescription;
-          masterPrompt = generateRenderPrompt(
-              sceneDescription,
-              options.style,
-              options.isAutoFocus,
-              options.cameraPreset
-          );
+          const sceneDescription = reasoningText || baseDescription;
+          subjectSections = [subjectSection(sceneDescription)];
           
       } catch (e) {
+          if (isAbortError(e)) throw e;
           console.warn("Reasoning step failed, falling back to basic prompt", e);
-          masterPrompt = generateRenderPrompt(
-              baseDescription,
-              options.style,
-              options.isAutoFocus,
-              options.cameraPreset
-          );
+          subjectSections = [subjectSection(baseDescription)];
       }
   }
 
-  // STEP 2: RENDERING
-  console.log("Step 2: Rendering with Gemini Pro Image...");
-  try {
-    const renderResponse = await callWithRetry(() => ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
-      contents: {
-        parts: [
-          { text: masterPrompt },
-          { inlineData: { mimeType: sourceImage.mimeType, data: sourceImage.base64 } }
-        ]
-      },
-      config: {
-        systemInstruction: "You are a specialized 3D Wedding Visualizer. Transform the input sketch into a photorealistic render following the prompt exactly."
-      }
-    }));
+  const sections = buildRenderPromptSections(subjectSections, style, options.isAutoFocus, options.cameraPreset);
+  return { sections, masterPrompt: composeMasterPrompt(sections) };
+};
 
-    if (renderResponse.candidates && renderResponse.candidates.length > 0) {
-        const content = renderResponse.candidates[0].content;
-        
-        if (content && content.parts) {
-            for (const part of content.parts) {
-                if (part.inlineData && part.inlineData.data) {
-                    const imageUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
-                    
-                    // SAVE HISTORY TO SUPABASE
-                    const renderId = await saveRenderHistory(options, masterPrompt);
-                    
-                    return { imageUrl, renderId };
-                }
-            }
-        }
+/**
+ * Step 2: render N biến thể từ một master prompt có sẵn (có thể đã được chỉnh tay)
+ */
+export const renderFromMasterPrompt = async (
+  sourceImage: FileData,
+  masterPrompt: string,
+  variantCount: number = 1,
+  callOptions: ServiceCallOptions = {}
+): Promise<WeddingRenderResult> => {
+  const { signal, onProgress } = callOptions;
+  const provider = getImageProvider();
+
+  // STEP 2: RENDERING (N variants from the same master prompt)
+  const count = Math.min(Math.max(Math.round(variantCount), 1), MAX_RENDER_VARIANTS);
+  console.log(`Step 2: Rendering ${count} variant(s) with ${provider.models.image}...`);
+  onProgress?.({ stage: 'rendering', message: count > 1 ? `Đang render ${count} phương án...` : "Đang render ảnh 3D siêu thực..." });
+  const attempts = await Promise.allSettled(
+    Array.from({ length: count }, () => renderVariant(provider, sourceImage, masterPrompt, callOptions))
+  );
+  throwIfAborted(signal);
+
+  const variants = attempts
+    .filter((a): a is PromiseFulfilledResult<string> => a.status === 'fulfilled')
+    .map(a => a.value);
+
+  if (variants.length === 0) {
+    const firstFailure = attempts.find((a): a is PromiseRejectedResult => a.status === 'rejected');
+    console.error("Gemini Generation Error:", firstFailure?.reason);
+    throw firstFailure?.reason || new Error("No image generated in the response.");
+  }
+  if (variants.length < count) {
+    console.warn(`Only ${variants.length}/${count} variants were generated.`);
+  }
+
+  return { variants, masterPrompt };
+};
+
+export const generateWeddingRender = async (
+  sourceImage: FileData,
+  options: RenderOptions,
+  variantCount: number = 1,
+  callOptions: ServiceCallOptions = {}
+): Promise<WeddingRenderResult> => {
+  const { masterPrompt } = await buildMasterPrompt(sourceImage, options, callOptions);
+  const result = await renderFromMasterPrompt(sourceImage, masterPrompt, variantCount, callOptions);
+  if (!options.qualityGate?.enabled) return result;
+  return applyQualityGate(sourceImage, result, options.qualityGate, callOptions);
+};
+
+// --- QUALITY GATE ---
+
+const toDataUrl = (image: FileData) => `data:${image.mimeType};base64,${image.base64}`;
+
+const dataUrlToImagePart = (dataUrl: string): ImagePart => {
+  const [header, base64] = dataUrl.split(',');
+  return { mimeType: header.match(/^data:([^;]+)/)?.[1] || 'image/png', base64 };
+};
+
+const clampScore = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.round(Math.min(Math.max(value, 0), 100)) : null;
+
+const QUALITY_GRADING_PROMPT = `
+  Image 1 is the structural source (sketch / 3D base) of a wedding venue. Image 2 is a photorealistic render of it.
+  Grade the render against the source from 0 to 100 on:
+  - "layout": same camera angle, perspective and placement of every structural element (stage, aisle, tables, ceiling).
+  - "color": faithful to the source colours and materials (or to the requested palette when the source is uncoloured).
+  - "artifacts": 100 = clean; deduct for warped geometry, melted florals, duplicated objects, text, seams or noise.
+  Return ONLY JSON: {"layout": number, "color": number, "artifacts": number, "notes": "one short sentence naming the main problems"}
+`;
+
+/**
+ * Chấm điểm bản render so với ảnh gốc: Flash vision (bố cục, màu, lỗi ảnh) hoặc chỉ số cục bộ.
+ * Chỉ số cục bộ cần canvas của trình duyệt; khi headless mà vision lỗi thì trả về null (chưa chấm được).
+ */
+export const gradeRender = async (
+  sourceImage: FileData,
+  resultUrl: string,
+  method: QualityGateOptions['method'],
+  callOptions: ServiceCallOptions = {}
+): Promise<QualityGrade | null> => {
+  if (method === 'vision') {
+    try {
+      const text = await callWithRetry(() => getImageProvider().analyze({
+        prompt: QUALITY_GRADING_PROMPT,
+        images: [sourceImage, dataUrlToImagePart(resultUrl)],
+        temperature: 0.1,
+        json: true
+      }, callOptions), callOptions, 2);
+      const parsed = JSON.parse(text);
+      const layout = clampScore(parsed.layout);
+      const color = clampScore(parsed.color);
+      const artifacts = clampScore(parsed.artifacts);
+      if (layout !== null && color !== null && artifacts !== null) {
+        return {
+          layout, color, artifacts,
+          overall: Math.round((layout + color + artifacts) / 3),
+          notes: typeof parsed.notes === 'string' ? parsed.notes : undefined,
+          method: 'vision',
+        };
+      }
+      console.warn("Vision grade was incomplete", text);
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      console.warn("Vision grading failed", e);
     }
-    
-    throw new Error("No image generated in the response.");
+  }
 
-  } catch (error) {
-    console.error("Gemini Generation Error:", error);
-    throw error;
+  if (callOptions.headless) return null;
+  const { layout, color } = await scoreFidelity(toDataUrl(sourceImage), resultUrl);
+  return { layout, color, artifacts: null, overall: Math.round((layout + color) / 2), method: 'local' };
+};
+
+const gradeBestVariant = async (
+  sourceImage: FileData,
+  variants: string[],
+  method: QualityGateOptions['method'],
+  callOptions: ServiceCallOptions
+): Promise<{ index: number; grade: QualityGrade } | null> => {
+  let best: { index: number; grade: QualityGrade } | null = null;
+  for (const [index, variant] of variants.entries()) {
+    throwIfAborted(callOptions.signal);
+    const grade = await gradeRender(sourceImage, variant, method, callOptions);
+    if (grade && (!best || grade.overall > best.grade.overall)) best = { index, grade };
+  }
+  return best;
+};
+
+/**
+ * Chỉ dẫn sửa lỗi cho lần render lại, dựa trên các tiêu chí bị điểm thấp
+ */
+const buildCorrectionSection = (grade: QualityGrade, threshold: number): PromptSection => {
+  const fixes: string[] = [];
+  if (grade.layout < threshold) fixes.push("Match the source camera angle, perspective and the exact position of every structural element. Do not add, move or remove architecture or furniture.");
+  if (grade.color < threshold) fixes.push("Match the source colours and materials precisely; do not shift hue, saturation or white balance.");
+  if (grade.artifacts !== null && grade.artifacts < threshold) fixes.push("Remove rendering artifacts: no warped geometry, melted or duplicated florals, text, seams or noise.");
+  if (grade.notes) fixes.push(`Reviewer notes on the previous attempt: ${grade.notes}`);
+  if (fixes.length === 0) fixes.push("Stay closer to the source image in layout, colour and detail.");
+  return { id: 'quality_correction', title: 'Chỉ dẫn sửa lỗi (kiểm định chất lượng)', label: 'QUALITY CORRECTION (PREVIOUS ATTEMPT WAS REJECTED)', content: fixes.join('\n') };
+};
+
+/**
+ * Kiểm định chất lượng sau Step 2: nếu điểm dưới ngưỡng thì render lại một lần riêng phương án tốt nhất
+ * với chỉ dẫn sửa lỗi (giá một phương án) và giữ bản tốt hơn, kèm điểm của cả hai lần
+ */
+const applyQualityGate = async (
+  sourceImage: FileData,
+  result: WeddingRenderResult,
+  gate: QualityGateOptions,
+  callOptions: ServiceCallOptions
+): Promise<WeddingRenderResult> => {
+  const { signal, onProgress } = callOptions;
+
+  onProgress?.({ stage: 'grading', message: "Đang kiểm định chất lượng bản render..." });
+  const first = await gradeBestVariant(sourceImage, result.variants, gate.method, callOptions);
+  if (!first) {
+    // Nothing could be graded (headless and vision failed): accept the render without a quality report
+    console.warn("Quality gate could not grade the render, accepting the first attempt");
+    return result;
+  }
+  // Best-graded variant first so single-variant callers keep the better one
+  const firstVariants = [result.variants[first.index], ...result.variants.filter((_, i) => i !== first.index)];
+  const report: QualityGateReport = { threshold: gate.threshold, firstAttempt: first.grade, usedRetry: false };
+
+  if (first.grade.overall >= gate.threshold) {
+    return { ...result, variants: firstVariants, quality: report };
+  }
+
+  console.warn(`Quality gate: ${first.grade.overall} < ${gate.threshold}, re-rendering once with corrections`);
+  onProgress?.({ stage: 'retry', message: `Điểm chất lượng ${first.grade.overall}/100 dưới ngưỡng ${gate.threshold}, đang render lại với chỉ dẫn sửa lỗi...` });
+  const correctedPrompt = `${result.masterPrompt}\n\n${composeMasterPrompt([buildCorrectionSection(first.grade, gate.threshold)])}`;
+
+  let retry: WeddingRenderResult;
+  try {
+    retry = await renderFromMasterPrompt(sourceImage, correctedPrompt, 1, callOptions);
+  } catch (e) {
+    if (isAbortError(e)) throw e;
+    console.warn("Quality gate re-render failed, keeping the first attempt", e);
+    return { ...result, variants: firstVariants, quality: report };
+  }
+
+  onProgress?.({ stage: 'grading', message: "Đang chấm điểm lần render lại..." });
+  const second = await gradeBestVariant(sourceImage, retry.variants, gate.method, callOptions);
+  throwIfAborted(signal);
+  if (!second) return { ...result, variants: firstVariants, quality: report };
+  report.retryAttempt = second.grade;
+
+  if (second.grade.overall > first.grade.overall) {
+    report.usedRetry = true;
+    // The corrected render replaces the best variant; the other variants stay as they were
+    return { variants: [retry.variants[0], ...firstVariants.slice(1)], masterPrompt: correctedPrompt, quality: report };
   }
+  return { ...result, variants: firstVariants, quality: report };
+};
+
+/**
+ * Render một biến thể từ master prompt (Step 2)
+ */
+const renderVariant = async (
+  provider: ImageProvider,
+  sourceImage: FileData,
+  masterPrompt: string,
+  callOptions: ServiceCallOptions
+): Promise<string> => {
+  const [imageUrl] = await callWithRetry(() => provider.render({
+    prompt: masterPrompt,
+    images: [sourceImage],
+    systemInstruction: "You are a specialized 3D Wedding Visualizer. Transform the input sketch into a photorealistic render following the prompt exactly."
+  }, callOptions), callOptions);
+
+  if (!imageUrl) throw new Error("No image generated in the response.");
+  return imageUrl;
 };
 
 export const generateHighQualityImage = async (
   prompt: string,
   resolution: Resolution,
-  sourceImage: { mimeType: string; base64: string; width?: number; height?: number } 
+  sourceImage: { mimeType: string; base64: string; width?: number; height?: number },
+  callOptions: ServiceCallOptions = {}
 ): Promise<string[]> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing. Please set REACT_APP_GEMINI_API_KEY or process.env.API_KEY");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-  const contentsParts = [];
-  contentsParts.push({ inlineData: { mimeType: sourceImage.mimeType, data: sourceImage.base64 } });
-  contentsParts.push({ text: prompt });
+  const provider = getImageProvider();
 
-  const aspectRatio = sourceImage.width && sourceImage.height
+  const aspectRatio: AspectRatio = sourceImage.width && sourceImage.height
     ? (sourceImage.width / sourceImage.height > 1.5 ? "16:9" : (sourceImage.width / sourceImage.height > 1.0 ? "4:3" : (sourceImage.width / sourceImage.height < 0.6 ? "9:16" : "3:4")))
     : "16:9";
 
+  callOptions.onProgress?.({ stage: 'upscaling', message: `Đang nâng cấp ảnh lên ${resolution}...` });
   try {
-    const response = await callWithRetry(() => ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview', 
-      contents: { parts: contentsParts },
-      config: {
-        imageConfig: {
-          aspectRatio: aspectRatio as any,
-          imageSize: resolution,
-        },
-        systemInstruction: "You are an expert image upscaler."
-      },
-    }));
-
-    const generatedImageUrls: string[] = [];
-    if (response.candidates && response.candidates.length > 0) {
-      for (const candidate of response.candidates) {
-        if (candidate.content && candidate.content.parts) {
-          for (const part of candidate.content.parts) {
-            if (part.inlineData && part.inlineData.data) {
-              generatedImageUrls.push(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
-            }
-          }
-        }
-      }
-    }
+    const generatedImageUrls = await callWithRetry(() => provider.upscale({
+      prompt,
+      image: sourceImage,
+      resolution,
+      aspectRatio,
+      systemInstruction: "You are an expert image upscaler."
+    }, callOptions), callOptions);
+
     if (generatedImageUrls.length === 0) {
       throw new Error("No image data returned from generateHighQualityImage.");
     }
@@ -471,88 +755,130 @@ export const generateHighQualityImage = async (
   }
 };
 
+// How to read the marks drawn in AnnotationCanvas; the marks themselves must not appear in the result
+const ANNOTATION_LEGEND = `Image 2 is Image 1 with the user's marks drawn on top. Lines, arrows, rectangles and ellipses point at or frame the objects to change. Translucent highlighter strokes cover whole areas to change. Text on the image is an instruction. Marks in different colours are separate requests. Remove every mark and badge from the result.`;
+const CALLOUT_LEGEND = `Each mark carries a numbered round badge that matches the NUMBERED CALLOUTS list.`;
+
+/**
+ * Danh sách chỉ dẫn theo số: số trên ảnh → vị trí (%) → chỉ dẫn riêng
+ */
+const describeCallouts = (callouts: AnnotationCallout[]): string => {
+  const lines = callouts.map(c =>
+    `${c.number}. (X:${c.x}%, Y:${c.y}%) ${c.type}: ${c.instruction || 'no instruction, infer it from the mark and the user instructions'}`
+  );
+  return `NUMBERED CALLOUTS (apply each instruction only at its mark):\n${lines.join('\n')}`;
+};
+
 export const generateAdvancedEdit = async (
   sourceImageBase64: string,
   sourceImageMimeType: string,
   editMode: EditMode,
   secondaryImageData?: { base64: string; mimeType: string }, 
   targetClickPoints?: ClickPoint[], 
-  additionalPrompt?: string 
+  additionalPrompt?: string,
+  callouts?: AnnotationCallout[],
+  callOptions: ServiceCallOptions = {}
 ): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("API Key is missing.");
-  }
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const parts: any[] = [
-    { inlineData: { mimeType: sourceImageMimeType, data: sourceImageBase64 } }
+  const provider = getImageProvider();
+  const images: ImagePart[] = [
+    { mimeType: sourceImageMimeType, base64: sourceImageBase64 }
   ];
   let systemInstruction = "";
   let userPrompt = "";
 
   if (editMode === 'NOTE') {
     if (!secondaryImageData) throw new Error("Annotated image required");
-    parts.push({ inlineData: { mimeType: secondaryImageData.mimeType, data: secondaryImageData.base64 } });
+    images.push(secondaryImageData);
     const userInstructionText = additionalPrompt ? `USER INSTRUCTIONS: ${additionalPrompt}` : "Follow annotations.";
-    userPrompt = `TASK: PHOTOREALISTIC EDITING.\n${userInstructionText}`;
+    const hasCallouts = Boolean(callouts && callouts.length > 0);
+    const legend = hasCallouts ? `${ANNOTATION_LEGEND} ${CALLOUT_LEGEND}` : ANNOTATION_LEGEND;
+    const calloutText = hasCallouts ? `\n${describeCallouts(callouts!)}` : "";
+    userPrompt = `TASK: PHOTOREALISTIC EDITING.\n${legend}${calloutText}\n${userInstructionText}`;
     systemInstruction = "You are an AI image editor.";
 
   } else if (editMode === 'SWAP') {
     if (!secondaryImageData || !targetClickPoints) throw new Error("Swap data required");
-    parts.push({ inlineData: { mimeType: secondaryImageData.mimeType, data: secondaryImageData.base64 } });
+    images.push(secondaryImageData);
     const clickPointsDescription = targetClickPoints.map(p => `(X:${p.x}%, Y:${p.y}%)`).join(', ');
     userPrompt = `TASK: OBJECT REPLACEMENT at ${clickPointsDescription}.`;
     systemInstruction = "AI object replacement specialist.";
-  }
 
-  parts.push({ text: userPrompt });
+  } else if (editMode === 'MASK') {
+    if (!secondaryImageData) throw new Error("Mask image required");
+    if (!additionalPrompt?.trim()) throw new Error("Mask edits need an instruction");
+    images.push(secondaryImageData);
+    userPrompt = `TASK: MASKED INPAINTING.\nImage 2 is a black-and-white mask of Image 1. Change ONLY the white area, following the instructions. Keep the black area unchanged. Match the perspective, lighting, shadows and grain of the surrounding photo so the edited area blends in seamlessly. Keep the exact framing and size of Image 1.\nUSER INSTRUCTIONS: ${additionalPrompt}`;
+    systemInstruction = "You are an AI inpainting specialist.";
+
+  } else if (editMode === 'REMOVE') {
+    const objectText = additionalPrompt?.trim() ? ` (${additionalPrompt.trim()})` : "";
+    let target: string;
+    if (secondaryImageData) {
+      images.push(secondaryImageData);
+      target = `Image 2 is a black-and-white mask of Image 1. Remove the object(s) covered by the white area${objectText}.`;
+    } else if (targetClickPoints && targetClickPoints.length > 0) {
+      const clickPointsDescription = targetClickPoints.map(p => `(X:${p.x}%, Y:${p.y}%)`).join(', ');
+      target = `Remove the whole object at each of these points${objectText}: ${clickPointsDescription}.`;
+    } else {
+      throw new Error("Removal needs a mask or target points");
+    }
+    userPrompt = `TASK: OBJECT REMOVAL.\n${target}\nFill the space with what would realistically be behind them: continue the floor, walls, drapery, decor and lighting of the surrounding venue with matching perspective, shadows and grain. Also remove their shadows and reflections. Do not add new objects. Keep everything else and the exact framing of Image 1 unchanged.`;
+    systemInstruction = "You are an AI object removal and background reconstruction specialist.";
+  }
 
+  callOptions.onProgress?.({ stage: 'editing', message: "AI đang áp dụng các thay đổi được đánh dấu..." });
   try {
-    const response = await callWithRetry(() => ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview', 
-      contents: { parts: parts }, 
-      config: { systemInstruction }
-    }));
-    if (response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data) {
-       return `data:${response.candidates[0].content.parts[0].inlineData.mimeType};base64,${response.candidates[0].content.parts[0].inlineData.data}`;
-    }
-    throw new Error("No image generated.");
+    const result = await callWithRetry(() => provider.edit({
+      prompt: userPrompt,
+      images,
+      systemInstruction,
+      mode: editMode
+    }, callOptions), callOptions);
+    if ((editMode !== 'MASK' && editMode !== 'REMOVE') || !secondaryImageData) return result;
+    // The model may still touch pixels outside the mask; put the original back there
+    return await compositeMaskedEdit(
+      toDataUrl({ base64: sourceImageBase64, mimeType: sourceImageMimeType }),
+      result,
+      toDataUrl(secondaryImageData)
+    );
   } catch (error) {
     console.error("Advanced Edit Error:", error);
     throw error;
   }
 };
 
-export const detectSimilarObjects = async (base64: string, mime: string, prompt: string): Promise<ClickPoint[]> => {
-    if (!process.env.API_KEY) throw new Error("API Key missing");
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    try {
-        const response = await callWithRetry(() => ai.models.generateContent({
-            model: 'gemini-3-flash-preview',
-            contents: { parts: [{ inlineData: { mimeType: mime, data: base64 } }, { text: prompt }] },
-            config: { responseMimeType: "application/json", responseSchema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } } } } }
-        }));
-        const jsonStr = response.text?.trim();
-        return jsonStr ? JSON.parse(jsonStr) : [];
-    } catch (e) {
-        throw e;
-    }
+export const detectSimilarObjects = async (
+    base64: string,
+    mime: string,
+    prompt: string,
+    callOptions: ServiceCallOptions = {}
+): Promise<ClickPoint[]> => {
+    const provider = getImageProvider();
+    callOptions.onProgress?.({ stage: 'detecting', message: "Đang nhận diện vật thể tương tự..." });
+    return callWithRetry(() => provider.detect({
+        prompt,
+        image: { mimeType: mime, base64 }
+    }, callOptions), callOptions);
 };
 
-export const generateSketch = async (base64: string, mime: string, style: SketchStyle, res: Resolution): Promise<string> => {
-     if (!process.env.API_KEY) throw new Error("API Key missing");
-     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-     try {
-         const response = await callWithRetry(() => ai.models.generateContent({
-             model: 'gemini-2.5-flash-image',
-             contents: { parts: [{ inlineData: { mimeType: mime, data: base64 } }, { text: `High quality ${style} sketch.` }] }
-         }));
-         if (response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data) {
-            return `data:${response.candidates[0].content.parts[0].inlineData.mimeType};base64,${response.candidates[0].content.parts[0].inlineData.data}`;
-         }
-         throw new Error("No sketch generated");
-     } catch (e) {
-         throw e;
-     }
+export const generateSketch = async (
+    base64: string,
+    mime: string,
+    style: SketchStyle,
+    res: Resolution,
+    callOptions: ServiceCallOptions = {}
+): Promise<string> => {
+     const provider = getImageProvider();
+     callOptions.onProgress?.({ stage: 'sketching', message: "Gemini 2.5 Flash đang vẽ lại phác thảo..." });
+     const [sketchUrl] = await callWithRetry(() => provider.render({
+         prompt: `High quality ${style} sketch.`,
+         images: [{ mimeType: mime, base64 }],
+         tier: 'fast',
+         purpose: 'sketch',
+         resolution: res
+     }, callOptions), callOptions);
+     if (sketchUrl) return sketchUrl;
+     throw new Error("No sketch generated");
 };
 
 // --- IDEA GENERATOR WITH MULTIMODAL COMPOSITING ---
@@ -560,15 +886,15 @@ export const generateSketch = async (base64: string, mime: string, style: Sketch
 export const generateIdeaRender = async (
     sketch: FileData, 
     assets: IdeaAsset[], 
-    onStatus?: (s:string)=>void
+    callOptions: ServiceCallOptions = {}
 ): Promise<string> => {
-     if (!process.env.API_KEY) throw new Error("API Key missing");
-     const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+     const { onProgress } = callOptions;
+     const provider = getImageProvider();
      
-     if (onStatus) onStatus("Đang phân tích Moodboard & Phác thảo...");
+     onProgress?.({ stage: 'analysis', message: "Đang phân tích Moodboard & Phác thảo..." });
 
-     // 1. Prepare parts for the multimodal request
-     const requestParts: any[] = [];
+     // 1. Prepare images for the multimodal request
+     const requestImages: ImagePart[] = [];
      
      // 2. Build the descriptive prompt
      let promptText = `
@@ -580,7 +906,7 @@ export const generateIdeaRender = async (
      `;
 
      // Add Sketch as Image 1
-     requestParts.push({ inlineData: { mimeType: sketch.mimeType, data: sketch.base64 } });
+     requestImages.push(sketch);
 
      // 3. Loop through assets to add reference images and build instructions
      assets.forEach((asset, index) => {
@@ -594,7 +920,7 @@ export const generateIdeaRender = async (
              `;
              
              // Add the asset image data to the request parts
-             requestParts.push({ inlineData: { mimeType: asset.image.mimeType, data: asset.image.base64 } });
+             requestImages.push(asset.image);
          }
      });
 
@@ -608,27 +934,19 @@ export const generateIdeaRender = async (
      - OUTPUT: A single cohesive image where all reference materials are blended into the sketch structure.
      `;
 
-     // Add the text prompt as the first part of the request (or anywhere, but structure usually implies text + images)
-     // For @google/genai, we can construct the parts array with text and inlineData objects.
-     // We'll put the text instruction at the beginning of the context.
-     requestParts.unshift({ text: promptText });
-
      // 3. Render
-     if (onStatus) onStatus("Đang thực hiện Render tổng hợp đa phương thức...");
+     onProgress?.({ stage: 'rendering', message: "Đang thực hiện Render tổng hợp đa phương thức..." });
      
      try {
-         const response = await callWithRetry(() => ai.models.generateContent({
-            // Using Pro model for best multimodal reasoning and image compositing
-            model: 'gemini-3-pro-image-preview', 
-            contents: { parts: requestParts },
-            config: {
-                systemInstruction: "You are a professional 3D Compositor and Architectural Visualizer. Your goal is to take a base sketch and realistically populate it with specific reference objects at specific locations, creating a cohesive, photorealistic final image."
-            }
-         }));
-
-         if (response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data) {
-            return `data:${response.candidates[0].content.parts[0].inlineData.mimeType};base64,${response.candidates[0].content.parts[0].inlineData.data}`;
-         }
+         // The provider sends the text instruction first, then the sketch and references in order
+         const [ideaUrl] = await callWithRetry(() => provider.render({
+            prompt: promptText,
+            images: requestImages,
+            systemInstruction: "You are a professional 3D Compositor and Architectural Visualizer. Your goal is to take a base sketch and realistically populate it with specific reference objects at specific locations, creating a cohesive, photorealistic final image.",
+            purpose: 'idea'
+         }, callOptions), callOptions);
+
+         if (ideaUrl) return ideaUrl;
          throw new Error("Idea render failed: No image data.");
      } catch (e) {
          console.error("Render Error:", e);
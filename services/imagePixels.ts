@@ -0,0 +1,43 @@
+const drawImageData = (
+  src: string,
+  getSize: (img: HTMLImageElement) => { width: number; height: number }
+): Promise<ImageData> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const { width, height } = getSize(img);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(width));
+      canvas.height = Math.max(1, Math.round(height));
+      const ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) {
+        return reject(new Error("Could not get 2D rendering context for canvas."));
+      }
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+    };
+    img.onerror = (err) => reject(err);
+    img.src = src;
+  });
+};
+
+/**
+ * Đọc điểm ảnh của một ảnh (data URL / object URL) đã thu nhỏ, để phân tích cục bộ không cần gọi AI
+ */
+export const loadImageData = (src: string, maxSize: number = 128): Promise<ImageData> =>
+  drawImageData(src, img => {
+    const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+    return { width: img.width * scale, height: img.height * scale };
+  });
+
+/**
+ * Đọc điểm ảnh ở kích thước cố định (co giãn), để so sánh hai ảnh theo từng điểm
+ */
+export const loadImageDataAt = (src: string, width: number, height: number): Promise<ImageData> =>
+  drawImageData(src, () => ({ width, height }));
+
+/**
+ * Đọc điểm ảnh ở kích thước gốc, khi cần giữ nguyên từng điểm (ghép ảnh theo mask)
+ */
+export const loadImageDataNative = (src: string): Promise<ImageData> =>
+  drawImageData(src, img => ({ width: img.width, height: img.height }));
@@ -0,0 +1,316 @@
+import { CreditReservation, FileData, JobPayload, JobStatus, RenderJob, ServiceCallOptions, Tool } from "../types";
+import { DEFAULT_JOB_CONCURRENCY } from "../constants";
+import * as geminiService from "./geminiService";
+import * as creditService from "./creditService";
+import * as pricing from "./pricing";
+import * as webhookService from "./webhookService";
+import { getActiveWorkspace } from "./workspaceService";
+
+const DB_NAME = 'luxzen-jobs';
+const DB_VERSION = 1;
+const STORE_NAME = 'jobs';
+const CONCURRENCY_KEY = 'luxzen.jobConcurrency';
+
+type JobsListener = (jobs: RenderJob[]) => void;
+
+interface JobOutcome {
+  results: string[];
+  masterPrompt?: string;
+  renderId?: string | null;
+  unusedCredits?: number; // Held but not needed, e.g. the quality gate's re-render; refunded on confirm
+}
+
+let jobs: RenderJob[] = [];
+let concurrency = Number(localStorage.getItem(CONCURRENCY_KEY)) || DEFAULT_JOB_CONCURRENCY;
+let initPromise: Promise<void> | null = null;
+const listeners = new Set<JobsListener>();
+const controllers = new Map<string, AbortController>();
+
+// --- INDEXEDDB PERSISTENCE ---
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("IndexedDB unavailable, jobs will not survive a reload.", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async (mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<any> => {
+  const db = await openDb();
+  if (!db) return undefined;
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const persistJob = (job: RenderJob) => {
+  const { progress, ...stored } = job;
+  withStore('readwrite', store => store.put({ ...stored, progress: null }))
+    .catch(e => console.warn("Failed to persist job:", e));
+};
+
+const deleteStoredJob = (id: string) => {
+  withStore('readwrite', store => store.delete(id))
+    .catch(e => console.warn("Failed to delete job:", e));
+};
+
+/**
+ * Bỏ File và blob URL (không còn hợp lệ sau khi tải lại trang), giữ base64
+ */
+const toStoredImage = (image: FileData): FileData => ({
+  base64: image.base64,
+  mimeType: image.mimeType,
+  width: image.width,
+  height: image.height,
+  objectURL: `data:${image.mimeType};base64,${image.base64}`,
+});
+
+const toStoredPayload = (payload: JobPayload): JobPayload => {
+  switch (payload.tool) {
+    case Tool.ADVANCED_EDIT:
+      return { ...payload, sourceImage: toStoredImage(payload.sourceImage), secondaryImage: payload.secondaryImage && toStoredImage(payload.secondaryImage) };
+    case Tool.IDEA_GENERATOR:
+      return {
+        ...payload,
+        sourceSketch: toStoredImage(payload.sourceSketch),
+        assets: payload.assets.map(asset => ({ ...asset, image: asset.image ? toStoredImage(asset.image) : null })),
+      };
+    default:
+      return { ...payload, sourceImage: toStoredImage(payload.sourceImage) };
+  }
+};
+
+// --- EXECUTORS ---
+
+/**
+ * Gọi đúng hàm geminiService cho từng Tool
+ */
+const executeJob = async (payload: JobPayload, callOptions: ServiceCallOptions): Promise<JobOutcome> => {
+  switch (payload.tool) {
+    case Tool.RENDER: {
+      const result = payload.masterPrompt
+        ? await geminiService.renderFromMasterPrompt(payload.sourceImage, payload.masterPrompt, payload.variantCount, callOptions)
+        : await geminiService.generateWeddingRender(payload.sourceImage, payload.options, payload.variantCount, callOptions);
+      // Single variant: nothing to pick, save to history like the Render tab does
+      const renderId = result.variants.length === 1
+        ? await geminiService.saveRenderVariantSelection(payload.options, result.masterPrompt, 0, 1)
+        : null;
+      // Draft-prompt jobs skip the gate and were priced without it
+      const unusedCredits = payload.masterPrompt ? 0 : pricing.unusedQualityRetry(payload.options.qualityGate, result.quality);
+      return { results: result.variants, masterPrompt: result.masterPrompt, renderId, unusedCredits };
+    }
+    case Tool.UPSCALE: {
+      const results = await geminiService.generateHighQualityImage(payload.prompt, payload.resolution, payload.sourceImage, callOptions);
+      return { results: results.slice(0, 1) };
+    }
+    case Tool.ADVANCED_EDIT: {
+      const result = await geminiService.generateAdvancedEdit(
+        payload.sourceImage.base64,
+        payload.sourceImage.mimeType,
+        payload.editMode,
+        payload.secondaryImage && { base64: payload.secondaryImage.base64, mimeType: payload.secondaryImage.mimeType },
+        payload.targetPoints,
+        payload.additionalPrompt,
+        payload.callouts,
+        callOptions
+      );
+      return { results: [result] };
+    }
+    case Tool.SKETCH_CONVERTER: {
+      const result = await geminiService.generateSketch(
+        payload.sourceImage.base64,
+        payload.sourceImage.mimeType,
+        payload.sketchStyle,
+        payload.resolution,
+        callOptions
+      );
+      return { results: [result] };
+    }
+    case Tool.IDEA_GENERATOR: {
+      const result = await geminiService.generateIdeaRender(payload.sourceSketch, payload.assets, callOptions);
+      return { results: [result] };
+    }
+  }
+};
+
+// --- SCHEDULER ---
+
+const notify = () => {
+  const snapshot = [...jobs];
+  listeners.forEach(listener => listener(snapshot));
+};
+
+const updateJob = (id: string, patch: Partial<RenderJob>, persist = true): RenderJob | undefined => {
+  jobs = jobs.map(job => job.id === id ? { ...job, ...patch } : job);
+  const job = jobs.find(j => j.id === id);
+  if (job && persist) persistJob(job);
+  notify();
+  return job;
+};
+
+const runJob = async (job: RenderJob) => {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+  updateJob(job.id, { status: 'running', startedAt: Date.now(), error: undefined });
+
+  try {
+    const { unusedCredits, ...outcome } = await executeJob(job.payload, {
+      signal: controller.signal,
+      onProgress: (progress) => updateJob(job.id, { progress }, false),
+      reservationId: job.reservation?.id,
+    });
+    const finished = updateJob(job.id, { ...outcome, status: 'succeeded', progress: null, finishedAt: Date.now() });
+    creditService.confirmReservation(job.reservation, unusedCredits);
+    if (finished) webhookService.reportJobFinished(finished);
+  } catch (e) {
+    creditService.releaseReservation(job.reservation);
+    if (geminiService.isAbortError(e)) {
+      updateJob(job.id, { status: 'cancelled', progress: null, finishedAt: Date.now() });
+    } else {
+      console.error(`Job ${job.id} failed:`, e);
+      const failed = updateJob(job.id, { status: 'failed', progress: null, error: (e as Error)?.message || String(e), finishedAt: Date.now() });
+      if (failed) webhookService.reportJobFinished(failed);
+    }
+  } finally {
+    controllers.delete(job.id);
+    pump();
+  }
+};
+
+/**
+ * Khởi chạy job đang chờ cho tới khi đạt giới hạn song song
+ */
+const pump = () => {
+  let running = jobs.filter(job => job.status === 'running').length;
+  // Oldest first
+  const waiting = jobs.filter(job => job.status === 'queued').sort((a, b) => a.createdAt - b.createdAt);
+  for (const job of waiting) {
+    if (running >= concurrency) break;
+    running++;
+    runJob(job);
+  }
+};
+
+// --- PUBLIC API ---
+
+/**
+ * Nạp job từ IndexedDB. Job đang chạy dở khi tải lại trang được đưa lại vào hàng đợi.
+ */
+export const initJobQueue = (): Promise<void> => {
+  if (!initPromise) {
+    initPromise = (async () => {
+      try {
+        const stored: RenderJob[] = (await withStore('readonly', store => store.getAll())) || [];
+        const restored = stored.map(job => job.status === 'running' ? { ...job, status: 'queued' as JobStatus, startedAt: undefined } : job);
+        restored.filter(job => job.status === 'queued').forEach(persistJob);
+        // Keep jobs enqueued before the load finished
+        const known = new Set(jobs.map(job => job.id));
+        jobs = [...restored.filter(job => !known.has(job.id)), ...jobs];
+      } catch (e) {
+        console.warn("Failed to load jobs from IndexedDB:", e);
+      }
+      notify();
+      pump();
+    })();
+  }
+  return initPromise;
+};
+
+export const enqueueJob = (label: string, payload: JobPayload, reservation?: CreditReservation): RenderJob => {
+  const job: RenderJob = {
+    id: crypto.randomUUID(),
+    label,
+    payload: toStoredPayload(payload),
+    reservation,
+    status: 'queued',
+    progress: null,
+    results: [],
+    workspaceId: getActiveWorkspace()?.id ?? null,
+    createdAt: Date.now(),
+  };
+  jobs = [...jobs, job];
+  persistJob(job);
+  notify();
+  pump();
+  return job;
+};
+
+export const cancelJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  if (!job) return;
+  if (job.status === 'running') {
+    controllers.get(id)?.abort();
+  } else if (job.status === 'queued') {
+    creditService.releaseReservation(job.reservation);
+    updateJob(id, { status: 'cancelled', finishedAt: Date.now() });
+  }
+};
+
+/**
+ * Đưa job lỗi hoặc đã hủy trở lại hàng đợi; credit đã hoàn lúc thất bại được giữ lại lần nữa
+ */
+export const retryJob = async (id: string): Promise<void> => {
+  const job = jobs.find(j => j.id === id);
+  if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+
+  let reservation: CreditReservation | undefined;
+  if (job.reservation) {
+    const { amount, description, tool } = job.reservation;
+    try {
+      reservation = await creditService.reserveCredits(amount, description, tool);
+    } catch (e) {
+      updateJob(id, { error: creditService.isInsufficientCreditsError(e) ? "Số dư Credits không đủ để chạy lại." : (e as Error)?.message || String(e) });
+      return;
+    }
+  }
+  updateJob(id, { status: 'queued', reservation, error: undefined, startedAt: undefined, finishedAt: undefined });
+  pump();
+};
+
+export const removeJob = (id: string) => {
+  const job = jobs.find(j => j.id === id);
+  // A running job releases its reservation when the abort lands in runJob
+  if (job?.status === 'queued') creditService.releaseReservation(job.reservation);
+  controllers.get(id)?.abort();
+  jobs = jobs.filter(job => job.id !== id);
+  deleteStoredJob(id);
+  notify();
+};
+
+export const clearFinishedJobs = () => {
+  const finished = jobs.filter(job => job.status !== 'queued' && job.status !== 'running');
+  finished.forEach(job => deleteStoredJob(job.id));
+  jobs = jobs.filter(job => job.status === 'queued' || job.status === 'running');
+  notify();
+};
+
+export const getJobs = (): RenderJob[] => [...jobs];
+
+export const getJobConcurrency = (): number => concurrency;
+
+export const setJobConcurrency = (value: number) => {
+  concurrency = Math.max(1, Math.round(value));
+  localStorage.setItem(CONCURRENCY_KEY, String(concurrency));
+  pump();
+};
+
+export const subscribeJobs = (listener: JobsListener): (() => void) => {
+  listeners.add(listener);
+  listener([...jobs]);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const pixels = new Map<string, ImageData>();
+
+vi.mock('./imagePixels', () => ({
+  loadImageDataNative: async (src: string) => pixels.get(src),
+  loadImageDataAt: async (src: string) => pixels.get(src),
+}));
+
+import { compositeMaskedEdit } from './maskCompositing';
+
+// Node has no canvas: a minimal ImageData and a canvas that keeps what was drawn on it
+class TestImageData {
+  data: Uint8ClampedArray;
+  constructor(public width: number, public height: number) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+}
+
+const image = (...rgb: [number, number, number][]): ImageData => {
+  const data = new TestImageData(rgb.length, 1);
+  rgb.forEach((px, i) => data.data.set([...px, 255], i * 4));
+  return data as unknown as ImageData;
+};
+
+describe('compositeMaskedEdit', () => {
+  let drawn: ImageData | null;
+
+  beforeEach(() => {
+    drawn = null;
+    vi.stubGlobal('ImageData', TestImageData);
+    vi.stubGlobal('document', {
+      createElement: () => ({
+        getContext: () => ({ putImageData: (data: ImageData) => { drawn = data; } }),
+        toDataURL: () => 'data:image/png;base64,',
+      }),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    pixels.clear();
+  });
+
+  it('keeps original pixels outside the mask and blends soft edges', async () => {
+    pixels.set('original', image([10, 20, 30], [10, 20, 30], [10, 20, 30]));
+    pixels.set('edited', image([200, 200, 200], [110, 120, 130], [250, 0, 0]));
+    pixels.set('mask', image([0, 0, 0], [255, 255, 255], [128, 128, 128]));
+
+    const result = await compositeMaskedEdit('original', 'edited', 'mask');
+
+    expect(result.startsWith('data:image/png')).toBe(true);
+    expect(Array.from(drawn!.data)).toEqual([
+      10, 20, 30, 255, // Outside the mask: untouched even though the model changed it
+      110, 120, 130, 255, // Fully masked: the edit
+      Math.round(10 * (127 / 255) + 250 * (128 / 255)), Math.round(20 * (127 / 255)), Math.round(30 * (127 / 255)), 255,
+    ]);
+  });
+});
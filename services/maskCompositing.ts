@@ -0,0 +1,34 @@
+import { loadImageDataAt, loadImageDataNative } from "./imagePixels";
+
+/**
+ * Ghép kết quả AI vào ảnh gốc theo mask (trắng = vùng sửa): ngoài mask luôn là điểm ảnh gốc,
+ * kể cả khi mô hình vẽ lệch hoặc đổi cả những vùng không được đánh dấu
+ */
+export const compositeMaskedEdit = async (originalSrc: string, editedSrc: string, maskSrc: string): Promise<string> => {
+  const original = await loadImageDataNative(originalSrc);
+  const { width, height } = original;
+  // The model may answer at a different size or aspect; stretch it back onto the original frame
+  const [edited, mask] = await Promise.all([
+    loadImageDataAt(editedSrc, width, height),
+    loadImageDataAt(maskSrc, width, height),
+  ]);
+
+  const out = new ImageData(width, height);
+  for (let i = 0; i < out.data.length; i += 4) {
+    // Mask luminance is the blend weight, so soft brush edges blend instead of leaving a seam
+    const weight = mask.data[i] / 255;
+    for (let c = 0; c < 3; c++) {
+      out.data[i + c] = weight === 0 ? original.data[i + c] : Math.round(original.data[i + c] * (1 - weight) + edited.data[i + c] * weight);
+    }
+    out.data[i + 3] = 255;
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get 2D rendering context for canvas.");
+  ctx.putImageData(out, 0, 0);
+  // PNG keeps the untouched pixels exactly as decoded from the original
+  return canvas.toDataURL('image/png');
+};
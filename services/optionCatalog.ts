@@ -0,0 +1,190 @@
+import { OptionCatalog, OptionCatalogKind, OptionItem } from "../types";
+import { WEDDING_STYLES, COLOR_PALETTES, SURFACE_MATERIALS, TEXTILE_MATERIALS, TEXTILE_COLORS } from "../constants";
+import { supabase, isSupabaseConfigured } from "../supabaseClient";
+
+const CATALOG_OVERRIDE_KEY = 'luxzen.optionCatalog';
+const CATALOG_JSON_URL = '/option-catalog.json';
+
+export const OPTION_CATALOG_KINDS: { kind: OptionCatalogKind; label: string }[] = [
+  { kind: 'styles', label: 'Phong Cách' },
+  { kind: 'palettes', label: 'Bảng Màu' },
+  { kind: 'surfaceMaterials', label: 'Vật Liệu Bề Mặt' },
+  { kind: 'textileMaterials', label: 'Chất Liệu Vải' },
+  { kind: 'textileColors', label: 'Màu Vải' },
+];
+
+const withOrder = (items: OptionItem[]): OptionItem[] => items.map((item, index) => ({ ...item, enabled: true, order: index }));
+
+export const BUILT_IN_OPTION_CATALOG: OptionCatalog = {
+  styles: withOrder(WEDDING_STYLES),
+  palettes: withOrder(COLOR_PALETTES),
+  surfaceMaterials: withOrder(SURFACE_MATERIALS),
+  textileMaterials: withOrder(TEXTILE_MATERIALS),
+  textileColors: withOrder(TEXTILE_COLORS),
+};
+
+export type OptionCatalogSource = 'supabase' | 'local' | 'file' | 'built-in';
+
+let activeCatalog: OptionCatalog = BUILT_IN_OPTION_CATALOG;
+let activeSource: OptionCatalogSource = 'built-in';
+
+/**
+ * Bổ sung kind bị thiếu bằng bản dựng sẵn; 'none' (AI tự đề xuất) luôn có mặt
+ */
+const normalizeCatalog = (partial: Partial<OptionCatalog>): OptionCatalog => {
+  const catalog = { ...BUILT_IN_OPTION_CATALOG };
+  for (const { kind } of OPTION_CATALOG_KINDS) {
+    const items = partial[kind];
+    if (!Array.isArray(items) || items.length === 0) continue;
+    const hasAuto = items.some(item => item.value === 'none');
+    const autoItem = BUILT_IN_OPTION_CATALOG[kind].find(item => item.value === 'none');
+    catalog[kind] = hasAuto || !autoItem ? items : [{ ...autoItem, order: -1 }, ...items];
+  }
+  return catalog;
+};
+
+const fetchFromSupabase = async (): Promise<OptionCatalog | null> => {
+  const { data, error } = await supabase
+    .from('option_catalog')
+    .select('*')
+    .order('sort_order', { ascending: true });
+  if (error) throw error;
+  if (!data || data.length === 0) return null;
+
+  const partial: Partial<OptionCatalog> = {};
+  for (const row of data) {
+    const kind = row.kind as OptionCatalogKind;
+    (partial[kind] ||= []).push({
+      value: row.value,
+      label: row.label,
+      description: row.description ?? undefined,
+      prompt: row.prompt ?? undefined,
+      enabled: row.enabled,
+      order: row.sort_order,
+    });
+  }
+  return normalizeCatalog(partial);
+};
+
+const readLocalOverride = (): OptionCatalog | null => {
+  try {
+    const raw = localStorage.getItem(CATALOG_OVERRIDE_KEY);
+    return raw ? normalizeCatalog(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+};
+
+const fetchFromFile = async (): Promise<OptionCatalog | null> => {
+  const response = await fetch(CATALOG_JSON_URL);
+  if (!response.ok) return null;
+  return normalizeCatalog(await response.json());
+};
+
+/**
+ * Nạp danh mục: Supabase → bản chỉnh sửa offline → /option-catalog.json → constants.ts
+ */
+export const loadOptionCatalog = async (): Promise<OptionCatalog> => {
+  if (isSupabaseConfigured) {
+    try {
+      const remote = await fetchFromSupabase();
+      if (remote) {
+        activeCatalog = remote;
+        activeSource = 'supabase';
+        return activeCatalog;
+      }
+    } catch (e) {
+      console.warn("Could not load option catalog from Supabase", e);
+    }
+  }
+
+  const local = readLocalOverride();
+  if (local) {
+    activeCatalog = local;
+    activeSource = 'local';
+    return activeCatalog;
+  }
+
+  try {
+    const file = await fetchFromFile();
+    if (file) {
+      activeCatalog = file;
+      activeSource = 'file';
+      return activeCatalog;
+    }
+  } catch (e) {
+    console.warn("Could not load option catalog file", e);
+  }
+
+  activeCatalog = BUILT_IN_OPTION_CATALOG;
+  activeSource = 'built-in';
+  return activeCatalog;
+};
+
+export const getOptionCatalog = (): OptionCatalog => activeCatalog;
+
+export const getOptionCatalogSource = (): OptionCatalogSource => activeSource;
+
+/**
+ * Các mục đang bật, đã sắp xếp, để hiển thị trong OptionSelector
+ */
+export const getActiveOptions = (catalog: OptionCatalog, kind: OptionCatalogKind): OptionItem[] =>
+  catalog[kind]
+    .filter(item => item.enabled !== false)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+/**
+ * Văn bản gửi cho Gemini ứng với một lựa chọn (mặc định là chính value)
+ */
+export const resolveOptionPrompt = (kind: OptionCatalogKind, value: string): string => {
+  if (value === 'none') return value;
+  const item = activeCatalog[kind].find(option => option.value === value);
+  return item?.prompt?.trim() || value;
+};
+
+/**
+ * Lưu danh mục do admin chỉnh sửa (Supabase, hoặc localStorage khi offline)
+ */
+export const saveOptionCatalog = async (catalog: OptionCatalog): Promise<OptionCatalogSource> => {
+  const normalized = normalizeCatalog(catalog);
+
+  if (isSupabaseConfigured) {
+    try {
+      const rows = OPTION_CATALOG_KINDS.flatMap(({ kind }) =>
+        normalized[kind].map((item, index) => ({
+          kind,
+          value: item.value,
+          label: item.label,
+          description: item.description ?? null,
+          prompt: item.prompt ?? null,
+          sort_order: item.order ?? index,
+          enabled: item.enabled !== false,
+          updated_at: new Date().toISOString(),
+        }))
+      );
+      const { error } = await supabase.from('option_catalog').upsert(rows);
+      if (error) throw error;
+
+      activeCatalog = normalized;
+      activeSource = 'supabase';
+      return activeSource;
+    } catch (e) {
+      console.warn("Failed to save option catalog to Supabase, saving locally", e);
+    }
+  }
+
+  localStorage.setItem(CATALOG_OVERRIDE_KEY, JSON.stringify(normalized));
+  activeCatalog = normalized;
+  activeSource = 'local';
+  return activeSource;
+};
+
+/**
+ * Bỏ bản chỉnh sửa offline và nạp lại từ nguồn gốc
+ */
+export const resetOptionCatalog = async (): Promise<OptionCatalog> => {
+  localStorage.removeItem(CATALOG_OVERRIDE_KEY);
+  return loadOptionCatalog();
+};
+
+export const exportOptionCatalog = (catalog: OptionCatalog): string => JSON.stringify(catalog, null, 2);
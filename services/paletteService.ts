@@ -0,0 +1,160 @@
+import { PaletteColor } from "../types";
+import { loadImageData } from "./imagePixels";
+
+export const MIN_PALETTE_COLORS = 2;
+export const MAX_PALETTE_COLORS = 6;
+
+type RGB = [number, number, number];
+
+// Reference colours used to give each hex value a readable name in the prompt
+const NAMED_COLORS: { name: string; hex: string }[] = [
+  { name: 'Pure White', hex: '#FFFFFF' },
+  { name: 'Ivory', hex: '#FFFFF0' },
+  { name: 'Cream', hex: '#F5EBDC' },
+  { name: 'Champagne', hex: '#F7E7CE' },
+  { name: 'Beige', hex: '#E1C699' },
+  { name: 'Taupe', hex: '#8B7D6B' },
+  { name: 'Warm Grey', hex: '#A09A92' },
+  { name: 'Silver', hex: '#C0C0C0' },
+  { name: 'Charcoal', hex: '#36454F' },
+  { name: 'Black', hex: '#111111' },
+  { name: 'Gold', hex: '#D4AF37' },
+  { name: 'Rose Gold', hex: '#B76E79' },
+  { name: 'Copper', hex: '#B87333' },
+  { name: 'Terracotta', hex: '#E2725B' },
+  { name: 'Peach', hex: '#FFCBA4' },
+  { name: 'Coral', hex: '#FF7F50' },
+  { name: 'Blush Pink', hex: '#F4C2C2' },
+  { name: 'Dusty Rose', hex: '#DCAE96' },
+  { name: 'Hot Pink', hex: '#FF69B4' },
+  { name: 'Red', hex: '#C41E3A' },
+  { name: 'Burgundy', hex: '#800020' },
+  { name: 'Plum', hex: '#8E4585' },
+  { name: 'Lavender', hex: '#B57EDC' },
+  { name: 'Lilac', hex: '#C8A2C8' },
+  { name: 'Navy Blue', hex: '#1F305E' },
+  { name: 'Royal Blue', hex: '#4169E1' },
+  { name: 'Dusty Blue', hex: '#6E8CA0' },
+  { name: 'Light Blue', hex: '#ADD8E6' },
+  { name: 'Teal', hex: '#008080' },
+  { name: 'Emerald', hex: '#50C878' },
+  { name: 'Sage Green', hex: '#9CAF88' },
+  { name: 'Olive', hex: '#708238' },
+  { name: 'Forest Green', hex: '#228B22' },
+  { name: 'Mustard', hex: '#E1AD01' },
+  { name: 'Lemon Yellow', hex: '#FFF44F' },
+  { name: 'Chocolate Brown', hex: '#5C3A21' },
+];
+
+const hexToRgb = (hex: string): RGB => {
+  const n = parseInt(hex.slice(1), 16);
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+};
+
+const rgbToHex = ([r, g, b]: RGB): string =>
+  '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('').toUpperCase();
+
+// Weighted RGB distance ("redmean"), close enough to perceptual for naming
+const colorDistance = ([r1, g1, b1]: RGB, [r2, g2, b2]: RGB): number => {
+  const rMean = (r1 + r2) / 2;
+  const dr = r1 - r2, dg = g1 - g2, db = b1 - b2;
+  return Math.sqrt((2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db);
+};
+
+/**
+ * Chuẩn hóa "#abc", "abc123", "#AABBCC" → "#AABBCC" (null nếu không hợp lệ)
+ */
+export const normalizeHex = (input: string): string | null => {
+  let hex = input.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) hex = hex.split('').map(c => c + c).join('');
+  return /^[0-9a-f]{6}$/i.test(hex) ? `#${hex.toUpperCase()}` : null;
+};
+
+/**
+ * Tên tiếng Anh gần nhất cho một mã hex
+ */
+export const nameForHex = (hex: string): string => {
+  const rgb = hexToRgb(hex);
+  let best = NAMED_COLORS[0];
+  let bestDistance = Infinity;
+  for (const candidate of NAMED_COLORS) {
+    const distance = colorDistance(rgb, hexToRgb(candidate.hex));
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best.name;
+};
+
+export const toPaletteColor = (hex: string): PaletteColor => ({ hex, name: nameForHex(hex) });
+
+/**
+ * Chỉ dùng bảng màu tùy chỉnh khi có đủ 2–6 màu
+ */
+export const isPaletteUsable = (palette?: PaletteColor[]): palette is PaletteColor[] =>
+  !!palette && palette.length >= MIN_PALETTE_COLORS && palette.length <= MAX_PALETTE_COLORS;
+
+export const formatPaletteForPrompt = (palette: PaletteColor[]): string =>
+  palette.map(color => `${color.name} (${color.hex})`).join(', ');
+
+/**
+ * Trích bảng màu chủ đạo từ ảnh tham chiếu (k-means cục bộ, không gọi AI)
+ */
+export const extractPalette = async (imageSrc: string, count: number = 5): Promise<PaletteColor[]> => {
+  const { data } = await loadImageData(imageSrc, 96);
+  const pixels: RGB[] = [];
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue; // Skip transparent pixels
+    pixels.push([data[i], data[i + 1], data[i + 2]]);
+  }
+  if (pixels.length === 0) return [];
+
+  const k = Math.min(Math.max(count, MIN_PALETTE_COLORS), MAX_PALETTE_COLORS, pixels.length);
+
+  // Deterministic farthest-point initialisation
+  const centroids: RGB[] = [pixels[Math.floor(pixels.length / 2)]];
+  while (centroids.length < k) {
+    let farthest = pixels[0];
+    let farthestDistance = -1;
+    for (const pixel of pixels) {
+      const nearest = Math.min(...centroids.map(c => colorDistance(pixel, c)));
+      if (nearest > farthestDistance) {
+        farthest = pixel;
+        farthestDistance = nearest;
+      }
+    }
+    centroids.push(farthest);
+  }
+
+  const assignments = new Array<number>(pixels.length).fill(0);
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const sums = centroids.map(() => [0, 0, 0, 0]);
+    pixels.forEach((pixel, i) => {
+      let bestIndex = 0;
+      let bestDistance = Infinity;
+      centroids.forEach((centroid, c) => {
+        const distance = colorDistance(pixel, centroid);
+        if (distance < bestDistance) {
+          bestIndex = c;
+          bestDistance = distance;
+        }
+      });
+      assignments[i] = bestIndex;
+      const sum = sums[bestIndex];
+      sum[0] += pixel[0]; sum[1] += pixel[1]; sum[2] += pixel[2]; sum[3]++;
+    });
+    sums.forEach((sum, c) => {
+      if (sum[3] > 0) centroids[c] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+    });
+  }
+
+  const population = centroids.map((_, c) => assignments.filter(a => a === c).length);
+  const hexes = centroids
+    .map((centroid, c) => ({ hex: rgbToHex(centroid), population: population[c] }))
+    .filter(entry => entry.population > 0)
+    .sort((a, b) => b.population - a.population)
+    .map(entry => entry.hex);
+
+  return Array.from(new Set(hexes)).map(toPaletteColor);
+};
@@ -0,0 +1,141 @@
+import { PresetOptions, RenderOptions, RenderPreset } from "../types";
+import { supabase, isSupabaseConfigured } from "../supabaseClient";
+import { getCurrentUserId } from "./userIdentity";
+import { getActiveWorkspace } from "./workspaceService";
+
+const PRESETS_KEY = 'luxzen.renderPresets';
+
+/**
+ * Lấy phần RenderOptions thuộc về preset
+ */
+export const toPresetOptions = (options: RenderOptions): PresetOptions => ({
+  category: options.category,
+  style: options.style,
+  colorPalette: options.colorPalette,
+  surfaceMaterial: options.surfaceMaterial,
+  textileMaterial: options.textileMaterial,
+  textileColor1: options.textileColor1,
+  textileColor2: options.textileColor2,
+  cameraPreset: options.cameraPreset,
+  isAutoFocus: options.isAutoFocus,
+  customPalette: options.customPalette,
+});
+
+// --- LOCAL STORAGE (offline) ---
+
+const readLocalPresets = (): RenderPreset[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PRESETS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeLocalPresets = (presets: RenderPreset[]) => {
+  localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+};
+
+const fromRow = (row: any): RenderPreset => ({
+  id: row.id,
+  name: row.name,
+  ownerId: row.owner_id,
+  options: row.options,
+  isStudioDefault: row.is_studio_default,
+  workspaceId: row.workspace_id ?? null,
+  createdAt: row.created_at,
+});
+
+const sortPresets = (presets: RenderPreset[]) =>
+  presets.sort((a, b) => Number(b.isStudioDefault) - Number(a.isStudioDefault) || a.name.localeCompare(b.name, 'vi'));
+
+// --- PUBLIC API ---
+
+/**
+ * Preset của người dùng hiện tại, preset chung của workspace đang chọn và các preset mặc định của studio
+ */
+export const listPresets = async (): Promise<RenderPreset[]> => {
+  const ownerId = getCurrentUserId();
+  const workspace = getActiveWorkspace();
+  if (isSupabaseConfigured) {
+    try {
+      const { data, error } = await supabase
+        .from('render_presets')
+        .select('*')
+        .or(`owner_id.eq.${ownerId},is_studio_default.eq.true${workspace ? `,workspace_id.eq.${workspace.id}` : ''}`);
+      if (error) throw error;
+      return sortPresets((data || []).map(fromRow));
+    } catch (e) {
+      console.warn("Could not fetch presets from Supabase, using local presets", e);
+    }
+  }
+  return sortPresets(readLocalPresets());
+};
+
+/**
+ * Lưu preset theo tên; trùng tên với preset của mình thì ghi đè
+ */
+export const savePreset = async (name: string, options: RenderOptions, isStudioDefault: boolean = false): Promise<RenderPreset> => {
+  const ownerId = getCurrentUserId();
+  const trimmed = name.trim();
+  const existing = (await listPresets()).find(p => p.ownerId === ownerId && p.name === trimmed);
+  const preset: RenderPreset = {
+    id: existing?.id || crypto.randomUUID(),
+    name: trimmed,
+    ownerId,
+    options: toPresetOptions(options),
+    isStudioDefault,
+    workspaceId: existing ? existing.workspaceId : getActiveWorkspace()?.id ?? null,
+    createdAt: existing?.createdAt || new Date().toISOString(),
+  };
+
+  if (isSupabaseConfigured) {
+    try {
+      const { error } = await supabase
+        .from('render_presets')
+        .upsert([{
+          id: preset.id,
+          owner_id: preset.ownerId,
+          name: preset.name,
+          options: preset.options,
+          is_studio_default: preset.isStudioDefault,
+          workspace_id: preset.workspaceId,
+          created_at: preset.createdAt,
+        }]);
+      if (error) throw error;
+      return preset;
+    } catch (e) {
+      console.warn("Failed to save preset to Supabase, saving locally", e);
+    }
+  }
+  writeLocalPresets([...readLocalPresets().filter(p => p.id !== preset.id), preset]);
+  return preset;
+};
+
+export const setStudioDefault = async (id: string, isStudioDefault: boolean): Promise<void> => {
+  if (isSupabaseConfigured) {
+    try {
+      const { error } = await supabase
+        .from('render_presets')
+        .update({ is_studio_default: isStudioDefault })
+        .eq('id', id);
+      if (error) throw error;
+      return;
+    } catch (e) {
+      console.warn("Failed to update preset in Supabase, updating locally", e);
+    }
+  }
+  writeLocalPresets(readLocalPresets().map(p => p.id === id ? { ...p, isStudioDefault } : p));
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  if (isSupabaseConfigured) {
+    try {
+      const { error } = await supabase.from('render_presets').delete().eq('id', id);
+      if (error) throw error;
+      return;
+    } catch (e) {
+      console.warn("Failed to delete preset from Supabase, deleting locally", e);
+    }
+  }
+  writeLocalPresets(readLocalPresets().filter(p => p.id !== id));
+};
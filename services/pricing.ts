@@ -0,0 +1,90 @@
+import { CostEstimate, PriceRequest, PricingTable, QualityGateOptions, QualityGateReport, Tool } from "../types";
+import { DEFAULT_PRICING } from "../constants";
+
+const PRICING_JSON_URL = '/pricing.json';
+
+let activePricing: PricingTable = DEFAULT_PRICING;
+
+const isPrice = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Gộp bảng giá từ file với bảng mặc định; giá không hợp lệ bị bỏ qua
+ */
+const mergePricing = (base: any, override: any): any => {
+  if (!override || typeof override !== 'object') return base;
+  const merged: any = { ...base };
+  for (const key of Object.keys(base)) {
+    const value = override[key];
+    if (typeof base[key] === 'object') merged[key] = mergePricing(base[key], value);
+    else if (isPrice(value)) merged[key] = Math.round(value);
+  }
+  return merged;
+};
+
+/**
+ * Nạp bảng giá: /pricing.json (đặt cạnh index.html, hoặc `url` khác) → DEFAULT_PRICING trong constants.ts
+ */
+export const loadPricing = async (url: string = PRICING_JSON_URL): Promise<PricingTable> => {
+  try {
+    const response = await fetch(url);
+    if (response.ok) {
+      activePricing = mergePricing(DEFAULT_PRICING, await response.json());
+      return activePricing;
+    }
+  } catch (e) {
+    console.warn("Could not load pricing file, using built-in prices", e);
+  }
+  activePricing = DEFAULT_PRICING;
+  return activePricing;
+};
+
+export const getPricing = (): PricingTable => activePricing;
+
+const single = (label: string, amount: number): CostEstimate => ({ total: amount, lines: [{ label, amount }] });
+
+/**
+ * Chi phí của một thao tác trước khi chạy, kèm diễn giải cho thao tác nhiều bước
+ */
+export const estimateCost = (request: PriceRequest, pricing: PricingTable = activePricing): CostEstimate => {
+  switch (request.tool) {
+    case Tool.RENDER: {
+      const count = Math.max(1, Math.round(request.variantCount));
+      const lines = [{ label: `${count} phương án`, amount: count * pricing.render.perVariant }];
+      if (request.qualityGate?.enabled) {
+        lines.push({ label: 'Kiểm định chất lượng', amount: pricing.render.qualityGate });
+        lines.push({ label: 'Render lại nếu cần, hoàn nếu không dùng', amount: pricing.render.perVariant });
+      }
+      return { total: lines.reduce((sum, line) => sum + line.amount, 0), lines };
+    }
+    case Tool.UPSCALE:
+      return single(`Nâng cấp ${request.resolution}`, pricing.upscale[request.resolution]);
+    case Tool.ADVANCED_EDIT:
+      return single(`Chỉnh sửa (${request.editMode})`, pricing.advancedEdit[request.editMode]);
+    case Tool.SKETCH_CONVERTER:
+      return single(`Phác thảo ${request.resolution}`, pricing.sketch[request.resolution]);
+    case Tool.IDEA_GENERATOR:
+      return single('Render Moodboard', pricing.ideaGenerator);
+    case 'detection':
+      return single('Nhận diện vật thể tương tự', pricing.detection);
+  }
+};
+
+/**
+ * Phần giữ cho lần render lại của kiểm định chất lượng nhưng không dùng tới (đạt ngay, không chấm được hoặc render lại lỗi)
+ */
+export const unusedQualityRetry = (
+  gate: QualityGateOptions | undefined,
+  quality: QualityGateReport | undefined,
+  pricing: PricingTable = activePricing
+): number => gate?.enabled && !quality?.retryAttempt ? pricing.render.perVariant : 0;
+
+export const priceOf = (request: PriceRequest): number => estimateCost(request).total;
+
+/**
+ * "4 phương án (60) + Kiểm định chất lượng (5) + Render lại nếu cần, hoàn nếu không dùng (15) = 80 Credits"
+ */
+export const formatEstimate = (estimate: CostEstimate): string =>
+  estimate.lines.length > 1
+    ? `${estimate.lines.map(line => `${line.label} (${line.amount})`).join(' + ')} = ${estimate.total} Credits`
+    : `${estimate.total} Credits`;
@@ -0,0 +1,98 @@
+import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
+import { ClickPoint } from "../../types";
+import {
+  AnalyzeRequest, DetectRequest, EditRequest, ImagePart, ImageProvider,
+  ProviderCallOptions, ProviderModels, RenderRequest, UpscaleRequest
+} from "./imageProvider";
+
+export const GEMINI_MODELS: ProviderModels = {
+  analysis: 'gemini-3-flash-preview',
+  image: 'gemini-3-pro-image-preview',
+  fastImage: 'gemini-2.5-flash-image',
+};
+
+const toInlinePart = (image: ImagePart) => ({ inlineData: { mimeType: image.mimeType, data: image.base64 } });
+
+/**
+ * Gom toàn bộ ảnh trả về (mọi candidate) thành data URL
+ */
+const collectImages = (response: GenerateContentResponse): string[] => {
+  const urls: string[] = [];
+  for (const candidate of response.candidates || []) {
+    for (const part of candidate.content?.parts || []) {
+      if (part.inlineData && part.inlineData.data) {
+        urls.push(`data:${part.inlineData.mimeType};base64,${part.inlineData.data}`);
+      }
+    }
+  }
+  return urls;
+};
+
+export const createGeminiProvider = (apiKey: string, models: ProviderModels = GEMINI_MODELS): ImageProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+    models,
+
+    async analyze({ prompt, images, temperature, json }: AnalyzeRequest, { signal }: ProviderCallOptions = {}) {
+      const response = await ai.models.generateContent({
+        model: models.analysis,
+        contents: { parts: [{ text: prompt }, ...images.map(toInlinePart)] },
+        config: {
+          temperature,
+          responseMimeType: json ? "application/json" : undefined,
+          abortSignal: signal
+        }
+      });
+      return response.text || "";
+    },
+
+    async render({ prompt, images, systemInstruction, tier = 'pro' }: RenderRequest, { signal }: ProviderCallOptions = {}) {
+      const response = await ai.models.generateContent({
+        model: tier === 'fast' ? models.fastImage : models.image,
+        contents: { parts: [{ text: prompt }, ...images.map(toInlinePart)] },
+        config: { systemInstruction, abortSignal: signal }
+      });
+      return collectImages(response);
+    },
+
+    async edit({ prompt, images, systemInstruction }: EditRequest, { signal }: ProviderCallOptions = {}) {
+      const response = await ai.models.generateContent({
+        model: models.image,
+        contents: { parts: [...images.map(toInlinePart), { text: prompt }] },
+        config: { systemInstruction, abortSignal: signal }
+      });
+      const [first] = collectImages(response);
+      if (!first) throw new Error("No image generated.");
+      return first;
+    },
+
+    async detect({ prompt, image }: DetectRequest, { signal }: ProviderCallOptions = {}) {
+      const response = await ai.models.generateContent({
+        model: models.analysis,
+        contents: { parts: [toInlinePart(image), { text: prompt }] },
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { x: { type: Type.NUMBER }, y: { type: Type.NUMBER } } } },
+          abortSignal: signal
+        }
+      });
+      const jsonStr = response.text?.trim();
+      return jsonStr ? JSON.parse(jsonStr) as ClickPoint[] : [];
+    },
+
+    async upscale({ prompt, image, resolution, aspectRatio, systemInstruction }: UpscaleRequest, { signal }: ProviderCallOptions = {}) {
+      const response = await ai.models.generateContent({
+        model: models.image,
+        contents: { parts: [toInlinePart(image), { text: prompt }] },
+        config: {
+          imageConfig: { aspectRatio, imageSize: resolution },
+          systemInstruction,
+          abortSignal: signal
+        }
+      });
+      return collectImages(response);
+    },
+  };
+};
@@ -0,0 +1,71 @@
+import { ClickPoint, EditMode, Resolution } from "../../types";
+
+export interface ImagePart {
+  mimeType: string;
+  base64: string;
+  width?: number;
+  height?: number;
+}
+
+export type AspectRatio = '16:9' | '4:3' | '3:4' | '9:16' | '1:1';
+
+export interface AnalyzeRequest {
+  prompt: string;
+  images: ImagePart[];
+  temperature?: number;
+  json?: boolean; // Ask for a raw JSON string instead of prose
+}
+
+export interface RenderRequest {
+  prompt: string;
+  images: ImagePart[]; // Image 1 is always the structural source
+  systemInstruction?: string;
+  tier?: 'pro' | 'fast'; // 'fast' = cheaper Flash image model (Sketch Converter)
+  purpose?: 'render' | 'sketch' | 'idea'; // Tool that renders; selects the AI proxy route
+  resolution?: Resolution; // Sketch only: the resolution the AI proxy charges for
+}
+
+export interface EditRequest {
+  prompt: string;
+  images: ImagePart[]; // Source first, then annotations / references / masks
+  systemInstruction?: string;
+  mode?: EditMode; // The mode the AI proxy charges for
+}
+
+export interface DetectRequest {
+  prompt: string;
+  image: ImagePart;
+}
+
+export interface UpscaleRequest {
+  prompt: string;
+  image: ImagePart;
+  resolution: Resolution;
+  aspectRatio: AspectRatio;
+  systemInstruction?: string;
+}
+
+export interface ProviderCallOptions {
+  signal?: AbortSignal;
+  reservationId?: string; // Credit reservation paying for this call, checked by the AI proxy
+}
+
+export interface ProviderModels {
+  analysis: string;
+  image: string;
+  fastImage: string;
+}
+
+/**
+ * Backend tạo ảnh. Mọi lệnh gọi AI trong geminiService đều đi qua interface này,
+ * retry và báo tiến trình vẫn do geminiService đảm nhận.
+ */
+export interface ImageProvider {
+  readonly name: string;
+  readonly models: ProviderModels;
+  analyze(request: AnalyzeRequest, call?: ProviderCallOptions): Promise<string>;
+  render(request: RenderRequest, call?: ProviderCallOptions): Promise<string[]>;
+  edit(request: EditRequest, call?: ProviderCallOptions): Promise<string>;
+  detect(request: DetectRequest, call?: ProviderCallOptions): Promise<ClickPoint[]>;
+  upscale(request: UpscaleRequest, call?: ProviderCallOptions): Promise<string[]>;
+}
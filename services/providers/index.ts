@@ -0,0 +1,39 @@
+import { ImageProvider } from "./imageProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { getAccessToken } from "../authService";
+
+export * from "./imageProvider";
+export { createGeminiProvider, GEMINI_MODELS } from "./geminiProvider";
+export { createMockProvider } from "./mockProvider";
+export { createProxyProvider } from "./proxyProvider";
+export type { ProxyRoute } from "./proxyProvider";
+
+let activeProvider: ImageProvider | null = null;
+
+const DEFAULT_PROXY_URL = '/api/ai';
+
+/**
+ * Trình duyệt không giữ khóa Gemini: mọi lệnh gọi đi qua server proxy (server/index.ts)
+ */
+const createDefaultProvider = (): ImageProvider => {
+  if (process.env.IMAGE_PROVIDER === 'mock') {
+    return createMockProvider();
+  }
+  return createProxyProvider(process.env.AI_PROXY_URL || DEFAULT_PROXY_URL, getAccessToken);
+};
+
+export const getImageProvider = (): ImageProvider => {
+  if (!activeProvider) {
+    activeProvider = createDefaultProvider();
+  }
+  return activeProvider;
+};
+
+/**
+ * Thay backend đang dùng (ví dụ: mock trong test hoặc CLI)
+ */
+export const setImageProvider = (provider: ImageProvider | null) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,111 @@
+import { ClickPoint } from "../../types";
+import {
+  AnalyzeRequest, DetectRequest, EditRequest, ImagePart, ImageProvider,
+  ProviderCallOptions, RenderRequest, UpscaleRequest
+} from "./imageProvider";
+
+const MOCK_LATENCY_MS = 600;
+
+const MOCK_SCENE_DESCRIPTION =
+  "Eye-level wide shot of a wedding main stage. Centered floral backdrop with symmetrical columns, " +
+  "a straight center aisle leading to the stage, warm ambient lighting and reflective flooring.";
+
+// Canned quality grade for JSON requests (quality gate vision check)
+const MOCK_GRADE = { layout: 82, color: 76, artifacts: 90, notes: "Mock grade: slight colour drift on the floral backdrop." };
+
+const MOCK_DETECTIONS: ClickPoint[] = [
+  { x: 25, y: 60 },
+  { x: 50, y: 60 },
+  { x: 75, y: 60 },
+];
+
+/**
+ * FNV-1a hash để kết quả giả lập luôn giống nhau với cùng một đầu vào
+ */
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const fingerprint = (prompt: string, images: ImagePart[]): number =>
+  hashString(prompt + images.map(img => img.base64.slice(0, 2048)).join('|'));
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const abortError = () => new DOMException("Generation cancelled by user.", "AbortError");
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
+};
+
+/**
+ * Ảnh giữ chỗ dạng SVG: nhúng ảnh gốc, phủ một lớp màu theo hash và gắn nhãn
+ */
+const placeholderImage = (label: string, seed: number, source?: ImagePart, grayscale = false): string => {
+  const width = source?.width || 1024;
+  const height = source?.height || 768;
+  const hue = seed % 360;
+  const tag = seed.toString(16).padStart(8, '0');
+  const fontSize = Math.max(16, Math.round(width * 0.025));
+
+  const sourceLayer = source
+    ? `<image href="data:${source.mimeType};base64,${source.base64}" width="${width}" height="${height}" preserveAspectRatio="none"${grayscale ? ' filter="url(#gray)"' : ''}/>`
+    : `<rect width="${width}" height="${height}" fill="hsl(${hue},35%,30%)"/>`;
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs><filter id="gray"><feColorMatrix type="saturate" values="0"/></filter></defs>` +
+    sourceLayer +
+    `<rect width="${width}" height="${height}" fill="hsl(${hue},60%,55%)" fill-opacity="${grayscale ? 0 : 0.18}"/>` +
+    `<text x="${fontSize}" y="${height - fontSize}" font-family="monospace" font-size="${fontSize}" fill="#ffffff" stroke="#000000" stroke-width="1">` +
+    `${label} #${tag}</text>` +
+    `</svg>`;
+
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+/**
+ * Backend giả lập hoàn toàn offline: không cần API key, kết quả tất định
+ */
+export const createMockProvider = (latencyMs: number = MOCK_LATENCY_MS): ImageProvider => ({
+  name: 'mock',
+  models: {
+    analysis: 'mock-analysis',
+    image: 'mock-image',
+    fastImage: 'mock-fast-image',
+  },
+
+  async analyze({ json }: AnalyzeRequest, { signal }: ProviderCallOptions = {}) {
+    await wait(latencyMs, signal);
+    return json ? JSON.stringify(MOCK_GRADE) : MOCK_SCENE_DESCRIPTION;
+  },
+
+  async render({ prompt, images, tier }: RenderRequest, { signal }: ProviderCallOptions = {}) {
+    await wait(latencyMs, signal);
+    const label = tier === 'fast' ? 'MOCK SKETCH' : 'MOCK RENDER';
+    return [placeholderImage(label, fingerprint(prompt, images), images[0], tier === 'fast')];
+  },
+
+  async edit({ prompt, images }: EditRequest, { signal }: ProviderCallOptions = {}) {
+    await wait(latencyMs, signal);
+    return placeholderImage('MOCK EDIT', fingerprint(prompt, images), images[0]);
+  },
+
+  async detect(_request: DetectRequest, { signal }: ProviderCallOptions = {}) {
+    await wait(latencyMs, signal);
+    return MOCK_DETECTIONS.map(point => ({ ...point }));
+  },
+
+  async upscale({ prompt, image, resolution }: UpscaleRequest, { signal }: ProviderCallOptions = {}) {
+    await wait(latencyMs, signal);
+    return [placeholderImage(`MOCK UPSCALE ${resolution}`, fingerprint(prompt, [image]), image)];
+  },
+});
@@ -0,0 +1,53 @@
+import { ClickPoint } from "../../types";
+import {
+  AnalyzeRequest, DetectRequest, EditRequest, ImageProvider, ProviderCallOptions,
+  ProviderModels, RenderRequest, UpscaleRequest
+} from "./imageProvider";
+import { GEMINI_MODELS } from "./geminiProvider";
+
+export type ProxyRoute = 'analyze' | 'render' | 'edit' | 'detect' | 'sketch' | 'upscale' | 'idea';
+
+/**
+ * Gọi AI qua server proxy (server/index.ts): khóa Gemini chỉ nằm trên server,
+ * trình duyệt gửi kèm phiên đăng nhập và mã giữ credit của thao tác.
+ */
+export const createProxyProvider = (
+  baseUrl: string,
+  getAccessToken: () => Promise<string | null>,
+  models: ProviderModels = GEMINI_MODELS // Models the server calls, recorded in recipes
+): ImageProvider => {
+  const post = async <T>(route: ProxyRoute, body: unknown, { signal, reservationId }: ProviderCallOptions = {}): Promise<T> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const token = await getAccessToken();
+    if (token) headers['Authorization'] = `Bearer ${token}`;
+    if (reservationId) headers['X-Credit-Reservation'] = reservationId;
+
+    const response = await fetch(`${baseUrl}/${route}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+    const payload = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      // Keep the status on the error so callWithRetry still recognises 503 overloads
+      throw Object.assign(new Error(payload.error || `AI proxy request failed (${response.status})`), { status: response.status });
+    }
+    return payload.result as T;
+  };
+
+  return {
+    name: 'proxy',
+    models,
+
+    analyze: (request: AnalyzeRequest, call?: ProviderCallOptions) =>
+      post<string>('analyze', request, call),
+
+    render: (request: RenderRequest, call?: ProviderCallOptions) =>
+      post<string[]>(request.purpose || 'render', request, call),
+
+    edit: (request: EditRequest, call?: ProviderCallOptions) =>
+      post<string>('edit', request, call),
+
+    detect: (request: DetectRequest, call?: ProviderCallOptions) =>
+      post<ClickPoint[]>('detect', request, call),
+
+    upscale: (request: UpscaleRequest, call?: ProviderCallOptions) =>
+      post<string[]>('upscale', request, call),
+  };
+};
@@ -0,0 +1,191 @@
+import { FileData, RecipeFile, RenderOptions, RenderRecipe } from "../types";
+import { supabase } from "../supabaseClient";
+import { getImageProvider } from "./providers";
+
+const RECIPES_KEY = 'luxzen.renderRecipes';
+const THUMBNAIL_SIZE = 256;
+
+/**
+ * SHA-256 của ảnh gốc (base64) để nhận ra cùng một ảnh nguồn
+ */
+export const fingerprintImage = async (base64: string): Promise<string> => {
+  const bytes = new TextEncoder().encode(base64);
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const createThumbnail = (dataUrl: string): Promise<string | undefined> => {
+  return new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      try {
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.width, img.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(img.width * scale);
+        canvas.height = Math.round(img.height * scale);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return resolve(undefined);
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.7));
+      } catch (e) {
+        console.warn("Could not create recipe thumbnail", e);
+        resolve(undefined);
+      }
+    };
+    img.onerror = () => resolve(undefined);
+    img.src = dataUrl;
+  });
+};
+
+// --- LOCAL STORAGE ---
+
+const readLocalRecipes = (): RenderRecipe[] => {
+  try {
+    return JSON.parse(localStorage.getItem(RECIPES_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const writeLocalRecipes = (recipes: RenderRecipe[]) => {
+  localStorage.setItem(RECIPES_KEY, JSON.stringify(recipes));
+};
+
+const toRow = (recipe: RenderRecipe) => ({
+  id: recipe.id,
+  name: recipe.name,
+  options: recipe.options,
+  variant_count: recipe.variantCount,
+  master_prompt: recipe.masterPrompt,
+  source_fingerprint: recipe.sourceFingerprint,
+  thumbnail: recipe.thumbnail ?? null,
+  provider: recipe.provider,
+  analysis_model: recipe.models.analysis,
+  image_model: recipe.models.image,
+  render_id: recipe.renderId ?? null,
+  created_at: recipe.createdAt,
+});
+
+const fromRow = (row: any): RenderRecipe => ({
+  id: row.id,
+  name: row.name,
+  options: row.options,
+  variantCount: row.variant_count,
+  masterPrompt: row.master_prompt,
+  sourceFingerprint: row.source_fingerprint,
+  thumbnail: row.thumbnail ?? undefined,
+  provider: row.provider,
+  models: { analysis: row.analysis_model, image: row.image_model },
+  renderId: row.render_id,
+  createdAt: row.created_at,
+});
+
+// --- PUBLIC API ---
+
+/**
+ * Tạo công thức từ một lần render đã hoàn tất
+ */
+export const createRecipe = async (
+  name: string,
+  sourceImage: FileData,
+  options: RenderOptions,
+  variantCount: number,
+  masterPrompt: string,
+  resultImage?: string,
+  renderId?: string | null
+): Promise<RenderRecipe> => {
+  const provider = getImageProvider();
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim() || 'Công thức chưa đặt tên',
+    options: { ...options },
+    variantCount,
+    masterPrompt,
+    sourceFingerprint: await fingerprintImage(sourceImage.base64),
+    thumbnail: resultImage ? await createThumbnail(resultImage) : undefined,
+    provider: provider.name,
+    models: { analysis: provider.models.analysis, image: provider.models.image },
+    renderId,
+    createdAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Lưu công thức vào máy và Supabase (Supabase lỗi thì vẫn giữ bản local)
+ */
+export const saveRecipe = async (recipe: RenderRecipe): Promise<void> => {
+  writeLocalRecipes([recipe, ...readLocalRecipes().filter(r => r.id !== recipe.id)]);
+  try {
+    const { error } = await supabase.from('render_recipes').upsert([toRow(recipe)]);
+    if (error) throw error;
+  } catch (e) {
+    console.warn("Failed to sync recipe to Supabase, kept locally", e);
+  }
+};
+
+/**
+ * Danh sách công thức (local + Supabase), mới nhất trước
+ */
+export const listRecipes = async (): Promise<RenderRecipe[]> => {
+  const byId = new Map<string, RenderRecipe>(readLocalRecipes().map(r => [r.id, r]));
+  try {
+    const { data, error } = await supabase
+      .from('render_recipes')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(100);
+    if (error) throw error;
+    (data || []).forEach((row: any) => byId.set(row.id, fromRow(row)));
+  } catch (e) {
+    console.warn("Could not fetch recipes from Supabase", e);
+  }
+  return Array.from(byId.values()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteRecipe = async (id: string): Promise<void> => {
+  writeLocalRecipes(readLocalRecipes().filter(r => r.id !== id));
+  try {
+    const { error } = await supabase.from('render_recipes').delete().eq('id', id);
+    if (error) throw error;
+  } catch (e) {
+    console.warn("Failed to delete recipe from Supabase", e);
+  }
+};
+
+/**
+ * Áp công thức lên ảnh nguồn hiện tại. Phân tích ngầm (hiddenAIContext) gắn với ảnh cũ
+ * nên bị bỏ khi ảnh nguồn khác.
+ */
+export const applyRecipeOptions = (recipe: RenderRecipe, isSameSource: boolean): RenderOptions => ({
+  ...recipe.options,
+  hiddenAIContext: isSameSource ? recipe.options.hiddenAIContext : '',
+});
+
+// --- IMPORT / EXPORT ---
+
+export const exportRecipes = (recipes: RenderRecipe[]): string => {
+  const file: RecipeFile = { format: 'luxzen-render-recipes', version: 1, recipes };
+  return JSON.stringify(file, null, 2);
+};
+
+const isRecipe = (value: any): value is RenderRecipe =>
+  value && typeof value.id === 'string' && typeof value.name === 'string' &&
+  value.options && typeof value.options === 'object' &&
+  typeof value.masterPrompt === 'string' && typeof value.sourceFingerprint === 'string';
+
+/**
+ * Đọc file JSON công thức. Chấp nhận cả file xuất nhiều công thức lẫn một công thức đơn lẻ.
+ */
+export const parseRecipeFile = (text: string): RenderRecipe[] => {
+  const parsed = JSON.parse(text);
+  const candidates: any[] = parsed?.format === 'luxzen-render-recipes' ? parsed.recipes : [parsed];
+  const recipes = (candidates || []).filter(isRecipe);
+  if (recipes.length === 0) throw new Error("No valid recipes found in file.");
+  return recipes.map(recipe => ({
+    ...recipe,
+    variantCount: recipe.variantCount || 1,
+    models: recipe.models || { analysis: 'unknown', image: 'unknown' },
+    provider: recipe.provider || 'unknown',
+    createdAt: recipe.createdAt || new Date().toISOString(),
+  }));
+};
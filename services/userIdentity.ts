@@ -0,0 +1,32 @@
+import { UserProfile } from "../types";
+
+const LOCAL_USER_KEY = 'luxzen.localUserId';
+
+let authenticatedUser: UserProfile | null = null;
+
+/**
+ * ID ẩn danh cố định cho trình duyệt này, dùng làm chủ sở hữu dữ liệu khi chưa đăng nhập
+ */
+export const getLocalUserId = (): string => {
+  let id = localStorage.getItem(LOCAL_USER_KEY);
+  if (!id) {
+    id = `local-${crypto.randomUUID()}`;
+    localStorage.setItem(LOCAL_USER_KEY, id);
+  }
+  return id;
+};
+
+/**
+ * Đặt bởi authService khi phiên Supabase Auth thay đổi
+ */
+export const setAuthenticatedUser = (user: UserProfile | null) => {
+  authenticatedUser = user;
+};
+
+/**
+ * Người dùng đã đăng nhập, hoặc hồ sơ ẩn danh cục bộ
+ */
+export const getCurrentUser = (): UserProfile =>
+  authenticatedUser || { id: getLocalUserId(), email: null, isAnonymous: true };
+
+export const getCurrentUserId = (): string => getCurrentUser().id;
@@ -0,0 +1,146 @@
+import { JobEventReport, JobPayload, RenderJob, Tool, WebhookDelivery, WebhookEvent, WebhookSubscription } from "../types";
+import { supabase, isSupabaseConfigured } from "../supabaseClient";
+import { getAccessToken } from "./authService";
+import { validateWebhookUrl } from "./webhookUrl";
+
+export { validateWebhookUrl };
+
+const EVENTS_PATH = '/api/webhooks/events';
+const SECRET_PREFIX = 'whsec_';
+
+/**
+ * Cùng server với AI proxy: cùng origin, hoặc origin của AI_PROXY_URL khi server đặt ở nơi khác
+ */
+const serverOrigin = (): string =>
+  process.env.AI_PROXY_URL ? new URL(process.env.AI_PROXY_URL, window.location.href).origin : '';
+
+const fromSubscriptionRow = (row: any): WebhookSubscription => ({
+  id: row.id,
+  workspaceId: row.workspace_id,
+  url: row.url,
+  secret: row.secret,
+  events: row.events,
+  tools: row.tools ?? null,
+  enabled: row.enabled,
+  createdAt: row.created_at,
+});
+
+const fromDeliveryRow = (row: any): WebhookDelivery => ({
+  id: row.id,
+  subscriptionId: row.subscription_id,
+  event: row.event,
+  jobId: row.job_id,
+  status: row.status,
+  attempts: row.attempts,
+  lastStatusCode: row.last_status_code ?? null,
+  lastError: row.last_error ?? null,
+  nextAttemptAt: row.next_attempt_at ?? null,
+  createdAt: row.created_at,
+  deliveredAt: row.delivered_at ?? null,
+});
+
+/**
+ * Thông số của job gửi kèm payload (không gồm ảnh)
+ */
+const jobOptions = (payload: JobPayload): Record<string, unknown> => {
+  switch (payload.tool) {
+    case Tool.RENDER:
+      return { ...payload.options, variantCount: payload.variantCount, customPrompt: Boolean(payload.masterPrompt) };
+    case Tool.UPSCALE:
+      return { resolution: payload.resolution };
+    case Tool.ADVANCED_EDIT:
+      return { editMode: payload.editMode, additionalPrompt: payload.additionalPrompt, callouts: payload.callouts, targetPoints: payload.targetPoints };
+    case Tool.SKETCH_CONVERTER:
+      return { sketchStyle: payload.sketchStyle, resolution: payload.resolution };
+    case Tool.IDEA_GENERATOR:
+      return { assets: payload.assets.map(asset => ({ label: asset.label, x: asset.x, y: asset.y })) };
+  }
+};
+
+/**
+ * Báo server job nền của workspace đã xong/thất bại để gửi webhook; job cá nhân thì bỏ qua
+ */
+export const reportJobFinished = async (job: RenderJob): Promise<void> => {
+  // The server only accepts reports it can match to the job's credit reservation
+  if (!job.workspaceId || !job.reservation || !isSupabaseConfigured) return;
+  if (job.status !== 'succeeded' && job.status !== 'failed') return;
+
+  const report: JobEventReport = {
+    jobId: job.id,
+    workspaceId: job.workspaceId,
+    reservationId: job.reservation.id,
+    tool: job.payload.tool,
+    label: job.label,
+    status: job.status,
+    options: jobOptions(job.payload),
+    results: job.results,
+    error: job.error,
+  };
+
+  try {
+    const token = await getAccessToken();
+    const response = await fetch(`${serverOrigin()}${EVENTS_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+      body: JSON.stringify(report),
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  } catch (e) {
+    console.warn(`Could not report job ${job.id} for webhooks`, e);
+  }
+};
+
+// --- SUBSCRIPTIONS (owner only) ---
+
+export const listSubscriptions = async (workspaceId: string): Promise<WebhookSubscription[]> => {
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(fromSubscriptionRow);
+};
+
+export const createSubscription = async (
+  workspaceId: string,
+  url: string,
+  events: WebhookEvent[],
+  tools: Tool[] | null
+): Promise<WebhookSubscription> => {
+  const invalid = validateWebhookUrl(url);
+  if (invalid) throw new Error(invalid);
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  const secret = SECRET_PREFIX + Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+  const { data, error } = await supabase
+    .from('webhook_subscriptions')
+    .insert([{ workspace_id: workspaceId, url: url.trim(), secret, events, tools }])
+    .select()
+    .single();
+  if (error) throw error;
+  return fromSubscriptionRow(data);
+};
+
+export const setSubscriptionEnabled = async (id: string, enabled: boolean): Promise<void> => {
+  const { error } = await supabase.from('webhook_subscriptions').update({ enabled }).eq('id', id);
+  if (error) throw error;
+};
+
+export const deleteSubscription = async (id: string): Promise<void> => {
+  const { error } = await supabase.from('webhook_subscriptions').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Nhật ký gửi webhook mới nhất trước
+ */
+export const listDeliveries = async (workspaceId: string, limit: number = 50): Promise<WebhookDelivery[]> => {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('id, subscription_id, event, job_id, status, attempts, last_status_code, last_error, next_attempt_at, created_at, delivered_at')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []).map(fromDeliveryRow);
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { isPrivateAddress, validateWebhookUrl } from './webhookUrl';
+
+describe('isPrivateAddress', () => {
+  it.each([
+    '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+    '::1', '::', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:a9fe:a9fe',
+  ])('blocks %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['8.8.8.8', '172.32.0.1', '2606:4700::1111', '::ffff:8.8.8.8'])('allows %s', (address) => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('validateWebhookUrl', () => {
+  it('accepts public http(s) URLs', () => {
+    expect(validateWebhookUrl('https://crm.example.com/hooks/luxerender')).toBeNull();
+  });
+
+  it.each([
+    'ftp://example.com/hook',
+    'http://localhost:8080/hook',
+    'http://printer.local/hook',
+    'http://[::1]/hook',
+    'http://2130706433/hook', // 127.0.0.1 written as a number
+    'http://169.254.169.254/latest/meta-data',
+  ])('rejects %s', (url) => {
+    expect(validateWebhookUrl(url)).not.toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+const INTERNAL_HOST_SUFFIXES = ['.localhost', '.local', '.internal'];
+const IPV4_PATTERN = /^\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}$/;
+
+// Host names never contain ':', so anything with one is treated as IPv6
+const ipVersion = (address: string): 4 | 6 | 0 => {
+  if (IPV4_PATTERN.test(address)) return address.split('.').every(part => Number(part) <= 255) ? 4 : 0;
+  return address.includes(':') ? 6 : 0;
+};
+
+const ipv4Parts = (address: string): number[] => address.split('.').map(Number);
+
+const isPrivateIPv4 = (address: string): boolean => {
+  const [a, b] = ipv4Parts(address);
+  return a === 0 || a === 10 || a === 127 || a >= 224 // "This" network, private, loopback, multicast and reserved
+    || (a === 100 && b >= 64 && b <= 127) // Carrier-grade NAT
+    || (a === 169 && b === 254) // Link-local, including cloud metadata endpoints
+    || (a === 172 && b >= 16 && b <= 31)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0 && ipv4Parts(address)[2] === 0)
+    || (a === 198 && (b === 18 || b === 19)); // Benchmarking
+};
+
+const isPrivateIPv6 = (address: string): boolean => {
+  const lower = address.toLowerCase().replace(/^\[|\]$/g, '');
+  // IPv4-mapped, either dotted or in the hex form URL parsing normalises it to
+  const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateIPv4(mapped[1]);
+  const mappedHex = lower.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateIPv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  if (lower === '::' || lower === '::1') return true;
+  const first = parseInt(lower.split(':')[0] || '0', 16);
+  return (first & 0xfe00) === 0xfc00 // Unique local fc00::/7
+    || (first & 0xffc0) === 0xfe80 // Link-local fe80::/10
+    || (first & 0xff00) === 0xff00; // Multicast
+};
+
+/**
+ * Địa chỉ IP nội bộ (loopback, mạng riêng, link-local, multicast…) mà webhook không được gọi tới
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  const version = ipVersion(address);
+  if (version === 4) return isPrivateIPv4(address);
+  if (version === 6) return isPrivateIPv6(address);
+  return false;
+};
+
+/**
+ * Kiểm tra URL webhook trước khi lưu: http(s), không trỏ thẳng vào máy nội bộ; trả về lỗi hoặc null.
+ * Server còn phân giải tên miền và chặn lại lúc gửi (server/webhooks.ts).
+ */
+export const validateWebhookUrl = (url: string): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return "URL không hợp lệ.";
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return "URL phải bắt đầu bằng http:// hoặc https://.";
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || INTERNAL_HOST_SUFFIXES.some(suffix => host.endsWith(suffix)) || isPrivateAddress(host)) {
+    return "Webhook không được trỏ tới địa chỉ nội bộ.";
+  }
+  return null;
+};
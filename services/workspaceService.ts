@@ -0,0 +1,149 @@
+import { Workspace, WorkspaceMember, WorkspaceRole } from "../types";
+import { supabase, isSupabaseConfigured } from "../supabaseClient";
+import { getCurrentUser } from "./userIdentity";
+
+const ACTIVE_WORKSPACE_KEY = 'luxzen.activeWorkspaceId';
+
+type WorkspaceListener = (workspace: Workspace | null) => void;
+
+let workspaces: Workspace[] = [];
+let activeWorkspace: Workspace | null = null;
+const listeners = new Set<WorkspaceListener>();
+
+const notify = () => listeners.forEach(listener => listener(activeWorkspace));
+
+/**
+ * Workspace chỉ có khi đã đăng nhập Supabase; offline luôn là không gian cá nhân
+ */
+export const isWorkspaceAvailable = (): boolean => isSupabaseConfigured && !getCurrentUser().isAnonymous;
+
+const fromMemberRow = (row: any): WorkspaceMember => ({
+  workspaceId: row.workspace_id,
+  email: row.email,
+  userId: row.user_id,
+  role: row.role,
+  spendingLimit: row.spending_limit,
+});
+
+/**
+ * Nhận lời mời theo email rồi nạp các workspace của người dùng; khôi phục workspace đang chọn
+ */
+export const loadWorkspaces = async (): Promise<Workspace[]> => {
+  if (!isWorkspaceAvailable()) {
+    workspaces = [];
+    if (activeWorkspace) {
+      activeWorkspace = null;
+      notify();
+    }
+    return workspaces;
+  }
+
+  try {
+    await supabase.rpc('claim_workspace_invites');
+    const userId = getCurrentUser().id;
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces(*)')
+      .eq('user_id', userId);
+    if (error) throw error;
+    workspaces = (data || [])
+      .filter((row: any) => row.workspaces)
+      .map((row: any): Workspace => ({
+        id: row.workspaces.id,
+        name: row.workspaces.name,
+        ownerId: row.workspaces.owner_id,
+        role: row.role,
+        createdAt: row.workspaces.created_at,
+      }))
+      .sort((a: Workspace, b: Workspace) => a.name.localeCompare(b.name, 'vi'));
+  } catch (e) {
+    console.error("Failed to load workspaces", e);
+    workspaces = [];
+  }
+
+  const storedId = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  activeWorkspace = workspaces.find(w => w.id === storedId) || null;
+  notify();
+  return workspaces;
+};
+
+export const getWorkspaces = (): Workspace[] => [...workspaces];
+
+export const getActiveWorkspace = (): Workspace | null => activeWorkspace;
+
+/**
+ * null = không gian cá nhân
+ */
+export const setActiveWorkspace = (id: string | null) => {
+  activeWorkspace = workspaces.find(w => w.id === id) || null;
+  if (activeWorkspace) localStorage.setItem(ACTIVE_WORKSPACE_KEY, activeWorkspace.id);
+  else localStorage.removeItem(ACTIVE_WORKSPACE_KEY);
+  notify();
+};
+
+/**
+ * Tài khoản bị trừ credit: quỹ chung của workspace đang chọn, hoặc tài khoản cá nhân
+ */
+export const getCreditAccountId = (): string =>
+  activeWorkspace ? `workspace:${activeWorkspace.id}` : getCurrentUser().id;
+
+export const canSpendCredits = (): boolean => activeWorkspace?.role !== 'viewer';
+
+export const createWorkspace = async (name: string): Promise<Workspace> => {
+  const { data, error } = await supabase.rpc('create_workspace', { p_name: name.trim() });
+  if (error) throw error;
+  await loadWorkspaces();
+  const created = workspaces.find(w => w.id === data.id);
+  if (!created) throw new Error("Workspace was created but could not be loaded.");
+  return created;
+};
+
+export const listMembers = async (workspaceId: string): Promise<WorkspaceMember[]> => {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('*')
+    .eq('workspace_id', workspaceId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(fromMemberRow);
+};
+
+/**
+ * Mời thành viên theo email; lời mời được nhận khi người đó đăng nhập bằng email này
+ */
+export const inviteMember = async (workspaceId: string, email: string, role: WorkspaceRole, spendingLimit: number | null): Promise<void> => {
+  const { error } = await supabase
+    .from('workspace_members')
+    .insert([{ workspace_id: workspaceId, email: email.trim().toLowerCase(), role, spending_limit: spendingLimit }]);
+  if (error) throw error;
+};
+
+export const updateMember = async (
+  workspaceId: string,
+  email: string,
+  patch: { role?: WorkspaceRole; spendingLimit?: number | null }
+): Promise<void> => {
+  const update: Record<string, unknown> = {};
+  if (patch.role) update.role = patch.role;
+  if (patch.spendingLimit !== undefined) update.spending_limit = patch.spendingLimit;
+  const { error } = await supabase
+    .from('workspace_members')
+    .update(update)
+    .eq('workspace_id', workspaceId)
+    .eq('email', email);
+  if (error) throw error;
+};
+
+export const removeMember = async (workspaceId: string, email: string): Promise<void> => {
+  const { error } = await supabase
+    .from('workspace_members')
+    .delete()
+    .eq('workspace_id', workspaceId)
+    .eq('email', email);
+  if (error) throw error;
+};
+
+export const subscribeWorkspace = (listener: WorkspaceListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
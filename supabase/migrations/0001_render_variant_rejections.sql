@@ -0,0 +1,13 @@
+-- Biến thể bị loại khi người dùng chọn bản đẹp nhất trong một lần render nhiều bản.
+-- Bản được chọn nằm trong render_history; mỗi dòng ở đây trỏ tới bản thắng đó.
+create table if not exists render_variant_rejections (
+    id uuid primary key default gen_random_uuid(),
+    render_id uuid not null references render_history(id) on delete cascade,
+    variant_index integer not null,
+    variant_count integer not null,
+    selected_index integer not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists render_variant_rejections_render_id_idx
+    on render_variant_rejections (render_id);
@@ -0,0 +1,18 @@
+-- Công thức render: toàn bộ cấu hình đã dùng để tạo một kết quả, để dựng lại hoặc chia sẻ.
+create table if not exists render_recipes (
+    id uuid primary key,
+    name text not null,
+    options jsonb not null,
+    variant_count integer not null default 1,
+    master_prompt text not null,
+    source_fingerprint text not null,
+    thumbnail text,
+    provider text not null,
+    analysis_model text not null,
+    image_model text not null,
+    render_id uuid references render_history(id) on delete set null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists render_recipes_source_fingerprint_idx
+    on render_recipes (source_fingerprint);
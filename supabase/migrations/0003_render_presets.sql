@@ -0,0 +1,14 @@
+-- Bộ tùy chọn đặt tên cho tab Render, lưu theo người dùng.
+-- is_studio_default = true: hiển thị cho cả studio và được áp dụng khi mở ứng dụng.
+create table if not exists render_presets (
+    id uuid primary key,
+    owner_id text not null,
+    name text not null,
+    options jsonb not null,
+    is_studio_default boolean not null default false,
+    created_at timestamptz not null default now(),
+    unique (owner_id, name)
+);
+
+create index if not exists render_presets_studio_default_idx
+    on render_presets (is_studio_default) where is_studio_default;
@@ -0,0 +1,13 @@
+-- Danh mục tùy chọn (phong cách, bảng màu, vật liệu...) chỉnh sửa lúc chạy thay cho constants.ts.
+-- kind: styles | palettes | surfaceMaterials | textileMaterials | textileColors
+create table if not exists option_catalog (
+    kind text not null,
+    value text not null,
+    label text not null,
+    description text,
+    prompt text,
+    sort_order integer not null default 0,
+    enabled boolean not null default true,
+    updated_at timestamptz not null default now(),
+    primary key (kind, value)
+);
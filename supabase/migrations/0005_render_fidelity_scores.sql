@@ -0,0 +1,4 @@
+-- Điểm trung thực cục bộ (0–100) của bản render so với ảnh gốc.
+alter table render_history
+    add column if not exists layout_score real,
+    add column if not exists color_score real;
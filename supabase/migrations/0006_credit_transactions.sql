@@ -0,0 +1,72 @@
+-- Sổ cái credit: mọi thay đổi số dư là một giao dịch, số dư = tổng amount.
+-- type: deduct (amount < 0) | refund | reward | topup (amount > 0)
+-- reference_id là khóa idempotent (vd. 'welcome', id của job): ghi lại cùng khóa sẽ trả về giao dịch cũ.
+create table if not exists credit_transactions (
+    id uuid primary key default gen_random_uuid(),
+    user_id text not null,
+    type text not null check (type in ('deduct', 'refund', 'reward', 'topup')),
+    amount integer not null,
+    balance_after integer not null,
+    description text not null default '',
+    tool text,
+    reference_id text,
+    created_at timestamptz not null default now(),
+    unique (user_id, reference_id)
+);
+
+create index if not exists credit_transactions_user_created_idx
+    on credit_transactions (user_id, created_at desc);
+
+create or replace function credit_balance(p_user_id text)
+returns integer
+language sql stable
+as $$
+    select coalesce(sum(amount), 0)::integer from credit_transactions where user_id = p_user_id;
+$$;
+
+-- Ghi giao dịch nguyên tử: khóa theo người dùng, kiểm tra số dư, tính balance_after.
+-- p_amount luôn dương; dấu được suy ra từ p_type. Trừ quá số dư → lỗi INSUFFICIENT_CREDITS.
+create or replace function apply_credit_transaction(
+    p_user_id text,
+    p_type text,
+    p_amount integer,
+    p_description text,
+    p_tool text default null,
+    p_reference_id text default null
+)
+returns credit_transactions
+language plpgsql
+as $$
+declare
+    v_existing credit_transactions;
+    v_balance integer;
+    v_amount integer;
+    v_row credit_transactions;
+begin
+    if p_amount <= 0 then
+        raise exception 'INVALID_AMOUNT';
+    end if;
+
+    perform pg_advisory_xact_lock(hashtext('credits:' || p_user_id));
+
+    if p_reference_id is not null then
+        select * into v_existing from credit_transactions
+            where user_id = p_user_id and reference_id = p_reference_id;
+        if found then
+            return v_existing;
+        end if;
+    end if;
+
+    v_balance := credit_balance(p_user_id);
+    v_amount := case when p_type = 'deduct' then -p_amount else p_amount end;
+
+    if v_balance + v_amount < 0 then
+        raise exception 'INSUFFICIENT_CREDITS';
+    end if;
+
+    insert into credit_transactions (user_id, type, amount, balance_after, description, tool, reference_id)
+        values (p_user_id, p_type, v_amount, v_balance + v_amount, coalesce(p_description, ''), p_tool, p_reference_id)
+        returning * into v_row;
+    return v_row;
+end;
+$$;
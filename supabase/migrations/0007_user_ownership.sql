@@ -0,0 +1,131 @@
+-- Tài khoản người dùng (Supabase Auth, magic link) và quyền sở hữu theo dòng.
+-- owner_id / user_id là auth.uid() khi đã đăng nhập, hoặc 'local-<uuid>' cho hồ sơ ẩn danh.
+-- Dòng của hồ sơ ẩn danh chỉ được bảo vệ bởi id khó đoán, không bởi đăng nhập.
+
+alter table render_history
+    add column if not exists owner_id text;
+
+create index if not exists render_history_owner_idx
+    on render_history (owner_id, category, style);
+
+create or replace function is_current_owner(p_owner_id text)
+returns boolean
+language sql stable
+as $$
+    select case
+        when auth.uid() is not null then p_owner_id = auth.uid()::text
+        else p_owner_id like 'local-%'
+    end;
+$$;
+
+-- render_history + render_variant_rejections
+alter table render_history enable row level security;
+
+drop policy if exists render_history_owner on render_history;
+create policy render_history_owner on render_history
+    for all using (is_current_owner(owner_id)) with check (is_current_owner(owner_id));
+
+alter table render_variant_rejections enable row level security;
+
+drop policy if exists render_variant_rejections_owner on render_variant_rejections;
+create policy render_variant_rejections_owner on render_variant_rejections
+    for all
+    using (exists (select 1 from render_history h where h.id = render_id and is_current_owner(h.owner_id)))
+    with check (exists (select 1 from render_history h where h.id = render_id and is_current_owner(h.owner_id)));
+
+-- render_presets: của mình, cộng preset mặc định của studio (chỉ đọc)
+alter table render_presets enable row level security;
+
+drop policy if exists render_presets_read on render_presets;
+create policy render_presets_read on render_presets
+    for select using (is_current_owner(owner_id) or is_studio_default);
+
+drop policy if exists render_presets_write on render_presets;
+create policy render_presets_write on render_presets
+    for all using (is_current_owner(owner_id)) with check (is_current_owner(owner_id));
+
+-- credit_transactions: chỉ đọc trực tiếp; ghi qua apply_credit_transaction
+alter table credit_transactions enable row level security;
+
+drop policy if exists credit_transactions_read on credit_transactions;
+create policy credit_transactions_read on credit_transactions
+    for select using (is_current_owner(user_id));
+
+create or replace function credit_balance(p_user_id text)
+returns integer
+language plpgsql stable
+security definer set search_path = public
+as $$
+begin
+    if not is_current_owner(p_user_id) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    return (select coalesce(sum(amount), 0)::integer from credit_transactions where user_id = p_user_id);
+end;
+$$;
+
+create or replace function apply_credit_transaction(
+    p_user_id text,
+    p_type text,
+    p_amount integer,
+    p_description text,
+    p_tool text default null,
+    p_reference_id text default null
+)
+returns credit_transactions
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_existing credit_transactions;
+    v_balance integer;
+    v_amount integer;
+    v_row credit_transactions;
+begin
+    if not is_current_owner(p_user_id) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_amount <= 0 then
+        raise exception 'INVALID_AMOUNT';
+    end if;
+
+    perform pg_advisory_xact_lock(hashtext('credits:' || p_user_id));
+
+    -- Từ client chỉ được: quà chào mừng, hoàn đúng một reservation đã trừ, thưởng đánh giá 1 credit.
+    -- Nạp credit thật đi qua service role (bỏ qua hàm này).
+    if p_type = 'topup' and (p_reference_id is distinct from 'welcome' or p_amount > 100) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_type = 'refund' and not exists (
+        select 1 from credit_transactions
+        where user_id = p_user_id
+          and reference_id = 'reservation:' || substring(p_reference_id from 'release:(.*)')
+          and amount = -p_amount
+    ) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_type = 'reward' and (coalesce(p_reference_id, '') not like 'feedback:%' or p_amount > 1) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+
+    if p_reference_id is not null then
+        select * into v_existing from credit_transactions
+            where user_id = p_user_id and reference_id = p_reference_id;
+        if found then
+            return v_existing;
+        end if;
+    end if;
+
+    select coalesce(sum(amount), 0)::integer into v_balance from credit_transactions where user_id = p_user_id;
+    v_amount := case when p_type = 'deduct' then -p_amount else p_amount end;
+
+    if v_balance + v_amount < 0 then
+        raise exception 'INSUFFICIENT_CREDITS';
+    end if;
+
+    insert into credit_transactions (user_id, type, amount, balance_after, description, tool, reference_id)
+        values (p_user_id, p_type, v_amount, v_balance + v_amount, coalesce(p_description, ''), p_tool, p_reference_id)
+        returning * into v_row;
+    return v_row;
+end;
+$$;
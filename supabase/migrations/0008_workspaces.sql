@@ -0,0 +1,245 @@
+-- Không gian làm việc của studio: quỹ credit chung, thành viên có vai trò và hạn mức chi tiêu.
+-- Sổ cái của workspace dùng chung credit_transactions với user_id = 'workspace:<id>';
+-- member_id / member_email ghi lại ai đã dùng credit.
+-- role: owner (quản lý thành viên) | designer (được dùng credit) | viewer (chỉ xem)
+
+create table if not exists workspaces (
+    id uuid primary key default gen_random_uuid(),
+    name text not null,
+    owner_id text not null,
+    created_at timestamptz not null default now()
+);
+
+-- user_id null = lời mời theo email chưa được nhận (claim_workspace_invites khi đăng nhập)
+create table if not exists workspace_members (
+    workspace_id uuid not null references workspaces(id) on delete cascade,
+    email text not null,
+    user_id text,
+    role text not null check (role in ('owner', 'designer', 'viewer')),
+    spending_limit integer check (spending_limit is null or spending_limit >= 0), -- credit / tháng, null = không giới hạn
+    created_at timestamptz not null default now(),
+    primary key (workspace_id, email)
+);
+
+create index if not exists workspace_members_user_idx on workspace_members (user_id);
+
+alter table credit_transactions
+    add column if not exists workspace_id uuid references workspaces(id) on delete set null,
+    add column if not exists member_id text,
+    add column if not exists member_email text;
+
+alter table render_history
+    add column if not exists workspace_id uuid references workspaces(id) on delete set null;
+
+alter table render_presets
+    add column if not exists workspace_id uuid references workspaces(id) on delete cascade;
+
+create or replace function workspace_role(p_workspace_id uuid)
+returns text
+language sql stable
+security definer set search_path = public
+as $$
+    select role from workspace_members
+    where workspace_id = p_workspace_id and user_id = auth.uid()::text;
+$$;
+
+-- Nhận các lời mời gửi tới email của người đang đăng nhập
+create or replace function claim_workspace_invites()
+returns integer
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_count integer;
+begin
+    if auth.uid() is null then
+        return 0;
+    end if;
+    update workspace_members
+        set user_id = auth.uid()::text
+        where user_id is null and lower(email) = lower(auth.email());
+    get diagnostics v_count = row_count;
+    return v_count;
+end;
+$$;
+
+-- Tạo workspace, người tạo là owner
+create or replace function create_workspace(p_name text)
+returns workspaces
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_row workspaces;
+begin
+    if auth.uid() is null then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    insert into workspaces (name, owner_id) values (p_name, auth.uid()::text) returning * into v_row;
+    insert into workspace_members (workspace_id, email, user_id, role)
+        values (v_row.id, coalesce(auth.email(), auth.uid()::text), auth.uid()::text, 'owner');
+    return v_row;
+end;
+$$;
+
+-- RLS
+alter table workspaces enable row level security;
+
+drop policy if exists workspaces_member_read on workspaces;
+create policy workspaces_member_read on workspaces
+    for select using (workspace_role(id) is not null);
+
+drop policy if exists workspaces_owner_write on workspaces;
+create policy workspaces_owner_write on workspaces
+    for update using (workspace_role(id) = 'owner');
+
+alter table workspace_members enable row level security;
+
+drop policy if exists workspace_members_read on workspace_members;
+create policy workspace_members_read on workspace_members
+    for select using (workspace_role(workspace_id) is not null);
+
+drop policy if exists workspace_members_owner_write on workspace_members;
+create policy workspace_members_owner_write on workspace_members
+    for all using (workspace_role(workspace_id) = 'owner') with check (workspace_role(workspace_id) = 'owner');
+
+drop policy if exists render_history_owner on render_history;
+create policy render_history_owner on render_history
+    for all
+    using (is_current_owner(owner_id) or (workspace_id is not null and workspace_role(workspace_id) is not null))
+    with check (is_current_owner(owner_id));
+
+drop policy if exists render_presets_read on render_presets;
+create policy render_presets_read on render_presets
+    for select using (
+        is_current_owner(owner_id) or is_studio_default
+        or (workspace_id is not null and workspace_role(workspace_id) is not null)
+    );
+
+drop policy if exists credit_transactions_read on credit_transactions;
+create policy credit_transactions_read on credit_transactions
+    for select using (
+        is_current_owner(user_id)
+        or (workspace_id is not null and workspace_role(workspace_id) is not null)
+    );
+
+-- Tài khoản credit: 'workspace:<id>' hoặc id người dùng
+create or replace function credit_account_workspace(p_account text)
+returns uuid
+language sql immutable
+as $$
+    select case when p_account like 'workspace:%' then substring(p_account from 11)::uuid end;
+$$;
+
+create or replace function credit_balance(p_user_id text)
+returns integer
+language plpgsql stable
+security definer set search_path = public
+as $$
+declare
+    v_workspace uuid := credit_account_workspace(p_user_id);
+begin
+    if v_workspace is not null then
+        if workspace_role(v_workspace) is null then
+            raise exception 'NOT_AUTHORIZED';
+        end if;
+    elsif not is_current_owner(p_user_id) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    return (select coalesce(sum(amount), 0)::integer from credit_transactions where user_id = p_user_id);
+end;
+$$;
+
+create or replace function apply_credit_transaction(
+    p_user_id text,
+    p_type text,
+    p_amount integer,
+    p_description text,
+    p_tool text default null,
+    p_reference_id text default null
+)
+returns credit_transactions
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_workspace uuid := credit_account_workspace(p_user_id);
+    v_role text;
+    v_limit integer;
+    v_spent integer;
+    v_existing credit_transactions;
+    v_balance integer;
+    v_amount integer;
+    v_row credit_transactions;
+begin
+    if v_workspace is not null then
+        v_role := workspace_role(v_workspace);
+        if v_role is null or (p_type = 'deduct' and v_role = 'viewer') then
+            raise exception 'NOT_AUTHORIZED';
+        end if;
+    elsif not is_current_owner(p_user_id) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_amount <= 0 then
+        raise exception 'INVALID_AMOUNT';
+    end if;
+
+    perform pg_advisory_xact_lock(hashtext('credits:' || p_user_id));
+
+    -- Từ client chỉ được: quà chào mừng (tài khoản cá nhân), hoàn đúng một reservation đã trừ, thưởng đánh giá 1 credit.
+    -- Nạp credit thật (kể cả cho workspace) đi qua service role (bỏ qua hàm này).
+    if p_type = 'topup' and (v_workspace is not null or p_reference_id is distinct from 'welcome' or p_amount > 100) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_type = 'refund' and not exists (
+        select 1 from credit_transactions
+        where user_id = p_user_id
+          and reference_id = 'reservation:' || substring(p_reference_id from 'release:(.*)')
+          and amount = -p_amount
+    ) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_type = 'reward' and (coalesce(p_reference_id, '') not like 'feedback:%' or p_amount > 1) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+
+    if p_reference_id is not null then
+        select * into v_existing from credit_transactions
+            where user_id = p_user_id and reference_id = p_reference_id;
+        if found then
+            return v_existing;
+        end if;
+    end if;
+
+    select coalesce(sum(amount), 0)::integer into v_balance from credit_transactions where user_id = p_user_id;
+    v_amount := case when p_type = 'deduct' then -p_amount else p_amount end;
+
+    if v_balance + v_amount < 0 then
+        raise exception 'INSUFFICIENT_CREDITS';
+    end if;
+
+    -- Hạn mức tháng của thành viên: tổng đã dùng (trừ phần được hoàn) trong tháng này
+    if v_workspace is not null and p_type = 'deduct' then
+        select spending_limit into v_limit from workspace_members
+            where workspace_id = v_workspace and user_id = auth.uid()::text;
+        if v_limit is not null then
+            select coalesce(-sum(amount), 0)::integer into v_spent from credit_transactions
+                where user_id = p_user_id and member_id = auth.uid()::text
+                  and type in ('deduct', 'refund')
+                  and created_at >= date_trunc('month', now());
+            if v_spent + p_amount > v_limit then
+                raise exception 'SPENDING_LIMIT_EXCEEDED';
+            end if;
+        end if;
+    end if;
+
+    insert into credit_transactions (
+        user_id, type, amount, balance_after, description, tool, reference_id,
+        workspace_id, member_id, member_email
+    ) values (
+        p_user_id, p_type, v_amount, v_balance + v_amount, coalesce(p_description, ''), p_tool, p_reference_id,
+        v_workspace, auth.uid()::text, auth.email()
+    ) returning * into v_row;
+    return v_row;
+end;
+$$;
@@ -0,0 +1,127 @@
+-- API token cho REST API không giao diện (server/api.ts), vd. CRM tự gửi render khi có phác thảo mới.
+-- Chỉ lưu SHA-256 của token; token gốc chỉ hiển thị một lần khi tạo.
+-- Token tạo trong workspace thì render trừ vào quỹ chung của workspace, ghi người tạo token là thành viên đã dùng.
+create table if not exists api_tokens (
+    id uuid primary key default gen_random_uuid(),
+    owner_id text not null,
+    workspace_id uuid references workspaces(id) on delete cascade,
+    name text not null,
+    token_hash text not null unique,
+    token_prefix text not null,
+    created_at timestamptz not null default now(),
+    last_used_at timestamptz,
+    revoked_at timestamptz
+);
+
+create index if not exists api_tokens_owner_idx on api_tokens (owner_id, created_at desc);
+
+alter table api_tokens enable row level security;
+
+drop policy if exists api_tokens_owner_read on api_tokens;
+create policy api_tokens_owner_read on api_tokens
+    for select using (owner_id = auth.uid()::text);
+
+drop policy if exists api_tokens_owner_insert on api_tokens;
+create policy api_tokens_owner_insert on api_tokens
+    for insert with check (
+        owner_id = auth.uid()::text
+        and (workspace_id is null or workspace_role(workspace_id) in ('owner', 'designer'))
+    );
+
+-- Chỉ để thu hồi (đặt revoked_at)
+drop policy if exists api_tokens_owner_update on api_tokens;
+create policy api_tokens_owner_update on api_tokens
+    for update using (owner_id = auth.uid()::text) with check (owner_id = auth.uid()::text);
+
+-- Ghi giao dịch thay cho chủ token; chỉ server (service role) được gọi.
+-- Chỉ deduct (giữ credit cho job) và refund (hoàn đúng reservation của job thất bại).
+create or replace function apply_api_credit_transaction(
+    p_token_id uuid,
+    p_type text,
+    p_amount integer,
+    p_description text,
+    p_tool text default null,
+    p_reference_id text default null
+)
+returns credit_transactions
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_token api_tokens;
+    v_account text;
+    v_member workspace_members;
+    v_spent integer;
+    v_existing credit_transactions;
+    v_balance integer;
+    v_amount integer;
+    v_row credit_transactions;
+begin
+    select * into v_token from api_tokens where id = p_token_id and revoked_at is null;
+    if not found then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_type not in ('deduct', 'refund') or p_amount <= 0 then
+        raise exception 'INVALID_AMOUNT';
+    end if;
+
+    if v_token.workspace_id is not null then
+        v_account := 'workspace:' || v_token.workspace_id;
+        select * into v_member from workspace_members
+            where workspace_id = v_token.workspace_id and user_id = v_token.owner_id;
+        if not found or (p_type = 'deduct' and v_member.role = 'viewer') then
+            raise exception 'NOT_AUTHORIZED';
+        end if;
+    else
+        v_account := v_token.owner_id;
+    end if;
+
+    perform pg_advisory_xact_lock(hashtext('credits:' || v_account));
+
+    if p_type = 'refund' and not exists (
+        select 1 from credit_transactions
+        where user_id = v_account
+          and reference_id = 'reservation:' || substring(p_reference_id from 'release:(.*)')
+          and amount = -p_amount
+    ) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+
+    if p_reference_id is not null then
+        select * into v_existing from credit_transactions
+            where user_id = v_account and reference_id = p_reference_id;
+        if found then
+            return v_existing;
+        end if;
+    end if;
+
+    select coalesce(sum(amount), 0)::integer into v_balance from credit_transactions where user_id = v_account;
+    v_amount := case when p_type = 'deduct' then -p_amount else p_amount end;
+
+    if v_balance + v_amount < 0 then
+        raise exception 'INSUFFICIENT_CREDITS';
+    end if;
+
+    if v_token.workspace_id is not null and p_type = 'deduct' and v_member.spending_limit is not null then
+        select coalesce(-sum(amount), 0)::integer into v_spent from credit_transactions
+            where user_id = v_account and member_id = v_token.owner_id
+              and type in ('deduct', 'refund')
+              and created_at >= date_trunc('month', now());
+        if v_spent + p_amount > v_member.spending_limit then
+            raise exception 'SPENDING_LIMIT_EXCEEDED';
+        end if;
+    end if;
+
+    insert into credit_transactions (
+        user_id, type, amount, balance_after, description, tool, reference_id,
+        workspace_id, member_id, member_email
+    ) values (
+        v_account, p_type, v_amount, v_balance + v_amount, coalesce(p_description, ''), p_tool, p_reference_id,
+        v_token.workspace_id, v_token.owner_id, v_member.email
+    ) returning * into v_row;
+    return v_row;
+end;
+$$;
+
+revoke all on function apply_api_credit_transaction(uuid, text, integer, text, text, text) from public, anon, authenticated;
+grant execute on function apply_api_credit_transaction(uuid, text, integer, text, text, text) to service_role;
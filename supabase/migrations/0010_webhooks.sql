@@ -0,0 +1,53 @@
+-- Webhook của workspace: server (server/webhooks.ts) POST payload JSON có chữ ký khi job kết thúc.
+-- Mỗi lần gửi là một dòng webhook_deliveries; gửi lỗi được thử lại với backoff cho tới khi hết lượt (status = 'failed').
+create table if not exists webhook_subscriptions (
+    id uuid primary key default gen_random_uuid(),
+    workspace_id uuid not null references workspaces(id) on delete cascade,
+    url text not null check (url ~ '^https?://'),
+    secret text not null,
+    events text[] not null default array['job.succeeded', 'job.failed'],
+    tools text[], -- null = mọi công cụ
+    enabled boolean not null default true,
+    created_at timestamptz not null default now()
+);
+
+create table if not exists webhook_deliveries (
+    id uuid primary key default gen_random_uuid(),
+    subscription_id uuid not null references webhook_subscriptions(id) on delete cascade,
+    workspace_id uuid not null references workspaces(id) on delete cascade,
+    event text not null check (event in ('job.succeeded', 'job.failed')),
+    job_id text not null,
+    payload jsonb not null,
+    status text not null default 'pending' check (status in ('pending', 'succeeded', 'failed')),
+    attempts integer not null default 0,
+    last_status_code integer,
+    last_error text,
+    next_attempt_at timestamptz default now(),
+    created_at timestamptz not null default now(),
+    delivered_at timestamptz,
+    unique (subscription_id, job_id, event)
+);
+
+create index if not exists webhook_deliveries_due_idx
+    on webhook_deliveries (next_attempt_at) where status = 'pending';
+
+create index if not exists webhook_deliveries_workspace_idx
+    on webhook_deliveries (workspace_id, created_at desc);
+
+-- Chỉ owner quản lý webhook (secret nằm trong bảng); nhật ký gửi chỉ đọc
+alter table webhook_subscriptions enable row level security;
+
+drop policy if exists webhook_subscriptions_owner on webhook_subscriptions;
+create policy webhook_subscriptions_owner on webhook_subscriptions
+    for all using (workspace_role(workspace_id) = 'owner') with check (workspace_role(workspace_id) = 'owner');
+
+alter table webhook_deliveries enable row level security;
+
+drop policy if exists webhook_deliveries_owner_read on webhook_deliveries;
+create policy webhook_deliveries_owner_read on webhook_deliveries
+    for select using (workspace_role(workspace_id) = 'owner');
+
+-- Ảnh kết quả được server tải lên để payload có result URL (URL ký, hết hạn sau 7 ngày)
+insert into storage.buckets (id, name, public)
+    values ('job-results', 'job-results', false)
+    on conflict (id) do nothing;
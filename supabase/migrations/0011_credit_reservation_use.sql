@@ -0,0 +1,92 @@
+-- Proxy AI (server/index.ts) tiêu reservation ngay trên sổ cái: mỗi lệnh gọi trừ giá của nó vào used_amount
+-- của dòng 'reservation:<id>', nên một reservation không thể trả cho nhiều lệnh gọi hơn số credit đã giữ.
+-- Chỉ server (service role) được gọi; lệnh gọi AI lỗi thì server trả lại phần đã tiêu.
+alter table credit_transactions
+    add column if not exists used_amount integer not null default 0 check (used_amount >= 0);
+
+-- Tiêu p_amount credit của reservation cho một lệnh gọi của p_member_id; trả về số credit còn lại.
+-- p_tool null = không ràng buộc công cụ; p_amount = 0 chỉ kiểm tra reservation còn hiệu lực.
+create or replace function use_credit_reservation(
+    p_reservation_id text,
+    p_member_id text,
+    p_tool text,
+    p_amount integer
+)
+returns integer
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_row credit_transactions;
+    v_workspace uuid;
+begin
+    if p_amount < 0 then
+        raise exception 'INVALID_AMOUNT';
+    end if;
+
+    select * into v_row from credit_transactions
+        where reference_id = 'reservation:' || p_reservation_id
+          and type = 'deduct'
+          and member_id = p_member_id
+        limit 1;
+    if not found then
+        raise exception 'RESERVATION_NOT_FOUND';
+    end if;
+
+    -- Cùng khóa với apply_credit_transaction, nên không chen được giữa lúc hoàn và lúc tiêu
+    perform pg_advisory_xact_lock(hashtext('credits:' || v_row.user_id));
+    select * into v_row from credit_transactions where id = v_row.id for update;
+
+    v_workspace := credit_account_workspace(v_row.user_id);
+    if v_workspace is not null and not exists (
+        select 1 from workspace_members
+        where workspace_id = v_workspace and user_id = p_member_id and role in ('owner', 'designer')
+    ) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+
+    if exists (
+        select 1 from credit_transactions
+        where user_id = v_row.user_id and reference_id = 'release:' || p_reservation_id
+    ) then
+        raise exception 'RESERVATION_RELEASED';
+    end if;
+    -- Job trong hàng đợi có thể chờ một lúc mới chạy, nên reservation còn dùng được vài giờ
+    if v_row.created_at < now() - interval '3 hours' then
+        raise exception 'RESERVATION_EXPIRED';
+    end if;
+    if p_tool is not null and v_row.tool is distinct from p_tool then
+        raise exception 'RESERVATION_TOOL_MISMATCH';
+    end if;
+    if v_row.used_amount + p_amount > -v_row.amount then
+        raise exception 'RESERVATION_EXHAUSTED';
+    end if;
+
+    update credit_transactions set used_amount = used_amount + p_amount where id = v_row.id;
+    return -v_row.amount - v_row.used_amount - p_amount;
+end;
+$$;
+
+-- Trả lại phần đã tiêu khi lệnh gọi AI thất bại hoặc bị hủy
+create or replace function return_credit_reservation_use(
+    p_reservation_id text,
+    p_member_id text,
+    p_amount integer
+)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+    update credit_transactions
+        set used_amount = greatest(0, used_amount - p_amount)
+        where reference_id = 'reservation:' || p_reservation_id
+          and type = 'deduct'
+          and member_id = p_member_id;
+end;
+$$;
+
+revoke all on function use_credit_reservation(text, text, text, integer) from public, anon, authenticated;
+grant execute on function use_credit_reservation(text, text, text, integer) to service_role;
+revoke all on function return_credit_reservation_use(text, text, integer) from public, anon, authenticated;
+grant execute on function return_credit_reservation_use(text, text, integer) to service_role;
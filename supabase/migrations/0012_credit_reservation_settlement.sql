@@ -0,0 +1,227 @@
+-- Chốt reservation trên server (POST /api/credits/settle): xong thao tác thì hoàn phần chưa dùng rồi khóa lại.
+-- Sau khi chốt, hoặc khi proxy đã tiêu một phần, client không còn tự hoàn reservation qua apply_credit_transaction.
+alter table credit_transactions
+    add column if not exists settled_at timestamptz;
+
+-- Như 0011, thêm: reservation đã chốt không trả cho lệnh gọi nào nữa
+create or replace function use_credit_reservation(
+    p_reservation_id text,
+    p_member_id text,
+    p_tool text,
+    p_amount integer
+)
+returns integer
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_row credit_transactions;
+    v_workspace uuid;
+begin
+    if p_amount < 0 then
+        raise exception 'INVALID_AMOUNT';
+    end if;
+
+    select * into v_row from credit_transactions
+        where reference_id = 'reservation:' || p_reservation_id
+          and type = 'deduct'
+          and member_id = p_member_id
+        limit 1;
+    if not found then
+        raise exception 'RESERVATION_NOT_FOUND';
+    end if;
+
+    -- Cùng khóa với apply_credit_transaction, nên không chen được giữa lúc hoàn và lúc tiêu
+    perform pg_advisory_xact_lock(hashtext('credits:' || v_row.user_id));
+    select * into v_row from credit_transactions where id = v_row.id for update;
+
+    v_workspace := credit_account_workspace(v_row.user_id);
+    if v_workspace is not null and not exists (
+        select 1 from workspace_members
+        where workspace_id = v_workspace and user_id = p_member_id and role in ('owner', 'designer')
+    ) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+
+    if v_row.settled_at is not null or exists (
+        select 1 from credit_transactions
+        where user_id = v_row.user_id and reference_id = 'release:' || p_reservation_id
+    ) then
+        raise exception 'RESERVATION_RELEASED';
+    end if;
+    -- Job trong hàng đợi có thể chờ một lúc mới chạy, nên reservation còn dùng được vài giờ
+    if v_row.created_at < now() - interval '3 hours' then
+        raise exception 'RESERVATION_EXPIRED';
+    end if;
+    if p_tool is not null and v_row.tool is distinct from p_tool then
+        raise exception 'RESERVATION_TOOL_MISMATCH';
+    end if;
+    if v_row.used_amount + p_amount > -v_row.amount then
+        raise exception 'RESERVATION_EXHAUSTED';
+    end if;
+
+    update credit_transactions set used_amount = used_amount + p_amount where id = v_row.id;
+    return -v_row.amount - v_row.used_amount - p_amount;
+end;
+$$;
+
+-- Hoàn phần chưa dùng của reservation (reference 'settle:<id>'); trả về số credit đã hoàn.
+-- Chưa dùng gì → hoàn toàn bộ. Render trả theo từng phương án (p_render_unit) nên hoàn các phương án chưa render;
+-- công cụ khác là một lệnh gọi, đã dùng thì không hoàn. Gọi lại lần nữa trả về 0.
+create or replace function settle_credit_reservation(
+    p_reservation_id text,
+    p_member_id text,
+    p_render_unit integer
+)
+returns integer
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_row credit_transactions;
+    v_held integer;
+    v_refund integer;
+    v_balance integer;
+begin
+    select * into v_row from credit_transactions
+        where reference_id = 'reservation:' || p_reservation_id
+          and type = 'deduct'
+          and member_id = p_member_id
+        limit 1;
+    if not found then
+        raise exception 'RESERVATION_NOT_FOUND';
+    end if;
+
+    perform pg_advisory_xact_lock(hashtext('credits:' || v_row.user_id));
+    select * into v_row from credit_transactions where id = v_row.id for update;
+
+    if v_row.settled_at is not null or exists (
+        select 1 from credit_transactions
+        where user_id = v_row.user_id and reference_id = 'release:' || p_reservation_id
+    ) then
+        return 0;
+    end if;
+
+    v_held := -v_row.amount;
+    v_refund := case
+        when v_row.used_amount = 0 then v_held
+        when v_row.tool = 'render' and p_render_unit > 0
+            then ((v_held - v_row.used_amount) / p_render_unit) * p_render_unit
+        else 0
+    end;
+
+    update credit_transactions set settled_at = now() where id = v_row.id;
+
+    if v_refund > 0 then
+        select coalesce(sum(amount), 0)::integer into v_balance from credit_transactions where user_id = v_row.user_id;
+        insert into credit_transactions (
+            user_id, type, amount, balance_after, description, tool, reference_id,
+            workspace_id, member_id, member_email
+        ) values (
+            v_row.user_id, 'refund', v_refund, v_balance + v_refund, 'Refund: ' || v_row.description, v_row.tool,
+            'settle:' || p_reservation_id, v_row.workspace_id, v_row.member_id, v_row.member_email
+        );
+    end if;
+    return v_refund;
+end;
+$$;
+
+revoke all on function settle_credit_reservation(text, text, integer) from public, anon, authenticated;
+grant execute on function settle_credit_reservation(text, text, integer) to service_role;
+
+-- Như 0008, chỉ khác nhánh refund: client chỉ hoàn được reservation chưa chốt và proxy chưa tiêu đồng nào
+create or replace function apply_credit_transaction(
+    p_user_id text,
+    p_type text,
+    p_amount integer,
+    p_description text,
+    p_tool text default null,
+    p_reference_id text default null
+)
+returns credit_transactions
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_workspace uuid := credit_account_workspace(p_user_id);
+    v_role text;
+    v_limit integer;
+    v_spent integer;
+    v_existing credit_transactions;
+    v_balance integer;
+    v_amount integer;
+    v_row credit_transactions;
+begin
+    if v_workspace is not null then
+        v_role := workspace_role(v_workspace);
+        if v_role is null or (p_type = 'deduct' and v_role = 'viewer') then
+            raise exception 'NOT_AUTHORIZED';
+        end if;
+    elsif not is_current_owner(p_user_id) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_amount <= 0 then
+        raise exception 'INVALID_AMOUNT';
+    end if;
+
+    perform pg_advisory_xact_lock(hashtext('credits:' || p_user_id));
+
+    -- Từ client chỉ được: quà chào mừng (tài khoản cá nhân), hoàn đúng một reservation chưa dùng, thưởng đánh giá 1 credit.
+    -- Nạp credit thật (kể cả cho workspace) đi qua service role (bỏ qua hàm này).
+    if p_type = 'topup' and (v_workspace is not null or p_reference_id is distinct from 'welcome' or p_amount > 100) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_type = 'refund' and not exists (
+        select 1 from credit_transactions
+        where user_id = p_user_id
+          and reference_id = 'reservation:' || substring(p_reference_id from 'release:(.*)')
+          and amount = -p_amount
+          and used_amount = 0
+          and settled_at is null
+    ) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_type = 'reward' and (coalesce(p_reference_id, '') not like 'feedback:%' or p_amount > 1) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+
+    if p_reference_id is not null then
+        select * into v_existing from credit_transactions
+            where user_id = p_user_id and reference_id = p_reference_id;
+        if found then
+            return v_existing;
+        end if;
+    end if;
+
+    select coalesce(sum(amount), 0)::integer into v_balance from credit_transactions where user_id = p_user_id;
+    v_amount := case when p_type = 'deduct' then -p_amount else p_amount end;
+
+    if v_balance + v_amount < 0 then
+        raise exception 'INSUFFICIENT_CREDITS';
+    end if;
+
+    -- Hạn mức tháng của thành viên: tổng đã dùng (trừ phần được hoàn) trong tháng này
+    if v_workspace is not null and p_type = 'deduct' then
+        select spending_limit into v_limit from workspace_members
+            where workspace_id = v_workspace and user_id = auth.uid()::text;
+        if v_limit is not null then
+            select coalesce(-sum(amount), 0)::integer into v_spent from credit_transactions
+                where user_id = p_user_id and member_id = auth.uid()::text
+                  and type in ('deduct', 'refund')
+                  and created_at >= date_trunc('month', now());
+            if v_spent + p_amount > v_limit then
+                raise exception 'SPENDING_LIMIT_EXCEEDED';
+            end if;
+        end if;
+    end if;
+
+    insert into credit_transactions (
+        user_id, type, amount, balance_after, description, tool, reference_id,
+        workspace_id, member_id, member_email
+    ) values (
+        p_user_id, p_type, v_amount, v_balance + v_amount, coalesce(p_description, ''), p_tool, p_reference_id,
+        v_workspace, auth.uid()::text, auth.email()
+    ) returning * into v_row;
+    return v_row;
+end;
+$$;
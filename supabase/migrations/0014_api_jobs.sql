@@ -0,0 +1,109 @@
+-- Job của REST API (server/api.ts) được ghi lại, nên server khởi động lại vẫn biết job nào đang dở:
+-- job còn 'queued'/'running' lúc khởi động bị đánh dấu thất bại và được hoàn credit ('release:<id>').
+-- Ảnh nguồn và ảnh kết quả vẫn chỉ nằm trong bộ nhớ server; chỉ server (service role) đọc/ghi bảng này.
+create table if not exists api_jobs (
+    id uuid primary key,
+    token_id uuid not null references api_tokens(id) on delete cascade,
+    status text not null check (status in ('queued', 'running', 'succeeded', 'failed')),
+    variant_count integer not null,
+    cost integer not null,
+    error text,
+    render_id uuid,
+    created_at timestamptz not null default now(),
+    started_at timestamptz,
+    finished_at timestamptz
+);
+
+create index if not exists api_jobs_unfinished_idx on api_jobs (status) where status in ('queued', 'running');
+create index if not exists api_jobs_token_idx on api_jobs (token_id, created_at desc);
+
+alter table api_jobs enable row level security;
+
+-- Như 0009, chỉ khác: token đã thu hồi (hoặc người tạo đã rời workspace) vẫn nhận được khoản hoàn của job đã giữ credit
+create or replace function apply_api_credit_transaction(
+    p_token_id uuid,
+    p_type text,
+    p_amount integer,
+    p_description text,
+    p_tool text default null,
+    p_reference_id text default null
+)
+returns credit_transactions
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_token api_tokens;
+    v_account text;
+    v_member workspace_members;
+    v_spent integer;
+    v_existing credit_transactions;
+    v_balance integer;
+    v_amount integer;
+    v_row credit_transactions;
+begin
+    select * into v_token from api_tokens where id = p_token_id;
+    if not found or (p_type = 'deduct' and v_token.revoked_at is not null) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_type not in ('deduct', 'refund') or p_amount <= 0 then
+        raise exception 'INVALID_AMOUNT';
+    end if;
+
+    if v_token.workspace_id is not null then
+        v_account := 'workspace:' || v_token.workspace_id;
+        select * into v_member from workspace_members
+            where workspace_id = v_token.workspace_id and user_id = v_token.owner_id;
+        if p_type = 'deduct' and (not found or v_member.role = 'viewer') then
+            raise exception 'NOT_AUTHORIZED';
+        end if;
+    else
+        v_account := v_token.owner_id;
+    end if;
+
+    perform pg_advisory_xact_lock(hashtext('credits:' || v_account));
+
+    if p_type = 'refund' and not exists (
+        select 1 from credit_transactions
+        where user_id = v_account
+          and reference_id = 'reservation:' || substring(p_reference_id from 'release:(.*)')
+          and amount = -p_amount
+    ) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+
+    if p_reference_id is not null then
+        select * into v_existing from credit_transactions
+            where user_id = v_account and reference_id = p_reference_id;
+        if found then
+            return v_existing;
+        end if;
+    end if;
+
+    select coalesce(sum(amount), 0)::integer into v_balance from credit_transactions where user_id = v_account;
+    v_amount := case when p_type = 'deduct' then -p_amount else p_amount end;
+
+    if v_balance + v_amount < 0 then
+        raise exception 'INSUFFICIENT_CREDITS';
+    end if;
+
+    if v_token.workspace_id is not null and p_type = 'deduct' and v_member.spending_limit is not null then
+        select coalesce(-sum(amount), 0)::integer into v_spent from credit_transactions
+            where user_id = v_account and member_id = v_token.owner_id
+              and type in ('deduct', 'refund')
+              and created_at >= date_trunc('month', now());
+        if v_spent + p_amount > v_member.spending_limit then
+            raise exception 'SPENDING_LIMIT_EXCEEDED';
+        end if;
+    end if;
+
+    insert into credit_transactions (
+        user_id, type, amount, balance_after, description, tool, reference_id,
+        workspace_id, member_id, member_email
+    ) values (
+        v_account, p_type, v_amount, v_balance + v_amount, coalesce(p_description, ''), p_tool, p_reference_id,
+        v_token.workspace_id, v_token.owner_id, v_member.email
+    ) returning * into v_row;
+    return v_row;
+end;
+$$;
@@ -0,0 +1,20 @@
+-- Policy update của 0009 cho chủ token sửa mọi cột (token_hash, workspace_id…), không chỉ revoked_at.
+-- Bỏ policy đó; thu hồi đi qua hàm dưới đây, chỉ đặt revoked_at cho token của chính người gọi.
+drop policy if exists api_tokens_owner_update on api_tokens;
+
+create or replace function revoke_api_token(p_id uuid)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+    update api_tokens set revoked_at = coalesce(revoked_at, now())
+        where id = p_id and owner_id = auth.uid()::text;
+    if not found then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+end;
+$$;
+
+revoke all on function revoke_api_token(uuid) from public, anon;
+grant execute on function revoke_api_token(uuid) to authenticated;
@@ -0,0 +1,18 @@
+-- Trước đây biến thể bị loại chỉ lưu chỉ số nên không học được gì. Lưu kèm prompt và lựa chọn của lần render
+-- để getLearningContext bỏ các prompt từng thua ở lần render khác khỏi danh sách ví dụ tốt.
+alter table render_variant_rejections
+    add column if not exists category text,
+    add column if not exists style text,
+    add column if not exists master_prompt text,
+    add column if not exists options jsonb;
+
+create index if not exists render_variant_rejections_category_style_idx
+    on render_variant_rejections (category, style, created_at desc);
+
+-- Thành viên workspace học từ lịch sử chung (như render_history ở 0008), nên cũng đọc được biến thể bị loại của nhau
+drop policy if exists render_variant_rejections_workspace_read on render_variant_rejections;
+create policy render_variant_rejections_workspace_read on render_variant_rejections
+    for select using (exists (
+        select 1 from render_history h
+        where h.id = render_id and h.workspace_id is not null and workspace_role(h.workspace_id) is not null
+    ));
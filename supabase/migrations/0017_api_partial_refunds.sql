@@ -0,0 +1,100 @@
+-- Job API có kiểm định chất lượng giữ thêm giá một phương án cho lần render lại; không cần tới thì server hoàn phần đó.
+-- Như 0014, chỉ khác nhánh refund: thêm 'settle:<id>' để hoàn một phần reservation của job đã xong.
+create or replace function apply_api_credit_transaction(
+    p_token_id uuid,
+    p_type text,
+    p_amount integer,
+    p_description text,
+    p_tool text default null,
+    p_reference_id text default null
+)
+returns credit_transactions
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_token api_tokens;
+    v_account text;
+    v_member workspace_members;
+    v_spent integer;
+    v_existing credit_transactions;
+    v_balance integer;
+    v_amount integer;
+    v_row credit_transactions;
+    v_reservation text;
+begin
+    select * into v_token from api_tokens where id = p_token_id;
+    if not found or (p_type = 'deduct' and v_token.revoked_at is not null) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_type not in ('deduct', 'refund') or p_amount <= 0 then
+        raise exception 'INVALID_AMOUNT';
+    end if;
+
+    if v_token.workspace_id is not null then
+        v_account := 'workspace:' || v_token.workspace_id;
+        select * into v_member from workspace_members
+            where workspace_id = v_token.workspace_id and user_id = v_token.owner_id;
+        if p_type = 'deduct' and (not found or v_member.role = 'viewer') then
+            raise exception 'NOT_AUTHORIZED';
+        end if;
+    else
+        v_account := v_token.owner_id;
+    end if;
+
+    perform pg_advisory_xact_lock(hashtext('credits:' || v_account));
+
+    -- 'release:<id>' hoàn cả reservation (job lỗi), 'settle:<id>' hoàn một phần (job xong nhưng không cần hết);
+    -- mỗi reservation chỉ được một trong hai
+    if p_type = 'refund' then
+        v_reservation := substring(p_reference_id from '^(?:release|settle):(.*)$');
+        if v_reservation is null or not exists (
+            select 1 from credit_transactions
+            where user_id = v_account
+              and reference_id = 'reservation:' || v_reservation
+              and case when p_reference_id like 'release:%' then amount = -p_amount else -amount >= p_amount end
+        ) or exists (
+            select 1 from credit_transactions
+            where user_id = v_account
+              and reference_id in ('release:' || v_reservation, 'settle:' || v_reservation)
+              and reference_id <> p_reference_id
+        ) then
+            raise exception 'NOT_AUTHORIZED';
+        end if;
+    end if;
+
+    if p_reference_id is not null then
+        select * into v_existing from credit_transactions
+            where user_id = v_account and reference_id = p_reference_id;
+        if found then
+            return v_existing;
+        end if;
+    end if;
+
+    select coalesce(sum(amount), 0)::integer into v_balance from credit_transactions where user_id = v_account;
+    v_amount := case when p_type = 'deduct' then -p_amount else p_amount end;
+
+    if v_balance + v_amount < 0 then
+        raise exception 'INSUFFICIENT_CREDITS';
+    end if;
+
+    if v_token.workspace_id is not null and p_type = 'deduct' and v_member.spending_limit is not null then
+        select coalesce(-sum(amount), 0)::integer into v_spent from credit_transactions
+            where user_id = v_account and member_id = v_token.owner_id
+              and type in ('deduct', 'refund')
+              and created_at >= date_trunc('month', now());
+        if v_spent + p_amount > v_member.spending_limit then
+            raise exception 'SPENDING_LIMIT_EXCEEDED';
+        end if;
+    end if;
+
+    insert into credit_transactions (
+        user_id, type, amount, balance_after, description, tool, reference_id,
+        workspace_id, member_id, member_email
+    ) values (
+        v_account, p_type, v_amount, v_balance + v_amount, coalesce(p_description, ''), p_tool, p_reference_id,
+        v_token.workspace_id, v_token.owner_id, v_member.email
+    ) returning * into v_row;
+    return v_row;
+end;
+$$;
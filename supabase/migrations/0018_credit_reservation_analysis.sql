@@ -0,0 +1,205 @@
+-- Lệnh phân tích (/api/ai/analyze) chạy dưới reservation render không trừ credit, nên giữ reservation, phân tích
+-- rồi chốt lại sẽ được hoàn toàn bộ. Đánh dấu reservation đã có lần phân tích thành công; khi chốt, server giữ lại
+-- phí phân tích (p_analysis_fee), còn nếu đã render thì giá phương án đã bao gồm phần này.
+alter table credit_transactions
+    add column if not exists analyzed_at timestamptz;
+
+create or replace function record_credit_reservation_analysis(
+    p_reservation_id text,
+    p_member_id text
+)
+returns void
+language plpgsql
+security definer set search_path = public
+as $$
+begin
+    update credit_transactions
+        set analyzed_at = coalesce(analyzed_at, now())
+        where reference_id = 'reservation:' || p_reservation_id
+          and type = 'deduct'
+          and member_id = p_member_id;
+end;
+$$;
+
+revoke all on function record_credit_reservation_analysis(text, text) from public, anon, authenticated;
+grant execute on function record_credit_reservation_analysis(text, text) to service_role;
+
+-- Như 0012, chỉ khác: reservation đã phân tích luôn giữ lại ít nhất p_analysis_fee
+drop function if exists settle_credit_reservation(text, text, integer);
+create or replace function settle_credit_reservation(
+    p_reservation_id text,
+    p_member_id text,
+    p_render_unit integer,
+    p_analysis_fee integer
+)
+returns integer
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_row credit_transactions;
+    v_held integer;
+    v_refund integer;
+    v_balance integer;
+begin
+    select * into v_row from credit_transactions
+        where reference_id = 'reservation:' || p_reservation_id
+          and type = 'deduct'
+          and member_id = p_member_id
+        limit 1;
+    if not found then
+        raise exception 'RESERVATION_NOT_FOUND';
+    end if;
+
+    perform pg_advisory_xact_lock(hashtext('credits:' || v_row.user_id));
+    select * into v_row from credit_transactions where id = v_row.id for update;
+
+    if v_row.settled_at is not null or exists (
+        select 1 from credit_transactions
+        where user_id = v_row.user_id and reference_id = 'release:' || p_reservation_id
+    ) then
+        return 0;
+    end if;
+
+    v_held := -v_row.amount;
+    v_refund := case
+        when v_row.used_amount = 0 then v_held
+        when v_row.tool = 'render' and p_render_unit > 0
+            then ((v_held - v_row.used_amount) / p_render_unit) * p_render_unit
+        else 0
+    end;
+    if v_row.analyzed_at is not null then
+        v_refund := greatest(0, least(v_refund, v_held - greatest(p_analysis_fee, 0)));
+    end if;
+
+    update credit_transactions set settled_at = now() where id = v_row.id;
+
+    if v_refund > 0 then
+        select coalesce(sum(amount), 0)::integer into v_balance from credit_transactions where user_id = v_row.user_id;
+        insert into credit_transactions (
+            user_id, type, amount, balance_after, description, tool, reference_id,
+            workspace_id, member_id, member_email
+        ) values (
+            v_row.user_id, 'refund', v_refund, v_balance + v_refund, 'Refund: ' || v_row.description, v_row.tool,
+            'settle:' || p_reservation_id, v_row.workspace_id, v_row.member_id, v_row.member_email
+        );
+    end if;
+    return v_refund;
+end;
+$$;
+
+revoke all on function settle_credit_reservation(text, text, integer, integer) from public, anon, authenticated;
+grant execute on function settle_credit_reservation(text, text, integer, integer) to service_role;
+
+-- Như 0013, chỉ khác nhánh refund: reservation đã có lần phân tích thì chỉ server chốt được
+create or replace function apply_credit_transaction(
+    p_user_id text,
+    p_type text,
+    p_amount integer,
+    p_description text,
+    p_tool text default null,
+    p_reference_id text default null
+)
+returns credit_transactions
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+    v_workspace uuid := credit_account_workspace(p_user_id);
+    v_role text;
+    v_limit integer;
+    v_spent integer;
+    v_existing credit_transactions;
+    v_balance integer;
+    v_amount integer;
+    v_row credit_transactions;
+begin
+    if v_workspace is not null then
+        v_role := workspace_role(v_workspace);
+        if v_role is null or (p_type = 'deduct' and v_role = 'viewer') then
+            raise exception 'NOT_AUTHORIZED';
+        end if;
+    elsif not is_current_owner(p_user_id) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_amount <= 0 then
+        raise exception 'INVALID_AMOUNT';
+    end if;
+
+    perform pg_advisory_xact_lock(hashtext('credits:' || p_user_id));
+
+    -- Từ client chỉ được: quà chào mừng (tài khoản cá nhân), hoàn đúng một reservation chưa dùng, thưởng 1 credit cho đánh giá một render của mình.
+    -- Nạp credit thật (kể cả cho workspace) đi qua service role (bỏ qua hàm này).
+    if p_type = 'topup' and (v_workspace is not null or p_reference_id is distinct from 'welcome' or p_amount > 100) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    if p_type = 'refund' and not exists (
+        select 1 from credit_transactions
+        where user_id = p_user_id
+          and reference_id = 'reservation:' || substring(p_reference_id from 'release:(.*)')
+          and amount = -p_amount
+          and used_amount = 0
+          and analyzed_at is null
+          and settled_at is null
+    ) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+    -- Thưởng đánh giá: 'feedback:<render_id>' phải là render của chính người gọi (trong đúng tài khoản credit),
+    -- và mỗi render chỉ được thưởng một lần dù ghi vào tài khoản nào
+    if p_type = 'reward' and (
+        p_amount > 1
+        or coalesce(p_reference_id, '') not like 'feedback:%'
+        or not exists (
+            select 1 from render_history h
+            where h.id::text = substring(p_reference_id from 10)
+              and h.owner_id = coalesce(auth.uid()::text, p_user_id)
+              and h.workspace_id is not distinct from v_workspace
+        )
+        or exists (
+            select 1 from credit_transactions
+            where type = 'reward' and reference_id = p_reference_id and user_id <> p_user_id
+        )
+    ) then
+        raise exception 'NOT_AUTHORIZED';
+    end if;
+
+    if p_reference_id is not null then
+        select * into v_existing from credit_transactions
+            where user_id = p_user_id and reference_id = p_reference_id;
+        if found then
+            return v_existing;
+        end if;
+    end if;
+
+    select coalesce(sum(amount), 0)::integer into v_balance from credit_transactions where user_id = p_user_id;
+    v_amount := case when p_type = 'deduct' then -p_amount else p_amount end;
+
+    if v_balance + v_amount < 0 then
+        raise exception 'INSUFFICIENT_CREDITS';
+    end if;
+
+    -- Hạn mức tháng của thành viên: tổng đã dùng (trừ phần được hoàn) trong tháng này
+    if v_workspace is not null and p_type = 'deduct' then
+        select spending_limit into v_limit from workspace_members
+            where workspace_id = v_workspace and user_id = auth.uid()::text;
+        if v_limit is not null then
+            select coalesce(-sum(amount), 0)::integer into v_spent from credit_transactions
+                where user_id = p_user_id and member_id = auth.uid()::text
+                  and type in ('deduct', 'refund')
+                  and created_at >= date_trunc('month', now());
+            if v_spent + p_amount > v_limit then
+                raise exception 'SPENDING_LIMIT_EXCEEDED';
+            end if;
+        end if;
+    end if;
+
+    insert into credit_transactions (
+        user_id, type, amount, balance_after, description, tool, reference_id,
+        workspace_id, member_id, member_email
+    ) values (
+        p_user_id, p_type, v_amount, v_balance + v_amount, coalesce(p_description, ''), p_tool, p_reference_id,
+        v_workspace, auth.uid()::text, auth.email()
+    ) returning * into v_row;
+    return v_row;
+end;
+$$;
@@ -33,4 +33,13 @@ if (supabaseUrl && supabaseAnonKey) {
   client = createMockChain();
 }
 
-export const supabase = client as any;
\ No newline at end of file
+export let supabase = client as any;
+export let isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey);
+
+/**
+ * Thay client dùng chung cho mọi service (server API dùng client service-role)
+ */
+export const setSupabaseClient = (serverClient: any) => {
+  supabase = serverClient;
+  isSupabaseConfigured = true;
+};
\ No newline at end of file
@@ -11,12 +11,26 @@ export interface OptionItem {
   value: string;
   label: string;
   description?: string;
+  prompt?: string; // Text sent to Gemini for this option; defaults to `value`
+  enabled?: boolean; // Catalog items only; undefined = enabled
+  order?: number; // Catalog items only; ascending
+}
+
+// Option lists that can be edited at runtime (see services/optionCatalog.ts)
+export type OptionCatalogKind = 'styles' | 'palettes' | 'surfaceMaterials' | 'textileMaterials' | 'textileColors';
+
+export type OptionCatalog = Record<OptionCatalogKind, OptionItem[]>;
+
+export interface PaletteColor {
+  hex: string; // Normalized "#RRGGBB"
+  name: string; // English colour name sent to Gemini
 }
 
 export interface RenderOptions {
   category: string;
   style: string;
   colorPalette: string;
+  customPalette?: PaletteColor[]; // 2–6 exact colours; overrides colorPalette when set
   surfaceMaterial: string; // New: specific surface material
   textileMaterial: string; // New: specific textile material
   textileColor1: string; // New: primary textile color
@@ -25,6 +39,70 @@ export interface RenderOptions {
   hiddenAIContext?: string; // New: Hidden AI analysis context
   isAutoFocus: boolean; // New: AI Photography Auto-Focus
   cameraPreset: string; // New: Photography Lens Preset Key
+  qualityGate?: QualityGateOptions; // Optional grading + one corrective re-render
+}
+
+// --- QUALITY GATE ---
+export type QualityGateMethod = 'vision' | 'local'; // Flash vision check, or local fidelity metrics only
+
+export interface QualityGateOptions {
+  enabled: boolean;
+  threshold: number; // 0–100; re-render once when the best variant's overall grade is below it
+  method: QualityGateMethod;
+}
+
+export interface QualityGrade {
+  layout: number; // 0–100
+  color: number; // 0–100
+  artifacts: number | null; // 0–100, 100 = clean; null when not measured (local method)
+  overall: number; // 0–100
+  notes?: string; // Short English description of the problems, used in the corrective prompt
+  method: QualityGateMethod;
+}
+
+export interface QualityGateReport {
+  threshold: number;
+  firstAttempt: QualityGrade; // Best grade of the first render
+  retryAttempt?: QualityGrade; // Best grade of the corrective re-render, if one ran
+  usedRetry: boolean; // true = the returned variants come from the re-render
+}
+
+export interface WeddingRenderResult {
+  variants: string[]; // Data URLs of all successfully rendered variants
+  masterPrompt: string; // Shared master prompt used for every variant
+  quality?: QualityGateReport; // Present when the quality gate ran
+}
+
+// --- MASTER PROMPT INSPECTOR ---
+export interface PromptSection {
+  id: string;
+  title: string; // Vietnamese heading shown in the inspector
+  label: string; // Heading sent to the model, e.g. "SUBJECT DESCRIPTION"; empty = raw content
+  content: string;
+}
+
+export interface MasterPromptDraft {
+  sections: PromptSection[];
+  masterPrompt: string; // composeMasterPrompt(sections)
+}
+
+// --- PROGRESS & CANCELLATION ---
+export type GenerationStage = 'learning' | 'analysis' | 'rendering' | 'retry' | 'editing' | 'detecting' | 'upscaling' | 'sketching' | 'grading';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  message: string; // Ready-to-display status text
+  attempt?: number; // Retry: the attempt about to run (2..maxAttempts)
+  maxAttempts?: number;
+  waitMs?: number; // Retry: backoff before the next attempt
+}
+
+export interface ServiceCallOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+  reservationId?: string; // Credit reservation paying for this call; the AI proxy refuses paid calls without one
+  scope?: RenderScope; // Whose history to learn from and save to; defaults to the current user and workspace
+  headless?: boolean; // No DOM (server, CLI): the quality gate cannot fall back to local pixel metrics
 }
 
 export enum AppState {
@@ -56,12 +134,13 @@ export interface UpscaleProps {
   state: UpscaleState;
   onStateChange: (newState: Partial<UpscaleState>) => void;
   userCredits: number;
-  onDeductCredits?: (cost: number, description: string) => Promise<void>;
+  onReserveCredits?: ReserveCreditsHandler; // Held credits; confirm on success, release on failure
   onReset: () => void;
+  onEnqueueJob?: EnqueueJobHandler; // Send the job to the background queue instead of waiting
 }
 
 // New AdvancedEdit state and props
-export type EditMode = 'NOTE' | 'SWAP';
+export type EditMode = 'NOTE' | 'SWAP' | 'MASK' | 'REMOVE';
 
 export interface ClickPoint {
   x: number;
@@ -73,12 +152,15 @@ export interface AdvancedEditState {
   editMode: EditMode;
   refObject: FileData | null; // For SWAP mode
   annotatedBase64: string | null; // For NOTE mode (base64 of image with annotations)
-  clickPoint: ClickPoint | null; // For SWAP mode (single point reference for detection/swap)
+  annotations: Annotation[]; // For NOTE mode: the vector marks behind annotatedBase64, reopened to adjust them
+  callouts: AnnotationCallout[]; // For NOTE mode: numbered instructions derived from annotations when they are saved
+  maskBase64: string | null; // For MASK and REMOVE modes: black/white PNG at source size, white = region to change
+  clickPoint: ClickPoint | null; // For SWAP mode (single point reference for detection/swap), and REMOVE when marked by points
   detectedPoints: ClickPoint[]; // New: List of automatically detected similar objects
   resultImage: string | null; // AI generated result
   isLoading: boolean;
   error: string | null;
-  isAnnotating: boolean; // Controls whether AnnotationCanvas is visible
+  isAnnotating: boolean; // Controls whether AnnotationCanvas (NOTE) or MaskPainter (MASK) is visible
   additionalPrompt?: string; // New: Optional user text prompt for edits
 }
 
@@ -86,8 +168,9 @@ export interface AdvancedEditProps {
   state: AdvancedEditState;
   onStateChange: (newState: Partial<AdvancedEditState>) => void;
   userCredits: number;
-  onDeductCredits?: (cost: number, description: string) => Promise<void>;
+  onReserveCredits?: ReserveCreditsHandler; // Held credits; confirm on success, release on failure
   onReset: () => void;
+  onEnqueueJob?: EnqueueJobHandler; // Send the job to the background queue instead of waiting
 }
 
 // New Sketch Converter types
@@ -106,8 +189,9 @@ export interface SketchConverterProps {
   state: SketchConverterState;
   onStateChange: (newState: Partial<SketchConverterState>) => void;
   userCredits: number;
-  onDeductCredits?: (cost: number, description: string) => Promise<void>;
+  onReserveCredits?: ReserveCreditsHandler; // Held credits; confirm on success, release on failure
   onReset: () => void;
+  onEnqueueJob?: EnqueueJobHandler; // Send the job to the background queue instead of waiting
 }
 
 // New Idea Generator Types
@@ -131,22 +215,98 @@ export interface IdeaGeneratorProps {
   state: IdeaGeneratorState;
   onStateChange: (newState: Partial<IdeaGeneratorState>) => void;
   userCredits: number;
-  onDeductCredits?: (cost: number, description: string) => Promise<void>;
+  onReserveCredits?: ReserveCreditsHandler; // Held credits; confirm on success, release on failure
   onReset: () => void;
+  onEnqueueJob?: EnqueueJobHandler; // Send the job to the background queue instead of waiting
+}
+
+
+// --- OPTION PRESETS ---
+// The eight Render tab selectors plus the auto-focus toggle (free text and hidden context are not part of a preset)
+export type PresetOptions = Pick<RenderOptions,
+  'category' | 'style' | 'colorPalette' | 'surfaceMaterial' | 'textileMaterial' |
+  'textileColor1' | 'textileColor2' | 'cameraPreset' | 'isAutoFocus' | 'customPalette'>;
+
+export interface RenderPreset {
+  id: string;
+  name: string;
+  ownerId: string;
+  options: PresetOptions;
+  isStudioDefault: boolean; // Visible to everyone in the studio, applied on startup
+  workspaceId?: string | null; // Shared with the members of this workspace
+  createdAt: string; // ISO date
+}
+
+// --- RENDER RECIPES ---
+export interface RenderRecipe {
+  id: string;
+  name: string;
+  options: RenderOptions; // Full option set, including cameraPreset / isAutoFocus / hiddenAIContext
+  variantCount: number;
+  masterPrompt: string; // Prompt actually sent in Step 2 (after any manual edits)
+  sourceFingerprint: string; // SHA-256 (hex) of the source image base64
+  thumbnail?: string; // Small JPEG data URL of the chosen result, for browsing
+  provider: string; // ImageProvider.name
+  models: { analysis: string; image: string };
+  renderId?: string | null; // render_history row this recipe was saved from
+  createdAt: string; // ISO date
+}
+
+export interface RecipeFile {
+  format: 'luxzen-render-recipes';
+  version: 1;
+  recipes: RenderRecipe[];
+}
+
+// --- JOB QUEUE ---
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export type JobPayload =
+  | { tool: Tool.RENDER; sourceImage: FileData; options: RenderOptions; variantCount: number; masterPrompt?: string } // masterPrompt: edited prompt, skips Step 0–1
+  | { tool: Tool.UPSCALE; sourceImage: FileData; prompt: string; resolution: Resolution }
+  | { tool: Tool.ADVANCED_EDIT; sourceImage: FileData; editMode: EditMode; secondaryImage?: FileData; targetPoints?: ClickPoint[]; additionalPrompt?: string; annotations?: Annotation[]; callouts?: AnnotationCallout[] } // annotations: NOTE marks, restored when the job is opened; MASK/REMOVE: secondaryImage is the mask (REMOVE by points has none)
+  | { tool: Tool.SKETCH_CONVERTER; sourceImage: FileData; sketchStyle: SketchStyle; resolution: Resolution }
+  | { tool: Tool.IDEA_GENERATOR; sourceSketch: FileData; assets: IdeaAsset[] };
+
+export interface RenderJob {
+  id: string;
+  label: string; // Short Vietnamese description shown in the jobs drawer
+  payload: JobPayload;
+  status: JobStatus;
+  progress: GenerationProgress | null; // Live only, not persisted
+  results: string[]; // Data URLs
+  masterPrompt?: string; // Render jobs only
+  renderId?: string | null; // Render jobs with a single variant are saved to history right away
+  reservation?: CreditReservation; // Credits held at enqueue, released if the job fails or is cancelled
+  workspaceId?: string | null; // Workspace active at enqueue; its webhooks hear when the job ends
+  error?: string;
+  createdAt: number;
+  startedAt?: number;
+  finishedAt?: number;
 }
 
+export type EnqueueJobHandler = (label: string, payload: JobPayload, reservation?: CreditReservation) => void;
+
+export type ReserveCreditsHandler = (cost: number, description: string) => Promise<CreditReservation>;
 
 // Annotation Types for AnnotationCanvas
-export type AnnotationTool = 'brush' | 'arrow' | 'text';
+// select: pick, move and restyle existing annotations; eraser: delete whole annotations it touches
+export type AnnotationTool = 'select' | 'brush' | 'highlighter' | 'arrow' | 'rectangle' | 'ellipse' | 'text' | 'eraser';
+
+// Every annotation is drawn with a numbered badge (its position in the list + 1)
+interface AnnotationBase {
+  instruction?: string; // What to do at this mark, e.g. "đổi hoa sang màu hồng"
+}
 
-export interface StrokeAnnotation {
-  type: 'brush';
+export interface StrokeAnnotation extends AnnotationBase {
+  type: 'brush' | 'highlighter';
   points: { x: number; y: number }[];
   color: string;
   lineWidth: number;
+  opacity?: number; // 0–1, highlighter marks are translucent so the area underneath stays visible
 }
 
-export interface ArrowAnnotation {
+export interface ArrowAnnotation extends AnnotationBase {
   type: 'arrow';
   startX: number;
   startY: number;
@@ -156,7 +316,17 @@ export interface ArrowAnnotation {
   lineWidth: number;
 }
 
-export interface TextAnnotation {
+export interface ShapeAnnotation extends AnnotationBase {
+  type: 'rectangle' | 'ellipse';
+  x: number; // Top-left of the bounding box
+  y: number;
+  width: number;
+  height: number;
+  color: string;
+  lineWidth: number;
+}
+
+export interface TextAnnotation extends AnnotationBase {
   type: 'text';
   x: number;
   y: number;
@@ -166,7 +336,16 @@ export interface TextAnnotation {
   fontFamily: string;
 }
 
-export type Annotation = StrokeAnnotation | ArrowAnnotation | TextAnnotation;
+export type Annotation = StrokeAnnotation | ArrowAnnotation | ShapeAnnotation | TextAnnotation;
+
+// Sent with a NOTE edit so each badge number maps to a place and its own instruction
+export interface AnnotationCallout {
+  number: number;
+  type: Annotation['type'];
+  x: number; // Percentage 0-100 of the marked spot (arrow tip, shape or stroke centre, text position)
+  y: number; // Percentage 0-100
+  instruction: string;
+}
 
 // --- LEARNING & FEEDBACK TYPES ---
 export interface LearningContext {
@@ -174,12 +353,160 @@ export interface LearningContext {
     constraints: string;
 }
 
+export interface RenderScope {
+    ownerId: string;
+    workspaceId: string | null;
+}
+
 export interface RenderHistoryEntry {
     id: string;
+    owner_id?: string | null; // Supabase auth uid or local anonymous id
+    workspace_id?: string | null; // Shared with this workspace's members
     category: string;
     style: string;
     master_prompt: string;
     rating?: number;
     feedback_tags?: string[];
+    layout_score?: number | null;
+    color_score?: number | null;
     created_at?: string;
-}
\ No newline at end of file
+}
+
+// Local fidelity metrics comparing a render to its source, 0–100
+export interface FidelityScores {
+  layout: number; // Edge-map correlation (structure preserved)
+  color: number; // Colour histogram intersection
+}
+// --- CREDIT LEDGER ---
+export type CreditTransactionType = 'deduct' | 'refund' | 'reward' | 'topup';
+
+export interface CreditTransaction {
+  id: string;
+  userId: string;
+  type: CreditTransactionType;
+  amount: number; // Signed: negative for deductions
+  balanceAfter: number;
+  description: string;
+  tool?: Tool; // Tool that spent the credits, for per-render reporting
+  referenceId?: string; // Idempotency key (e.g. job id, 'welcome')
+  workspaceId?: string; // Set when charged to a workspace pool
+  memberEmail?: string; // Workspace member who spent the credits
+  createdAt: string; // ISO date
+}
+
+// Credits held for one generation: deducted up front, refunded if the generation fails or is cancelled
+export interface CreditReservation {
+  id: string;
+  accountId?: string; // Credit account charged: user id or 'workspace:<id>'
+  amount: number;
+  description: string;
+  tool?: Tool;
+  createdAt: string; // ISO date
+}
+
+// --- PRICING ---
+export interface PricingTable {
+  render: {
+    perVariant: number;
+    qualityGate: number; // Per render, covers grading; the corrective re-render of one variant is held at perVariant and refunded if not needed
+    analysis: number; // Kept from a render hold whose prompt analysis ran but rendered nothing (prompt preview)
+  };
+  upscale: Record<Resolution, number>;
+  advancedEdit: Record<EditMode, number>;
+  detection: number; // Detect similar objects (SWAP)
+  sketch: Record<Resolution, number>;
+  ideaGenerator: number;
+}
+
+export type PriceRequest =
+  | { tool: Tool.RENDER; variantCount: number; qualityGate?: QualityGateOptions }
+  | { tool: Tool.UPSCALE; resolution: Resolution }
+  | { tool: Tool.ADVANCED_EDIT; editMode: EditMode }
+  | { tool: Tool.SKETCH_CONVERTER; resolution: Resolution }
+  | { tool: Tool.IDEA_GENERATOR }
+  | { tool: 'detection' };
+
+export interface CostEstimate {
+  total: number;
+  lines: { label: string; amount: number }[]; // Breakdown for batch / multi-step actions
+}
+
+// --- USER ACCOUNTS ---
+export interface UserProfile {
+  id: string; // Supabase auth uid, or the local anonymous id
+  email: string | null;
+  isAnonymous: boolean; // true = local profile on this browser, not signed in
+}
+
+// --- WORKSPACES ---
+export type WorkspaceRole = 'owner' | 'designer' | 'viewer';
+
+export interface Workspace {
+  id: string;
+  name: string;
+  ownerId: string;
+  role: WorkspaceRole; // Current user's role in this workspace
+  createdAt: string; // ISO date
+}
+
+export interface WorkspaceMember {
+  workspaceId: string;
+  email: string;
+  userId: string | null; // null until the invite is claimed at sign-in
+  role: WorkspaceRole;
+  spendingLimit: number | null; // Credits per calendar month, null = unlimited
+}
+
+// --- HEADLESS API ---
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string; // First characters of the token, to recognise it in the list
+  workspaceId: string | null; // Renders are charged to this workspace's pool instead of the owner
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+// --- WEBHOOKS ---
+export type WebhookEvent = 'job.succeeded' | 'job.failed';
+
+export interface WebhookSubscription {
+  id: string;
+  workspaceId: string;
+  url: string;
+  secret: string; // HMAC-SHA256 key for the X-LuxeRender-Signature header
+  events: WebhookEvent[];
+  tools: Tool[] | null; // null = every tool
+  enabled: boolean;
+  createdAt: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEvent;
+  jobId: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+// Sent by the app to the server when a background job ends; the server fans it out to the subscriptions
+export interface JobEventReport {
+  jobId: string;
+  workspaceId: string;
+  reservationId?: string; // Credit reservation the browser job ran on; the server checks reports against it
+  tool: Tool;
+  label: string;
+  status: 'succeeded' | 'failed';
+  options: Record<string, unknown>;
+  results: string[]; // Data URLs, uploaded by the server so the payload can link to them
+  error?: string;
+}
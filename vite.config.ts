@@ -2,17 +2,22 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // AI calls go to the Node proxy (server/index.ts), which holds the Gemini key
+          '/api': `http://localhost:${env.AI_PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // The server bundle (npm run server) reads its environment at runtime instead
+      define: isSsrBuild ? {} : {
+        'process.env.AI_PROXY_URL': JSON.stringify(env.AI_PROXY_URL),
+        'process.env.IMAGE_PROVIDER': JSON.stringify(env.IMAGE_PROVIDER)
       },
       resolve: {
         alias: {
@@ -0,0 +1,17 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+
+// Unit tests run in Node against the offline ledger and the mock provider
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'dist/**', 'dist-server/**', 'dist-cli/**'],
+    setupFiles: ['./vitest.setup.ts'],
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  }
+});
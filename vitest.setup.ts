@@ -0,0 +1,18 @@
+import { beforeEach } from 'vitest';
+
+// Offline services keep their state in localStorage, which Node does not have
+class MemoryStorage {
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+  removeItem(key: string) { this.items.delete(key); }
+  key(index: number) { return [...this.items.keys()][index] ?? null; }
+}
+
+(globalThis as any).localStorage = new MemoryStorage();
+
+beforeEach(() => {
+  localStorage.clear();
+});